@@ -4,65 +4,103 @@ import { Dashboard } from './components/Dashboard';
 import { TestInterface } from './components/TestInterface';
 import { ResultAnalysis } from './components/ResultAnalysis';
 import { Instructions } from './components/Instructions';
-import { TestConfig, Question, TestResult, Subject } from './types';
-import { generateQuestions } from './services/geminiService';
-import { cacheQuestions, getCachedQuestions, clearCache } from './utils/db';
+import { ProgressReport } from './components/ProgressReport';
+import { FlashcardStudy } from './components/FlashcardStudy';
+import { UsageReport } from './components/UsageReport';
+import { TestConfig, Question, TestResult, Subject, TestSession, TestAttempt, AIAnalysis, Flashcard, Language, UserResponse } from './types';
+import { generateQuestions, checkAIAvailability, cancelTestRequests } from './services/geminiService';
+import { isAIServiceError } from './services/aiErrors';
+import { loadTodayUsage } from './services/usageTracker';
+import { AIQueueNotice } from './components/AIQueueNotice';
+import { cacheQuestions, getAllQuestions, markQuestionsSeen, saveTestAttempt, getTestHistory, getReviewDeck, getDueReviewCards, saveReviewCards } from './utils/db';
+import { applyReviewOutcomes, buildReviewOutcomes } from './utils/spacedRepetition';
+import { groupUnits } from './utils/questionGroups';
+import { getLanguagePreference, setLanguagePreference } from './utils/i18n';
+import { ensureCorpusSeeded, countBankQuestions, getOfflinePreference, setOfflinePreference, getRepeatWindowPreference, setRepeatWindowPreference, BankCounts } from './utils/corpus';
+import { loadSession, clearSession } from './utils/session';
+import { computeImprovementTrend } from './utils/stats';
+import { getMarkingScheme, MARKING_SCHEMES } from './utils/scoring';
+import { getExamPattern } from './utils/examPatterns';
+import { buildBlueprint, takeFromBank, queryBankForBlueprint, generateForNextCell, mergeIntoPaper, isPaperComplete, assembleOfflinePaper } from './services/paperAssembler';
+import { fetchPracticeBatch } from './services/practiceFeed';
+import { planPracticeBatch, PracticePlan } from './utils/practice';
 import { Loader2 } from 'lucide-react';
 
-type Screen = 'dashboard' | 'instructions' | 'test' | 'result';
+type Screen = 'dashboard' | 'instructions' | 'test' | 'result' | 'progress' | 'flashcards' | 'usage';
+
+const REVISION_SESSION_SIZE = 20;
 
 export default function App() {
   const [currentScreen, setCurrentScreen] = useState<Screen>('dashboard');
   const [currentConfig, setCurrentConfig] = useState<TestConfig | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
   const [testResult, setTestResult] = useState<TestResult | null>(null);
+  const [activeAttemptId, setActiveAttemptId] = useState<string | null>(null);
+  const [history, setHistory] = useState<TestAttempt[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [loadingText, setLoadingText] = useState('');
   
   // State for restoring paused sessions
-  const [savedSession, setSavedSession] = useState<any>(null);
+  const [savedSession, setSavedSession] = useState<TestSession | null>(null);
+  const [isResuming, setIsResuming] = useState(false);
+  const [sessionNotice, setSessionNotice] = useState<string | null>(null);
 
-  // Question Bank (In-Memory + DB Sync happens in background)
-  const [questionBank, setQuestionBank] = useState<Record<string, Question[]>>({
-    'Mathematics': [],
-    'General Intelligence & Reasoning': [],
-    'General Awareness': []
-  });
+  // Offline mode is forced when there is no key to call the model with; the provider
+  // is asked on mount whether it has one
+  const [canUseAI, setCanUseAI] = useState(true);
+  const [offlineMode, setOfflineMode] = useState(getOfflinePreference);
+  const [bankCounts, setBankCounts] = useState<BankCounts | null>(null);
+  const [repeatWindow, setRepeatWindow] = useState(getRepeatWindowPreference);
+  const [dueReviewCount, setDueReviewCount] = useState(0);
+  const [language, setLanguage] = useState<Language>(getLanguagePreference);
 
   const isFetchingRef = useRef(false);
 
+  // Questions new papers must not repeat, per the user's repeat window
+  const getRecentQuestions = (): Question[] =>
+    history.slice(0, repeatWindow).flatMap(attempt => attempt.questions);
+
+  const refreshDueReviewCount = () => {
+    getDueReviewCards()
+      .then(cards => setDueReviewCount(cards.length))
+      .catch(e => console.warn("Review deck load failed", e));
+  };
+
+  const refreshBankCounts = () => {
+    getAllQuestions()
+      .then(qs => setBankCounts(countBankQuestions(qs)))
+      .catch(e => console.warn("Question bank count failed", e));
+  };
+
   // Check for saved session & DB Cache on mount
   useEffect(() => {
-    const saved = localStorage.getItem('rrb_current_session');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        if (Date.now() - parsed.timestamp < 24 * 60 * 60 * 1000) {
-           setSavedSession(parsed);
-        } else {
-           localStorage.removeItem('rrb_current_session');
-        }
-      } catch (e) {
-        localStorage.removeItem('rrb_current_session');
-      }
+    const saved = loadSession();
+    if (saved.status === 'ok') {
+      setSavedSession(saved.session);
+    } else if (saved.status === 'unrecoverable') {
+      console.warn("Saved session could not be restored:", saved.reason);
+      setSessionNotice(saved.reason);
     }
 
-    // Load cached questions from IndexedDB
-    const loadCache = async () => {
-       try {
-         const cached = await getCachedQuestions(20);
-         const grouped: Record<string, Question[]> = {};
-         cached.forEach(q => {
-            if(!grouped[q.subject]) grouped[q.subject] = [];
-            grouped[q.subject].push(q);
-         });
-         setQuestionBank(prev => ({ ...prev, ...grouped }));
-       } catch (e) {
-         console.warn("IndexedDB load failed", e);
-       }
-    };
-    loadCache();
+    // Seed the bundled corpus into IndexedDB; papers query it directly when they start
+    ensureCorpusSeeded()
+      .then(refreshBankCounts)
+      .catch(e => console.warn("IndexedDB seed failed", e));
+
+    getTestHistory()
+      .then(setHistory)
+      .catch(e => console.warn("Test history load failed", e));
+    refreshDueReviewCount();
+    loadTodayUsage().catch(e => console.warn("AI usage load failed", e));
     
+    if (offlineMode) {
+      checkAIAvailability().then(setCanUseAI).catch(e => {
+        console.warn("AI provider failed to load", e);
+        setCanUseAI(false);
+      });
+      return;
+    }
+
     // Background preload if cache is empty
     const subjects: Subject[] = ['Mathematics', 'General Intelligence & Reasoning', 'General Awareness'];
     const preloadQuestions = async () => {
@@ -74,77 +112,133 @@ export default function App() {
             selectedSubjects: [subject]
           }, 5).then(qs => {
              cacheQuestions(qs); // Save to DB
-             setQuestionBank(prev => ({
-                ...prev,
-                [subject]: [...(prev[subject] || []), ...qs]
-             }));
           }).catch(console.error);
        }
     };
-    preloadQuestions();
+    checkAIAvailability().then(available => {
+      setCanUseAI(available);
+      if (available) preloadQuestions();
+      else setOfflineMode(true);
+    }).catch(e => {
+      console.warn("AI provider failed to load", e);
+      setCanUseAI(false);
+      setOfflineMode(true);
+    });
   }, []);
 
+  const handleToggleOffline = (enabled: boolean) => {
+    setOfflineMode(enabled);
+    setOfflinePreference(enabled);
+  };
+
+  const handleLanguageChange = (next: Language) => {
+    setLanguage(next);
+    setLanguagePreference(next);
+  };
+
+  const handleRepeatWindowChange = (tests: number) => {
+    setRepeatWindow(tests);
+    setRepeatWindowPreference(tests);
+  };
+
   const handleConfigSelect = (config: TestConfig) => {
     setCurrentConfig(config);
+    if (config.mode === 'Practice') {
+      handleStartTest(config);
+      return;
+    }
     setCurrentScreen('instructions');
   };
 
-  const handleStartTest = async () => {
-    if (!currentConfig) return;
+  // Revision sessions replay due deck cards: no negative marking, a minute per card
+  const handleStartRevision = () => {
+    const count = Math.min(dueReviewCount, REVISION_SESSION_SIZE);
+    if (count === 0) return;
+    handleConfigSelect({
+      mode: 'Review',
+      totalQuestions: count,
+      durationMinutes: count,
+      selectedSubjects: ['Mathematics', 'General Intelligence & Reasoning', 'General Awareness'],
+      markingScheme: MARKING_SCHEMES.PRACTICE
+    });
+  };
+
+  const handleResumeSession = () => {
+    if (!savedSession) return;
+    const { config, questions: savedQuestions } = savedSession;
+
+    setCurrentConfig(config);
+    setQuestions(savedQuestions);
+    setIsResuming(true);
+    setCurrentScreen('test');
+
+    // Papers interrupted mid-stream still need their remaining questions
+    if (savedQuestions.length < config.totalQuestions) {
+      loadMoreQuestions(config, savedQuestions);
+    }
+  };
+
+  const handleDiscardSession = () => {
+    if (window.confirm("Discard your unfinished test? This cannot be undone.")) {
+      clearSession();
+      setSavedSession(null);
+    }
+  };
+
+  // Practice sessions skip the instructions screen, so their config is passed straight in
+  const handleStartTest = async (configOverride?: TestConfig) => {
+    const config = configOverride || currentConfig;
+    if (!config) return;
+
+    // A fresh paper replaces whatever session was saved before
+    setIsResuming(false);
+    setSavedSession(null);
 
     setIsLoading(true);
     setLoadingText('Preparing Question Paper...');
-    
-    let initialQs: Question[] = [];
-    const usedFromBank: Record<string, number> = {};
-
-    // 1. Try to use Bank first (Instant Start)
-    if (!currentConfig.selectedTopic) {
-        currentConfig.selectedSubjects.forEach(subject => {
-            const cached = questionBank[subject] || [];
-            if (cached.length > 0) {
-                const takeCount = Math.min(cached.length, 5); 
-                const subset = cached.slice(0, takeCount);
-                if (subset.length > 0) {
-                    initialQs = [...initialQs, ...subset];
-                    usedFromBank[subject] = takeCount;
-                }
-            }
-        });
+
+    if (config.mode === 'Review') {
+      await startRevisionTest(config);
+      return;
+    }
+    if (config.mode === 'Practice') {
+      await startPracticeTest(config);
+      return;
+    }
+    if (offlineMode) {
+      await startOfflineTest(config);
+      return;
     }
+    
+    const blueprint = buildBlueprint(config, getRecentQuestions());
 
     try {
+      // 1. Try to use Bank first (Instant Start), only where it fits the blueprint
+      const initialQs = takeFromBank(blueprint, await queryBankForBlueprint(blueprint));
+
       if (initialQs.length > 0) {
         // Cache Hit: Start immediately
-        setQuestionBank(prev => {
-           const next = { ...prev };
-           Object.keys(usedFromBank).forEach(subj => {
-              if (next[subj]) {
-                 next[subj] = next[subj].slice(usedFromBank[subj]);
-              }
-           });
-           return next;
-        });
+        markQuestionsSeen(initialQs.map(q => q.id)).catch(e => console.warn("Failed to mark questions seen", e));
 
         setQuestions(initialQs);
         setCurrentScreen('test');
         setIsLoading(false);
 
         // Progressive Fetch: Get the rest in background
-        if (initialQs.length < currentConfig.totalQuestions) {
-          loadMoreQuestions(currentConfig, initialQs.length);
+        if (initialQs.length < config.totalQuestions) {
+          loadMoreQuestions(config, initialQs);
         }
 
       } else {
         // Cache Miss: Fetch first batch then stream rest
-        const fetchedQs = await generateQuestions(currentConfig, 5);
+        const fetchedQs = await generateForNextCell(config, blueprint, []);
         setQuestions(fetchedQs);
         setCurrentScreen('test');
         setIsLoading(false);
-        cacheQuestions(fetchedQs);
+        cacheQuestions(fetchedQs.map(q => ({ ...q, lastSeenAt: Date.now() })));
 
-        if (fetchedQs.length < currentConfig.totalQuestions) {
-          loadMoreQuestions(currentConfig, fetchedQs.length);
+        if (fetchedQs.length < config.totalQuestions) {
+          loadMoreQuestions(config, fetchedQs);
         }
       }
     } catch (error) {
@@ -153,65 +247,200 @@ export default function App() {
     }
   };
 
+  // Builds the whole paper from the local bank; short banks give a shorter paper
+  const startOfflineTest = async (config: TestConfig) => {
+    try {
+      const paper = assembleOfflinePaper(config, await getAllQuestions(), getRecentQuestions());
+      setIsLoading(false);
+      if (paper.length === 0) {
+        alert("No stored questions match this test. Turn off offline mode to generate new ones.");
+        return;
+      }
+      if (paper.length < config.totalQuestions) {
+        alert(`Only ${paper.length} of ${config.totalQuestions} questions are available offline. The test will be shorter.`);
+        setCurrentConfig({ ...config, totalQuestions: paper.length });
+      }
+      markQuestionsSeen(paper.map(q => q.id)).catch(e => console.warn("Failed to mark questions seen", e));
+      setQuestions(paper);
+      setCurrentScreen('test');
+    } catch (e) {
+      console.error("Offline paper assembly failed", e);
+      alert("Failed to load questions from this device.");
+      setIsLoading(false);
+    }
+  };
+
+  const startRevisionTest = async (config: TestConfig) => {
+    try {
+      // Due members of the same set are seated together under their shared stem
+      const paper = groupUnits((await getDueReviewCards(Date.now(), config.totalQuestions)).map(card => card.question)).flat();
+      setIsLoading(false);
+      if (paper.length === 0) {
+        alert("No cards are due for revision right now.");
+        setCurrentScreen('dashboard');
+        return;
+      }
+      setCurrentConfig({ ...config, totalQuestions: paper.length, durationMinutes: paper.length });
+      setQuestions(paper);
+      setCurrentScreen('test');
+    } catch (e) {
+      console.error("Revision deck load failed", e);
+      alert("Failed to load your revision deck.");
+      setIsLoading(false);
+    }
+  };
+
+  const startPracticeTest = async (config: TestConfig) => {
+    try {
+      const batch = await fetchPracticeBatch(config, [], planPracticeBatch(config, history, [], {}), !offlineMode);
+      setIsLoading(false);
+      if (batch.length === 0) {
+        alert("No practice questions are available for this selection.");
+        setCurrentScreen('dashboard');
+        return;
+      }
+      markQuestionsSeen(batch.map(q => q.id)).catch(e => console.warn("Failed to mark questions seen", e));
+      setQuestions(batch);
+      setCurrentScreen('test');
+    } catch (e) {
+      console.error("Practice start failed", e);
+      alert("Failed to load practice questions.");
+      setIsLoading(false);
+      setCurrentScreen('dashboard');
+    }
+  };
+
+  // Practice keeps going one batch at a time, as planned from the answers so far
+  const loadMorePracticeQuestions = async (config: TestConfig, existing: Question[], plan: PracticePlan) => {
+    if (isFetchingRef.current || existing.length >= config.totalQuestions) return;
+    isFetchingRef.current = true;
+    try {
+      const batch = await fetchPracticeBatch(config, existing, plan, !offlineMode);
+      markQuestionsSeen(batch.map(q => q.id)).catch(e => console.warn("Failed to mark questions seen", e));
+      setQuestions(prev => [...prev, ...batch]);
+    } catch (e) {
+      if (!isAIServiceError(e) || e.code !== 'CANCELLED') console.error("Practice fetch failed", e);
+    }
+    isFetchingRef.current = false;
+  };
+
   // Progressive Loading Logic
-  const loadMoreQuestions = async (config: TestConfig, currentCount: number) => {
+  const loadMoreQuestions = async (config: TestConfig, existing: Question[]) => {
+    if (offlineMode || config.mode === 'Review' || config.mode === 'Practice') return;
     // Break recursion
-    if (currentCount >= config.totalQuestions) return;
+    const blueprint = buildBlueprint(config, getRecentQuestions());
+    if (isPaperComplete(blueprint, existing)) return;
     if (isFetchingRef.current) return;
     
     isFetchingRef.current = true;
 
     try {
-      // Calculate next batch
-      const remaining = config.totalQuestions - currentCount;
-      const batchSize = Math.min(remaining, 5); // Fetch 5 at a time
+      // Only what the blueprint is still missing gets generated
+      const newQs = await generateForNextCell(config, blueprint, existing);
+      const updated = mergeIntoPaper(config, existing, newQs);
 
-      const newQs = await generateQuestions(config, batchSize);
-      
       // Update State (Progressive Rendering)
-      setQuestions(prev => {
-        const existingIds = new Set(prev.map(q => q.id));
-        const filteredNew = newQs.filter(q => !existingIds.has(q.id));
-        const updated = [...prev, ...filteredNew];
-        
-        // Trigger next fetch if we still need more
-        if (updated.length < config.totalQuestions) {
-           setTimeout(() => {
-             isFetchingRef.current = false;
-             loadMoreQuestions(config, updated.length);
-           }, 500); // Small delay to prevent API throttling
-        }
-        
-        return updated;
-      });
+      setQuestions(updated);
 
-      // Cache new questions
-      cacheQuestions(newQs);
+      // Cache new questions, already seen since they are in this paper
+      cacheQuestions(newQs.map(q => ({ ...q, lastSeenAt: Date.now() })));
+
+      // Trigger next fetch if we still need more; pacing is the request scheduler's job.
+      // An empty batch stops the chain; TestInterface's onRequestMore retries when the candidate gets close.
+      isFetchingRef.current = false;
+      if (newQs.length > 0 && !isPaperComplete(blueprint, updated)) {
+         loadMoreQuestions(config, updated);
+      }
 
     } catch (e) {
-      console.error("Background fetch failed", e);
+      // Cancelled means the test was left; nothing to report
+      if (!isAIServiceError(e) || e.code !== 'CANCELLED') console.error("Background fetch failed", e);
       isFetchingRef.current = false;
     }
   };
 
-  const handleRequestMoreQuestions = () => {
+  const handleRequestMoreQuestions = (responses: Record<string, UserResponse> = {}) => {
+     if (currentConfig?.mode === 'Practice') {
+        if (isFetchingRef.current) return;
+        loadMorePracticeQuestions(currentConfig, questions, planPracticeBatch(currentConfig, history, questions, responses));
+        return;
+     }
      // This is a backup trigger called by TestInterface if it runs low
      if (currentConfig && !isFetchingRef.current && questions.length < currentConfig.totalQuestions) {
-        loadMoreQuestions(currentConfig, questions.length);
+        loadMoreQuestions(currentConfig, questions);
      }
   };
 
-  const handleTestComplete = (result: TestResult) => {
+  // Every answer reschedules its deck card; new misses, skips and bookmarks join the deck
+  const updateReviewDeck = async (paper: Question[], result: TestResult) => {
+    const deck = new Map((await getReviewDeck()).map(card => [card.id, card]));
+    await saveReviewCards(applyReviewOutcomes(deck, buildReviewOutcomes(paper, result.responses)));
+  };
+
+  // `paper` is what was actually scored: practice sessions drop prefetched, unseen questions
+  const handleTestComplete = (result: TestResult, paper: Question[]) => {
+    cancelTestRequests();
+    setQuestions(paper);
     setTestResult(result);
     setCurrentScreen('result');
-    localStorage.removeItem('rrb_current_session'); 
+    setSavedSession(null);
+    setIsResuming(false);
+    clearSession();
+
+    if (!currentConfig) return;
+    const attempt: TestAttempt = {
+      id: `attempt-${Date.now()}`,
+      config: currentConfig,
+      questions: paper,
+      result
+    };
+    setActiveAttemptId(attempt.id);
+    setHistory(prev => [attempt, ...prev]);
+    saveTestAttempt(attempt).catch(e => console.warn("Failed to save test result", e));
+    updateReviewDeck(paper, result)
+      .then(refreshDueReviewCount)
+      .catch(e => console.warn("Failed to update review deck", e));
+    refreshBankCounts();
+  };
+
+  const handleOpenAttempt = (attempt: TestAttempt) => {
+    setCurrentConfig(attempt.config);
+    setQuestions(attempt.questions);
+    setTestResult(attempt.result);
+    setActiveAttemptId(attempt.id);
+    setCurrentScreen('result');
+  };
+
+  // Persist AI output with the attempt so reopening it doesn't re-query the model.
+  // Goes through a ref: the analysis and the flashcards both arrive from one stale closure.
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  const saveToActiveAttempt = (extras: Pick<TestResult, 'aiAnalysis'> | Pick<TestResult, 'aiFlashcards'>) => {
+    const attempt = historyRef.current.find(a => a.id === activeAttemptId);
+    if (!attempt) return;
+
+    const updated: TestAttempt = { ...attempt, result: { ...attempt.result, ...extras } };
+    historyRef.current = historyRef.current.map(a => a.id === updated.id ? updated : a);
+    setHistory(historyRef.current);
+    saveTestAttempt(updated).catch(e => console.warn("Failed to save AI results", e));
   };
 
+  const handleAnalysisReady = (analysis: AIAnalysis) => {
+    if (historyRef.current.find(a => a.id === activeAttemptId)?.result.aiAnalysis) return;
+    saveToActiveAttempt({ aiAnalysis: analysis });
+  };
+
+  const handleFlashcardsReady = (cards: Flashcard[]) => saveToActiveAttempt({ aiFlashcards: cards });
+
   const handleExitTest = () => {
     if (window.confirm("Quit Test? Progress will be lost.")) {
+      cancelTestRequests();
       setCurrentScreen('dashboard');
       setQuestions([]);
-      localStorage.removeItem('rrb_current_session');
+      setSavedSession(null);
+      setIsResuming(false);
+      clearSession();
     }
   };
 
@@ -222,7 +451,7 @@ export default function App() {
            if (currentScreen === 'test') handleExitTest();
            else setCurrentScreen('dashboard');
         }} 
-        title={currentScreen === 'test' ? 'CBT Mode: On' : undefined}
+        title={currentScreen === 'test' ? (currentConfig?.strictMode ? 'CBT Mode: On' : 'CBT Mode: Off') : undefined}
       />
       
       <main className="flex-1">
@@ -230,18 +459,66 @@ export default function App() {
           <div className="h-[80vh] flex flex-col items-center justify-center">
              <Loader2 className="w-12 h-12 text-blue-600 animate-spin mb-4" />
              <h2 className="text-xl font-semibold text-slate-700">{loadingText}</h2>
+             <AIQueueNotice className="mt-4" />
           </div>
         ) : (
           <>
             {currentScreen === 'dashboard' && (
-              <Dashboard onStartTest={handleConfigSelect} />
+              <Dashboard 
+                onStartTest={handleConfigSelect}
+                savedSession={savedSession}
+                onResumeSession={handleResumeSession}
+                onDiscardSession={handleDiscardSession}
+                sessionNotice={sessionNotice}
+                onDismissNotice={() => setSessionNotice(null)}
+                history={history}
+                onOpenAttempt={handleOpenAttempt}
+                onOpenProgress={() => setCurrentScreen('progress')}
+                onOpenFlashcards={() => setCurrentScreen('flashcards')}
+                onOpenUsage={() => setCurrentScreen('usage')}
+                bankCounts={bankCounts}
+                offlineMode={offlineMode}
+                canUseAI={canUseAI}
+                onToggleOffline={handleToggleOffline}
+                dueReviewCount={dueReviewCount}
+                onStartRevision={handleStartRevision}
+                repeatWindow={repeatWindow}
+                onRepeatWindowChange={handleRepeatWindowChange}
+                language={language}
+                onLanguageChange={handleLanguageChange}
+              />
+            )}
+
+            {currentScreen === 'progress' && (
+              <ProgressReport 
+                history={history}
+                onBackToDashboard={() => setCurrentScreen('dashboard')}
+              />
+            )}
+
+            {currentScreen === 'usage' && (
+              <UsageReport 
+                onBackToDashboard={() => setCurrentScreen('dashboard')}
+              />
+            )}
+
+            {currentScreen === 'flashcards' && (
+              <FlashcardStudy 
+                onBackToDashboard={() => setCurrentScreen('dashboard')}
+              />
             )}
 
             {currentScreen === 'instructions' && currentConfig && (
               <Instructions 
                 durationMinutes={currentConfig.durationMinutes}
                 totalQuestions={currentConfig.totalQuestions}
-                onStart={handleStartTest}
+                markingScheme={getMarkingScheme(currentConfig)}
+                examName={getExamPattern(currentConfig.examPatternId)?.name}
+                sections={currentConfig.sections}
+                language={language}
+                strictMode={!!currentConfig.strictMode}
+                onStrictModeChange={currentConfig.mode === 'Review' || currentConfig.mode === 'Practice' ? undefined : (enabled) => setCurrentConfig({ ...currentConfig, strictMode: enabled })}
+                onStart={() => handleStartTest()}
                 onCancel={() => setCurrentScreen('dashboard')}
               />
             )}
@@ -249,11 +526,12 @@ export default function App() {
             {currentScreen === 'test' && currentConfig && (
               <TestInterface 
                 questions={questions}
-                durationMinutes={currentConfig.durationMinutes}
+                config={currentConfig}
                 onComplete={handleTestComplete}
                 onExit={handleExitTest}
                 onRequestMore={handleRequestMoreQuestions}
-                totalQuestionsConfig={currentConfig.totalQuestions}
+                savedState={isResuming && savedSession ? savedSession : undefined}
+                language={language}
               />
             )}
             
@@ -261,6 +539,11 @@ export default function App() {
               <ResultAnalysis 
                 result={testResult}
                 questions={questions}
+                markingScheme={getMarkingScheme(currentConfig)}
+                improvementTrend={computeImprovementTrend(history, activeAttemptId || undefined)}
+                onAnalysisReady={handleAnalysisReady}
+                onFlashcardsReady={handleFlashcardsReady}
+                language={language}
                 onBackToDashboard={() => setCurrentScreen('dashboard')}
               />
             )}
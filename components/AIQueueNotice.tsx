@@ -0,0 +1,35 @@
+import React, { useState, useEffect } from 'react';
+import { Hourglass } from 'lucide-react';
+import { subscribeScheduler, SchedulerStatus } from '../services/requestScheduler';
+
+interface AIQueueNoticeProps {
+  className?: string;
+}
+
+// Shown only while AI requests are held back by the rate limit or a backoff,
+// with a countdown to the next try
+export const AIQueueNotice: React.FC<AIQueueNoticeProps> = ({ className = '' }) => {
+  const [status, setStatus] = useState<SchedulerStatus | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => subscribeScheduler(setStatus), []);
+
+  useEffect(() => {
+    if (!status?.waitingForQuota) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [status?.waitingForQuota]);
+
+  if (!status?.waitingForQuota) return null;
+  const seconds = status.resumeAt ? Math.max(0, Math.ceil((status.resumeAt - now) / 1000)) : 0;
+
+  return (
+    <div className={`flex items-center gap-2 text-xs font-bold text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 ${className}`}>
+      <Hourglass className="w-3.5 h-3.5 shrink-0" />
+      <span>
+        Waiting for AI quota{seconds > 0 ? ` — next try in ${seconds}s` : '…'}
+        {status.queued > 1 ? ` (${status.queued} requests queued)` : ''}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Question, AttemptEvent, Language } from '../types';
+import { buildReplay, computeAnswerChanges, ReplayFrame } from '../utils/attemptReplay';
+import { getTranslator, localizeQuestion, Translator } from '../utils/i18n';
+import { formatSeconds } from '../utils/timeAnalysis';
+import { RichText } from './RichContent';
+import { ChevronLeft, ChevronRight, Film, Pause, Bookmark, Flag } from 'lucide-react';
+
+interface AttemptReplayProps {
+  questions: Question[];
+  events: AttemptEvent[];
+  language: Language;
+}
+
+const describeEvent = (t: Translator, frame: ReplayFrame, questionNumber: (id?: string) => number): string => {
+  const { event } = frame;
+  const n = questionNumber(event.questionId);
+  switch (event.type) {
+    case 'navigate': return t('replay.navigate', { n });
+    case 'select': return t('replay.select', { n, option: String.fromCharCode(65 + (event.option ?? 0)) });
+    case 'clear': return t('replay.clear', { n });
+    case 'mark': return t('replay.mark', { n });
+    case 'bookmark': return t(event.on ? 'replay.bookmark' : 'replay.unbookmark', { n });
+    case 'pause': return t('replay.pause');
+    case 'resume': return t('replay.resume');
+    case 'hint': return t('replay.hint', { n });
+    case 'doubt': return t('replay.doubt', { n });
+    case 'leave': return t('replay.leave');
+    case 'submit': return t('replay.submit');
+  }
+};
+
+export const AttemptReplay: React.FC<AttemptReplayProps> = ({ questions, events, language }) => {
+  const t = getTranslator(language);
+  const [step, setStep] = useState(0);
+
+  const frames = buildReplay(questions, events);
+  const stats = computeAnswerChanges(questions, events);
+  const indexById = new Map<string, number>(questions.map((q, i) => [q.id, i]));
+  const questionNumber = (id?: string) => (id && indexById.has(id) ? indexById.get(id)! + 1 : 0);
+
+  const frame = frames[Math.min(step, frames.length - 1)];
+  if (!frame) return null;
+  const question = questions.find(q => q.id === frame.questionId);
+  const content = question ? localizeQuestion(question, language) : null;
+  const selected = question ? frame.selections[question.id] : null;
+
+  const statTiles: { label: string; value: number; tone: string }[] = [
+    { label: t('replay.changes'), value: stats.changes, tone: 'text-slate-800' },
+    { label: t('replay.rightToWrong'), value: stats.rightToWrong, tone: 'text-red-600' },
+    { label: t('replay.wrongToRight'), value: stats.wrongToRight, tone: 'text-green-600' },
+    { label: t('replay.wrongToWrong'), value: stats.wrongToWrong, tone: 'text-amber-600' },
+    { label: t('replay.revisits'), value: stats.revisits, tone: 'text-slate-800' },
+    { label: t('replay.hints'), value: stats.hints + stats.doubts, tone: 'text-slate-800' },
+    { label: t('replay.pauses'), value: stats.pauses, tone: 'text-slate-800' },
+    { label: t('replay.leaves'), value: stats.leaves, tone: stats.leaves > 0 ? 'text-red-600' : 'text-slate-800' }
+  ];
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+      <h3 className="text-lg font-bold text-slate-700 mb-6 flex items-center">
+        <Film className="w-5 h-5 mr-2 text-indigo-500" /> {t('replay.title')}
+      </h3>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-3 mb-6">
+        {statTiles.map(tile => (
+          <div key={tile.label} className="bg-slate-50 rounded-lg p-3 border border-slate-100">
+            <p className="text-[10px] font-bold text-slate-500 uppercase">{tile.label}</p>
+            <p className={`text-2xl font-bold ${tile.tone}`}>{tile.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Stepper */}
+      <div className="flex items-center gap-3 mb-4">
+        <button
+          onClick={() => setStep(s => Math.max(0, s - 1))}
+          disabled={step === 0}
+          className="p-2 border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={frames.length - 1}
+          value={step}
+          onChange={(e) => setStep(Number(e.target.value))}
+          className="flex-1 accent-indigo-600"
+        />
+        <button
+          onClick={() => setStep(s => Math.min(frames.length - 1, s + 1))}
+          disabled={step >= frames.length - 1}
+          className="p-2 border border-slate-300 rounded-lg text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+        <span className="text-xs font-bold text-slate-500 w-36 text-right">
+          {t('replay.step', { step: step + 1, total: frames.length })} • {formatSeconds(frame.elapsedSeconds)}
+        </span>
+      </div>
+
+      <p className="mb-4 text-sm font-bold text-indigo-700 bg-indigo-50 border border-indigo-100 rounded px-3 py-2">
+        {describeEvent(t, frame, questionNumber)}
+      </p>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* The question on screen at this step, with the answer as it stood then */}
+        <div className="lg:col-span-2 border border-slate-200 rounded-lg p-4 relative">
+          {frame.paused && (
+            <div className="absolute inset-0 bg-slate-900/70 rounded-lg flex items-center justify-center text-white font-bold z-10">
+              <Pause className="w-5 h-5 mr-2" /> {t('replay.paused')}
+            </div>
+          )}
+          {question && content ? (
+            <>
+              <div className="flex items-center gap-2 mb-3 text-xs font-bold text-slate-400 uppercase">
+                Q{questionNumber(question.id)}
+                {frame.marked[question.id] && <Flag className="w-3.5 h-3.5 text-purple-500" />}
+                {frame.bookmarked[question.id] && <Bookmark className="w-3.5 h-3.5 text-yellow-500 fill-current" />}
+              </div>
+              <div className="text-slate-800 font-medium mb-4"><RichText text={content.text} /></div>
+              <div className="space-y-2">
+                {content.options.map((opt, i) => (
+                  <div key={i} className={`p-2 rounded border text-sm flex items-center
+                    ${selected === i ? (i === question.correctAnswer ? 'bg-green-50 border-green-300 font-bold' : 'bg-red-50 border-red-300 font-bold') : 'border-slate-200'}
+                    ${i === question.correctAnswer && selected !== i ? 'border-green-300 border-dashed' : ''}
+                  `}>
+                    <span className="mr-2 font-bold text-slate-500">{String.fromCharCode(65 + i)}.</span>
+                    <RichText text={opt} />
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-slate-400">{t('replay.noQuestion')}</p>
+          )}
+        </div>
+
+        {/* Palette as it stood at this step; a number jumps to the next step touching it */}
+        <div className="grid grid-cols-6 gap-1.5 content-start">
+          {questions.map((q, i) => {
+            const answered = frame.selections[q.id] !== undefined && frame.selections[q.id] !== null;
+            const tone = frame.marked[q.id]
+              ? 'bg-purple-400 text-white'
+              : answered ? 'bg-green-500 text-white' : 'bg-slate-100 text-slate-500';
+            return (
+              <button
+                key={q.id}
+                onClick={() => {
+                  const next = frames.findIndex((f, idx) => idx > step && f.event.questionId === q.id);
+                  if (next !== -1) setStep(next);
+                }}
+                className={`h-8 rounded text-xs font-bold ${tone} ${frame.questionId === q.id ? 'ring-2 ring-indigo-600 ring-offset-1' : ''}`}
+              >
+                {i + 1}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,33 +1,100 @@
 import React, { useState } from 'react';
-import { TestConfig, Subject, SUBJECT_TOPICS } from '../types';
-import { Book, Clock, Calculator, BarChart2, Settings, Zap } from 'lucide-react';
+import { TestConfig, Subject, SUBJECT_TOPICS, TestSession, UserResponse, TestAttempt, Language } from '../types';
+import { Book, Clock, Calculator, BarChart2, Settings, Zap, PlayCircle, AlertTriangle, Trash2, X, History, ChevronRight, TrendingUp, Database, WifiOff, RotateCcw, Layers, Languages, Coins } from 'lucide-react';
+import { LANGUAGES, getTranslator, subjectLabel } from '../utils/i18n';
+import { LocalizedText } from './LocalizedText';
+import { BankCounts, REPEAT_WINDOW_OPTIONS } from '../utils/corpus';
+import { computeHistoryStats, describeTestConfig } from '../utils/stats';
+import { MARKING_SCHEMES } from '../utils/scoring';
+import { EXAM_PATTERNS, buildPatternConfig, describeSections } from '../utils/examPatterns';
+import { PRACTICE_MAX_QUESTIONS } from '../services/practiceFeed';
+import { TARGET_ACCURACY_OPTIONS, DEFAULT_TARGET_ACCURACY } from '../utils/practice';
 
 interface DashboardProps {
   onStartTest: (config: TestConfig) => void;
+  savedSession?: TestSession | null;
+  onResumeSession?: () => void;
+  onDiscardSession?: () => void;
+  sessionNotice?: string | null;
+  onDismissNotice?: () => void;
+  history?: TestAttempt[];
+  onOpenAttempt?: (attempt: TestAttempt) => void;
+  onOpenProgress?: () => void;
+  onOpenFlashcards?: () => void;
+  onOpenUsage?: () => void;
+  bankCounts?: BankCounts | null;
+  offlineMode?: boolean;
+  canUseAI?: boolean;
+  onToggleOffline?: (enabled: boolean) => void;
+  dueReviewCount?: number;
+  onStartRevision?: () => void;
+  repeatWindow?: number;
+  onRepeatWindowChange?: (tests: number) => void;
+  language: Language;
+  onLanguageChange?: (language: Language) => void;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ onStartTest }) => {
+export const Dashboard: React.FC<DashboardProps> = ({ 
+  onStartTest,
+  savedSession,
+  onResumeSession,
+  onDiscardSession,
+  sessionNotice,
+  onDismissNotice,
+  history = [],
+  onOpenAttempt,
+  onOpenProgress,
+  onOpenFlashcards,
+  onOpenUsage,
+  bankCounts,
+  offlineMode = false,
+  canUseAI = true,
+  onToggleOffline,
+  dueReviewCount = 0,
+  onStartRevision,
+  repeatWindow = 0,
+  onRepeatWindowChange,
+  language,
+  onLanguageChange
+}) => {
+  const t = getTranslator(language);
   const [showCustomModal, setShowCustomModal] = useState(false);
+  const [showAllHistory, setShowAllHistory] = useState(false);
   const [customSubject, setCustomSubject] = useState<Subject>('Mathematics');
   const [customTopic, setCustomTopic] = useState<string>('');
   const [customCount, setCustomCount] = useState(20);
+  const [customNegativeMarking, setCustomNegativeMarking] = useState(true);
+  const [customPractice, setCustomPractice] = useState(false);
+  const [customTargetAccuracy, setCustomTargetAccuracy] = useState(DEFAULT_TARGET_ACCURACY);
+  const [expandedBankSubject, setExpandedBankSubject] = useState<Subject | null>(null);
 
-  const testCards = [
-    {
-      title: "Full Mock Test (CBT-1)",
-      desc: "100 Questions • 90 Minutes",
-      icon: <Clock className="w-6 h-6 text-blue-500" />,
-      config: { 
-        mode: 'Full' as const, 
-        totalQuestions: 100, 
-        durationMinutes: 90, 
-        selectedSubjects: ['Mathematics', 'General Intelligence & Reasoning', 'General Awareness'] as Subject[]
-      },
-      color: "border-blue-500 hover:bg-blue-50"
-    },
+  const stats = computeHistoryStats(history);
+  const visibleHistory = showAllHistory ? history : history.slice(0, 5);
+
+  const patternColors = [
+    { icon: "text-blue-500", card: "border-blue-500 hover:bg-blue-50" },
+    { icon: "text-indigo-500", card: "border-indigo-500 hover:bg-indigo-50" },
+    { icon: "text-cyan-500", card: "border-cyan-500 hover:bg-cyan-50" }
+  ];
+
+  const testCards: { title: string; desc: string; detail?: string; badge: string; icon: React.ReactNode; config: TestConfig; color: string }[] = [
+    ...EXAM_PATTERNS.map((pattern, idx) => {
+      const colors = patternColors[idx % patternColors.length];
+      const config = buildPatternConfig(pattern);
+      return {
+        title: t('dashboard.fullMockTitle', { name: pattern.name }),
+        desc: t('dashboard.cardSummary', { questions: config.totalQuestions, minutes: config.durationMinutes }),
+        detail: describeSections(pattern.sections),
+        badge: t('dashboard.badgeFullMock'),
+        icon: <Clock className={`w-6 h-6 ${colors.icon}`} />,
+        config,
+        color: colors.card
+      };
+    }),
     {
-      title: "Mathematics Speed Test",
-      desc: "30 Questions • 30 Minutes",
+      title: t('dashboard.mathsCard'),
+      badge: t('dashboard.badgeRecommended'),
+      desc: t('dashboard.cardSummary', { questions: 30, minutes: 30 }),
       icon: <Calculator className="w-6 h-6 text-green-500" />,
       config: { 
         mode: 'Subject' as const, 
@@ -38,8 +105,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ onStartTest }) => {
       color: "border-green-500 hover:bg-green-50"
     },
     {
-      title: "Reasoning & Intelligence",
-      desc: "30 Questions • 30 Minutes",
+      title: t('dashboard.reasoningCard'),
+      badge: t('dashboard.badgeRecommended'),
+      desc: t('dashboard.cardSummary', { questions: 30, minutes: 30 }),
       icon: <Zap className="w-6 h-6 text-purple-500" />,
       config: { 
         mode: 'Subject' as const, 
@@ -50,8 +118,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ onStartTest }) => {
       color: "border-purple-500 hover:bg-purple-50"
     },
     {
-      title: "General Awareness Booster",
-      desc: "40 Questions • 20 Minutes",
+      title: t('dashboard.awarenessCard'),
+      badge: t('dashboard.badgeRecommended'),
+      desc: t('dashboard.cardSummary', { questions: 40, minutes: 20 }),
       icon: <Book className="w-6 h-6 text-orange-500" />,
       config: { 
         mode: 'Subject' as const, 
@@ -65,21 +134,86 @@ export const Dashboard: React.FC<DashboardProps> = ({ onStartTest }) => {
 
   return (
     <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-end mb-2">
+        <label className="flex items-center gap-2 text-sm font-bold text-slate-600">
+          <Languages className="w-4 h-4" /> {t('dashboard.language')}
+          <select
+            value={language}
+            onChange={(e) => onLanguageChange?.(e.target.value as Language)}
+            className="p-1.5 border border-slate-300 rounded-lg bg-white"
+          >
+            {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+          </select>
+        </label>
+      </div>
+
       <div className="mb-10 text-center">
-        <h1 className="text-4xl font-bold text-slate-800 mb-4">Welcome, Aspirant!</h1>
+        <h1 className="text-4xl font-bold text-slate-800 mb-4">{t('dashboard.welcome')}</h1>
         <p className="text-lg text-slate-600 max-w-2xl mx-auto">
-          Prepare for RRB NTPC with our AI-powered mock tests. Practice subject-wise, take full mocks, or create your own challenge.
+          {t('dashboard.intro')}
         </p>
       </div>
 
+      {sessionNotice && (
+        <div className="mb-6 bg-amber-50 border-l-4 border-amber-400 p-4 rounded flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-amber-600 shrink-0 mt-0.5" />
+          <div className="flex-1">
+            <p className="font-bold text-amber-800 text-sm">{t('dashboard.resumeFailed')}</p>
+            <p className="text-amber-700 text-sm">{sessionNotice} {t('dashboard.startNewPrompt')}</p>
+          </div>
+          <button onClick={onDismissNotice} className="text-amber-600 hover:text-amber-800">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {savedSession && (
+        <div className="mb-10 bg-white rounded-xl shadow-sm border-l-4 border-green-500 p-6 flex flex-col md:flex-row md:items-center gap-4">
+          <div className="p-3 bg-green-100 rounded-lg text-green-600 self-start">
+            <PlayCircle className="w-6 h-6" />
+          </div>
+          <div className="flex-1">
+            <h3 className="text-xl font-bold text-slate-800">{t('dashboard.resumeTitle')}</h3>
+            <p className="text-slate-500 text-sm">
+              {t('dashboard.resumeSummary', { mode: savedSession.config.mode, count: savedSession.config.totalQuestions })}
+              {savedSession.config.selectedTopic ? ` • ${savedSession.config.selectedTopic}` : ''}
+            </p>
+            <p className="text-slate-500 text-sm mt-1">
+              <LocalizedText language={language} k="dashboard.resumeProgress" vars={{
+                answered: <span className="text-slate-700">
+                  {Object.values(savedSession.responses).filter((r: UserResponse) => r.selectedOption !== null).length}
+                </span>,
+                question: savedSession.currentQuestionIndex + 1,
+                minutes: Math.floor(savedSession.timeLeft / 60),
+                seconds: savedSession.timeLeft % 60
+              }} />
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button 
+              onClick={onDiscardSession}
+              className="flex items-center px-4 py-2 border border-slate-300 rounded-lg text-slate-600 font-bold text-sm hover:bg-slate-50 transition"
+            >
+              <Trash2 className="w-4 h-4 mr-1.5" /> {t('dashboard.discard')}
+            </button>
+            <button 
+              onClick={onResumeSession}
+              className="flex items-center px-6 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-bold text-sm shadow transition"
+            >
+              <PlayCircle className="w-4 h-4 mr-1.5" /> {t('dashboard.resume')}
+            </button>
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-12">
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex items-center space-x-4">
           <div className="p-3 bg-blue-100 rounded-lg text-blue-600">
              <BarChart2 className="w-6 h-6" />
           </div>
           <div>
-            <p className="text-sm text-slate-500">Overall Accuracy</p>
-            <p className="text-xl font-bold text-slate-800">76%</p>
+            <p className="text-sm text-slate-500">{t('dashboard.overallAccuracy')}</p>
+            <p className="text-xl font-bold text-slate-800">{stats.testsAttempted > 0 ? `${stats.overallAccuracy}%` : '—'}</p>
           </div>
         </div>
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex items-center space-x-4">
@@ -87,23 +221,31 @@ export const Dashboard: React.FC<DashboardProps> = ({ onStartTest }) => {
              <Zap className="w-6 h-6" />
           </div>
           <div>
-            <p className="text-sm text-slate-500">Tests Attempted</p>
-            <p className="text-xl font-bold text-slate-800">12</p>
+            <p className="text-sm text-slate-500">{t('dashboard.testsAttempted')}</p>
+            <p className="text-xl font-bold text-slate-800">{stats.testsAttempted}</p>
           </div>
         </div>
-        {/* Placeholder stats */}
         <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex items-center space-x-4">
           <div className="p-3 bg-purple-100 rounded-lg text-purple-600">
              <Book className="w-6 h-6" />
           </div>
           <div>
-            <p className="text-sm text-slate-500">Questions Solved</p>
-            <p className="text-xl font-bold text-slate-800">450+</p>
+            <p className="text-sm text-slate-500">{t('dashboard.questionsSolved')}</p>
+            <p className="text-xl font-bold text-slate-800">{stats.questionsSolved}</p>
+          </div>
+        </div>
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex items-center space-x-4">
+          <div className="p-3 bg-orange-100 rounded-lg text-orange-600">
+             <Clock className="w-6 h-6" />
+          </div>
+          <div>
+            <p className="text-sm text-slate-500">{t('dashboard.averageScore')}</p>
+            <p className="text-xl font-bold text-slate-800">{stats.testsAttempted > 0 ? `${stats.averageScorePercent}%` : '—'}</p>
           </div>
         </div>
       </div>
 
-      <h2 className="text-2xl font-bold text-slate-800 mb-6">Start a New Test</h2>
+      <h2 className="text-2xl font-bold text-slate-800 mb-6">{t('dashboard.startNew')}</h2>
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
         {testCards.map((card, idx) => (
           <button
@@ -117,14 +259,48 @@ export const Dashboard: React.FC<DashboardProps> = ({ onStartTest }) => {
             <div className="flex items-center mb-4 w-full">
               {card.icon}
               <span className="ml-auto text-xs font-semibold bg-slate-100 text-slate-600 px-2 py-1 rounded">
-                RECOMMENDED
+                {card.badge}
               </span>
             </div>
             <h3 className="text-xl font-bold text-slate-800 text-left mb-1">{card.title}</h3>
-            <p className="text-slate-500 text-sm">{card.desc}</p>
+            <p className="text-slate-500 text-sm text-left">{card.desc}</p>
+            {card.detail && <p className="text-slate-400 text-xs font-medium text-left mt-1">{card.detail}</p>}
           </button>
         ))}
 
+        {/* Revision Card */}
+        <button
+          onClick={onStartRevision}
+          disabled={dueReviewCount === 0}
+          className="flex flex-col p-6 rounded-xl bg-white border-l-4 border-rose-500 shadow-sm transition-all transform enabled:hover:-translate-y-1 enabled:hover:shadow-md enabled:hover:bg-rose-50 disabled:opacity-60"
+        >
+          <div className="flex items-center mb-4 w-full">
+            <RotateCcw className="w-6 h-6 text-rose-500" />
+            <span className="ml-auto text-xs font-semibold bg-slate-100 text-slate-600 px-2 py-1 rounded">
+              {t('dashboard.revisionBadge', { count: dueReviewCount })}
+            </span>
+          </div>
+          <h3 className="text-xl font-bold text-slate-800 text-left mb-1">{t('dashboard.revisionTitle')}</h3>
+          <p className="text-slate-500 text-sm text-left">
+            {dueReviewCount > 0 ? t('dashboard.revisionDesc') : t('dashboard.revisionEmpty')}
+          </p>
+        </button>
+
+        {/* Flashcards Card */}
+        <button
+          onClick={onOpenFlashcards}
+          className="flex flex-col p-6 rounded-xl bg-white border-l-4 border-yellow-500 shadow-sm transition-all transform hover:-translate-y-1 hover:shadow-md hover:bg-yellow-50"
+        >
+          <div className="flex items-center mb-4 w-full">
+            <Layers className="w-6 h-6 text-yellow-500" />
+            <span className="ml-auto text-xs font-semibold bg-slate-100 text-slate-600 px-2 py-1 rounded">
+              {t('dashboard.flashcardsBadge')}
+            </span>
+          </div>
+          <h3 className="text-xl font-bold text-slate-800 text-left mb-1">{t('dashboard.flashcardsTitle')}</h3>
+          <p className="text-slate-500 text-sm text-left">{t('dashboard.flashcardsDesc')}</p>
+        </button>
+
         {/* Custom Test Card */}
         <button
           onClick={() => setShowCustomModal(true)}
@@ -133,14 +309,135 @@ export const Dashboard: React.FC<DashboardProps> = ({ onStartTest }) => {
           <div className="flex items-center mb-4 w-full">
             <Settings className="w-6 h-6 text-slate-500 group-hover:text-slate-700" />
             <span className="ml-auto text-xs font-semibold bg-slate-100 text-slate-600 px-2 py-1 rounded">
-              CUSTOM
+              {t('dashboard.customBadge')}
             </span>
           </div>
-          <h3 className="text-xl font-bold text-slate-800 text-left mb-1">Custom Test Generator</h3>
-          <p className="text-slate-500 text-sm">Select subject, topic & count</p>
+          <h3 className="text-xl font-bold text-slate-800 text-left mb-1">{t('dashboard.customTitle')}</h3>
+          <p className="text-slate-500 text-sm">{t('dashboard.customDesc')}</p>
         </button>
       </div>
 
+      <div className="mb-12">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-4">
+          <h2 className="text-2xl font-bold text-slate-800 flex items-center">
+            <Database className="w-6 h-6 mr-2 text-slate-500" /> {t('dashboard.bankTitle')}
+          </h2>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="flex items-center gap-2 text-sm font-bold text-slate-700">
+              {t('dashboard.avoidRepeats')}
+              <select
+                value={repeatWindow}
+                onChange={(e) => onRepeatWindowChange?.(Number(e.target.value))}
+                className="p-1.5 border border-slate-300 rounded-lg bg-white"
+              >
+                {REPEAT_WINDOW_OPTIONS.map(n => (
+                  <option key={n} value={n}>{n === 0 ? t('dashboard.repeatThisTest') : t('dashboard.repeatLastTests', { count: n })}</option>
+                ))}
+              </select>
+            </label>
+            <label className={`flex items-center gap-2 text-sm font-bold ${canUseAI ? 'text-slate-700 cursor-pointer' : 'text-slate-400'}`}>
+              <input
+                type="checkbox"
+                checked={offlineMode}
+                disabled={!canUseAI}
+                onChange={(e) => onToggleOffline?.(e.target.checked)}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+              <WifiOff className="w-4 h-4" /> {t('dashboard.offlineMode')}
+            </label>
+            {canUseAI && (
+              <button
+                onClick={onOpenUsage}
+                className="flex items-center gap-1.5 px-3 py-1.5 border border-slate-300 rounded-lg text-sm font-bold text-slate-700 hover:bg-slate-50 transition"
+              >
+                <Coins className="w-4 h-4" /> {t('dashboard.aiUsage')}
+              </button>
+            )}
+          </div>
+        </div>
+        <p className="text-sm text-slate-500 mb-4">
+          {canUseAI
+            ? offlineMode ? t('dashboard.bankOffline') : t('dashboard.bankOnline')
+            : t('dashboard.bankNoKey')}
+        </p>
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 divide-y divide-slate-100">
+          {(Object.keys(SUBJECT_TOPICS) as Subject[]).map(subject => {
+            const topics = bankCounts?.[subject] || {};
+            const total = (Object.values(topics) as number[]).reduce((acc, n) => acc + n, 0);
+            const expanded = expandedBankSubject === subject;
+            return (
+              <div key={subject}>
+                <button
+                  onClick={() => setExpandedBankSubject(expanded ? null : subject)}
+                  className="w-full p-4 flex items-center gap-4 text-left hover:bg-slate-50 transition"
+                >
+                  <p className="flex-1 font-bold text-slate-800">{subjectLabel(language, subject)}</p>
+                  <p className="text-sm font-bold text-slate-600">{bankCounts ? t('dashboard.bankCount', { count: total }) : t('dashboard.loading')}</p>
+                  <ChevronRight className={`w-5 h-5 text-slate-400 transition-transform ${expanded ? 'rotate-90' : ''}`} />
+                </button>
+                {expanded && (
+                  <div className="px-4 pb-4 grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-2">
+                    {SUBJECT_TOPICS[subject].map(topic => (
+                      <div key={topic} className="flex justify-between bg-slate-50 rounded px-3 py-2 text-xs">
+                        <span className="text-slate-600 truncate mr-2">{topic}</span>
+                        <span className="font-bold text-slate-800">{topics[topic] || 0}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {history.length > 0 && (
+        <div className="mb-8">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-2xl font-bold text-slate-800 flex items-center">
+              <History className="w-6 h-6 mr-2 text-slate-500" /> {t('dashboard.historyTitle')}
+            </h2>
+            <div className="flex items-center gap-4">
+              {history.length > 5 && (
+                <button 
+                  onClick={() => setShowAllHistory(!showAllHistory)}
+                  className="text-sm font-bold text-blue-600 hover:text-blue-700"
+                >
+                  {showAllHistory ? t('dashboard.showRecent') : t('dashboard.viewAll', { count: history.length })}
+                </button>
+              )}
+              <button 
+                onClick={onOpenProgress}
+                className="flex items-center px-4 py-2 bg-slate-800 text-white rounded-lg text-sm font-bold hover:bg-slate-700 transition"
+              >
+                <TrendingUp className="w-4 h-4 mr-1.5" /> {t('dashboard.viewProgress')}
+              </button>
+            </div>
+          </div>
+          <div className="bg-white rounded-xl shadow-sm border border-slate-200 divide-y divide-slate-100">
+            {visibleHistory.map(attempt => (
+              <button
+                key={attempt.id}
+                onClick={() => onOpenAttempt?.(attempt)}
+                className="w-full p-4 flex items-center gap-4 text-left hover:bg-slate-50 transition"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="font-bold text-slate-800 truncate">{describeTestConfig(attempt)}</p>
+                  <p className="text-xs text-slate-500">
+                    {new Date(attempt.result.date).toLocaleString()} • {t('dashboard.historyAttempted', { attempted: attempt.result.attempted, total: attempt.result.totalQuestions })}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="font-bold text-slate-800">{attempt.result.score.toFixed(2)}</p>
+                  <p className="text-xs text-green-600 font-bold">{t('dashboard.historyAccuracy', { accuracy: attempt.result.accuracy })}</p>
+                </div>
+                <ChevronRight className="w-5 h-5 text-slate-400" />
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {showCustomModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white rounded-xl shadow-2xl p-8 max-w-lg w-full animate-fade-in relative">
@@ -150,11 +447,11 @@ export const Dashboard: React.FC<DashboardProps> = ({ onStartTest }) => {
             >
               ✕
             </button>
-            <h2 className="text-2xl font-bold mb-6 text-slate-800">Configure Custom Test</h2>
+            <h2 className="text-2xl font-bold mb-6 text-slate-800">{t('dashboard.customModalTitle')}</h2>
             
             <div className="space-y-4">
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Subject</label>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('dashboard.subject')}</label>
                 <select 
                   className="w-full bg-white text-[#333333] border border-[#DDDDDD] rounded p-2 focus:ring-1 focus:ring-[#4285F4] outline-none"
                   value={customSubject}
@@ -164,27 +461,62 @@ export const Dashboard: React.FC<DashboardProps> = ({ onStartTest }) => {
                   }}
                 >
                   {Object.keys(SUBJECT_TOPICS).map(s => (
-                    <option key={s} value={s}>{s}</option>
+                    <option key={s} value={s}>{subjectLabel(language, s as Subject)}</option>
                   ))}
                 </select>
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Topic (Optional)</label>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('dashboard.topicOptional')}</label>
                 <select 
                   className="w-full bg-white text-[#333333] border border-[#DDDDDD] rounded p-2 focus:ring-1 focus:ring-[#4285F4] outline-none"
                   value={customTopic}
                   onChange={(e) => setCustomTopic(e.target.value)}
                 >
-                  <option value="">Mixed Topics</option>
+                  <option value="">{t('dashboard.mixedTopics')}</option>
                   {SUBJECT_TOPICS[customSubject].map(t => (
                     <option key={t} value={t}>{t}</option>
                   ))}
                 </select>
               </div>
 
+              <label className="flex items-start space-x-3 cursor-pointer select-none bg-blue-50 border border-blue-100 rounded-lg p-3">
+                <input
+                  type="checkbox"
+                  checked={customPractice}
+                  onChange={(e) => setCustomPractice(e.target.checked)}
+                  className="w-4 h-4 mt-0.5 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span>
+                  <span className="block text-sm font-bold text-slate-800">{t('dashboard.practiceMode')}</span>
+                  <span className="block text-xs text-slate-500">{t('dashboard.practiceModeHint')}</span>
+                </span>
+              </label>
+
+              {customPractice && (
+                <div>
+                  <label className="block text-sm font-medium text-slate-700 mb-1">{t('dashboard.targetAccuracy')}</label>
+                  <div className="grid grid-cols-4 gap-2">
+                    {TARGET_ACCURACY_OPTIONS.map(target => (
+                      <button
+                        key={target}
+                        onClick={() => setCustomTargetAccuracy(target)}
+                        className={`py-2 rounded border text-sm font-bold transition ${customTargetAccuracy === target ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-600 border-[#DDDDDD] hover:border-blue-300'}`}
+                      >
+                        {target}%
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500 mt-1">
+                    {t(customTopic ? 'dashboard.targetAccuracyHint' : 'dashboard.targetAccuracyMixedHint')}
+                  </p>
+                </div>
+              )}
+
+              {!customPractice && (
+              <>
               <div>
-                <label className="block text-sm font-medium text-slate-700 mb-1">Questions</label>
+                <label className="block text-sm font-medium text-slate-700 mb-1">{t('common.questions')}</label>
                 <input 
                   type="range" 
                   min="5" 
@@ -201,21 +533,43 @@ export const Dashboard: React.FC<DashboardProps> = ({ onStartTest }) => {
                 </div>
               </div>
 
+              <label className="flex items-center space-x-3 cursor-pointer select-none">
+                <input 
+                  type="checkbox" 
+                  checked={customNegativeMarking} 
+                  onChange={(e) => setCustomNegativeMarking(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-slate-700">{t('dashboard.negativeMarking')}</span>
+              </label>
+              </>
+              )}
+
               <div className="pt-4">
                 <button 
                   onClick={() => {
-                    onStartTest({
+                    // Practice runs untimed and open-ended, without negative marking
+                    onStartTest(customPractice ? {
+                      mode: 'Practice',
+                      totalQuestions: PRACTICE_MAX_QUESTIONS,
+                      durationMinutes: 0,
+                      selectedSubjects: [customSubject],
+                      selectedTopic: customTopic || undefined,
+                      markingScheme: MARKING_SCHEMES.PRACTICE,
+                      targetAccuracy: customTargetAccuracy
+                    } : {
                       mode: 'Custom',
                       totalQuestions: customCount,
                       durationMinutes: Math.ceil(customCount * 0.9), // ~54 sec per question
                       selectedSubjects: [customSubject],
-                      selectedTopic: customTopic || undefined
+                      selectedTopic: customTopic || undefined,
+                      markingScheme: customNegativeMarking ? MARKING_SCHEMES.NTPC_CBT1 : MARKING_SCHEMES.PRACTICE
                     });
                     setShowCustomModal(false);
                   }}
                   className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3 rounded shadow transition"
                 >
-                  Start Custom Test
+                  {t(customPractice ? 'dashboard.startPractice' : 'dashboard.startCustom')}
                 </button>
               </div>
             </div>
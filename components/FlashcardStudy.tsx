@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react';
+import { SavedFlashcard, FlashcardRating, SUBJECT_TOPICS } from '../types';
+import { getFlashcards, addFlashcards, updateFlashcard, deleteFlashcard } from '../utils/db';
+import { createSavedFlashcard, rateFlashcard, buildStudyQueue, computeTopicProgress } from '../utils/flashcards';
+import { RichText } from './RichContent';
+import { ArrowRight, Layers, Plus, RotateCcw, Check, Trash2, X, Loader } from 'lucide-react';
+
+interface FlashcardStudyProps {
+  onBackToDashboard: () => void;
+}
+
+const ALL_TOPICS = Object.values(SUBJECT_TOPICS).flat();
+
+export const FlashcardStudy: React.FC<FlashcardStudyProps> = ({ onBackToDashboard }) => {
+  const [cards, setCards] = useState<SavedFlashcard[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [queue, setQueue] = useState<SavedFlashcard[] | null>(null);
+  const [studyTopic, setStudyTopic] = useState<string | null>(null);
+  const [flipped, setFlipped] = useState(false);
+  const [reviewed, setReviewed] = useState(0);
+
+  const [showForm, setShowForm] = useState(false);
+  const [formTopic, setFormTopic] = useState(ALL_TOPICS[0]);
+  const [formContent, setFormContent] = useState('');
+  const [formKeyPoint, setFormKeyPoint] = useState('');
+  const [formNotice, setFormNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    getFlashcards()
+      .then(setCards)
+      .catch(e => console.warn("Flashcard load failed", e))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const progress = computeTopicProgress(cards);
+  const current = queue?.[0];
+
+  const startStudy = (topic: string | null) => {
+    setStudyTopic(topic);
+    setQueue(buildStudyQueue(topic ? cards.filter(c => c.topic === topic) : cards));
+    setFlipped(false);
+    setReviewed(0);
+  };
+
+  const handleRate = (rating: FlashcardRating) => {
+    if (!current) return;
+    const rated = rateFlashcard(current, rating);
+    setCards(prev => prev.map(c => c.id === rated.id ? rated : c));
+    updateFlashcard(rated).catch(e => console.warn("Failed to save rating", e));
+
+    // "Again" cards come back at the end of this session
+    setQueue(prev => {
+      const rest = (prev || []).slice(1);
+      return rating === 'again' ? [...rest, rated] : rest;
+    });
+    setFlipped(false);
+    setReviewed(n => n + 1);
+  };
+
+  const handleDelete = (card: SavedFlashcard) => {
+    if (!window.confirm("Delete this card?")) return;
+    setCards(prev => prev.filter(c => c.id !== card.id));
+    setQueue(prev => (prev || []).filter(c => c.id !== card.id));
+    setFlipped(false);
+    deleteFlashcard(card.id).catch(e => console.warn("Failed to delete card", e));
+  };
+
+  const handleCreate = async () => {
+    if (!formContent.trim() || !formKeyPoint.trim()) return;
+    const card = createSavedFlashcard({ topic: formTopic, content: formContent.trim(), keyPoint: formKeyPoint.trim() }, 'user');
+    try {
+      const added = await addFlashcards([card]);
+      if (added.length === 0) {
+        setFormNotice("An identical card is already in this topic's deck.");
+        return;
+      }
+      setCards(prev => [...prev, ...added]);
+      setFormContent('');
+      setFormKeyPoint('');
+      setFormNotice(null);
+      setShowForm(false);
+    } catch (e) {
+      console.warn("Failed to save card", e);
+      setFormNotice("Could not save the card. Please try again.");
+    }
+  };
+
+  return (
+    <div className="bg-gray-100 min-h-screen pb-24">
+      <div className="bg-slate-800 text-white py-12 px-4">
+         <div className="container mx-auto">
+            <h2 className="text-3xl font-bold mb-2">Flashcards</h2>
+            <p className="text-slate-300">{cards.length} saved cards across {progress.length} topics.</p>
+         </div>
+      </div>
+
+      <div className="container mx-auto px-4 -mt-8">
+        {loading ? (
+          <div className="bg-white p-12 rounded-lg shadow-md flex justify-center">
+            <Loader className="w-8 h-8 text-blue-500 animate-spin" />
+          </div>
+        ) : queue ? (
+          /* Study Session */
+          <div className="max-w-2xl mx-auto">
+            <div className="flex items-center justify-between mb-4 text-sm font-bold text-slate-500">
+              <span>{studyTopic || 'All topics'} • {reviewed} reviewed • {queue.length} left</span>
+              <button onClick={() => setQueue(null)} className="text-blue-600 hover:text-blue-700">End session</button>
+            </div>
+
+            {current ? (
+              <div className="bg-white rounded-xl shadow-md p-8 min-h-[20rem] flex flex-col">
+                <div className="flex items-center mb-4">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-wide">{current.topic}</span>
+                  <button onClick={() => handleDelete(current)} className="ml-auto text-slate-400 hover:text-red-500" title="Delete card">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <p className="text-lg text-slate-800 font-medium mb-6"><RichText text={current.content} /></p>
+
+                {flipped ? (
+                  <>
+                    <div className="bg-yellow-50 text-yellow-800 p-4 rounded border border-yellow-100 mb-6">
+                        💡 <RichText text={current.keyPoint} />
+                    </div>
+                    <div className="mt-auto grid grid-cols-2 gap-4">
+                      <button
+                        onClick={() => handleRate('again')}
+                        className="flex items-center justify-center py-3 rounded-lg border-2 border-red-200 text-red-600 font-bold hover:bg-red-50 transition"
+                      >
+                        <RotateCcw className="w-4 h-4 mr-2" /> Again
+                      </button>
+                      <button
+                        onClick={() => handleRate('got-it')}
+                        className="flex items-center justify-center py-3 rounded-lg bg-green-600 text-white font-bold hover:bg-green-700 transition"
+                      >
+                        <Check className="w-4 h-4 mr-2" /> Got it
+                      </button>
+                    </div>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => setFlipped(true)}
+                    className="mt-auto py-3 rounded-lg bg-slate-800 text-white font-bold hover:bg-slate-700 transition"
+                  >
+                    Show Answer
+                  </button>
+                )}
+              </div>
+            ) : (
+              <div className="bg-white p-12 rounded-lg shadow-md text-center">
+                <h3 className="text-xl font-bold text-slate-800 mb-2">Session complete</h3>
+                <p className="text-slate-500 mb-6">You reviewed {reviewed} cards.</p>
+                <button onClick={() => setQueue(null)} className="px-6 py-2 bg-blue-600 text-white rounded-lg font-bold hover:bg-blue-700 transition">
+                  Back to Topics
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
+          /* Topic Overview */
+          <>
+            <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-lg font-bold text-slate-700 flex items-center">
+                  <Layers className="w-5 h-5 mr-2 text-blue-500" /> Decks by Topic
+                </h3>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setShowForm(true)}
+                    className="flex items-center px-4 py-2 border border-slate-300 rounded-lg text-slate-600 font-bold text-sm hover:bg-slate-50 transition"
+                  >
+                    <Plus className="w-4 h-4 mr-1.5" /> New Card
+                  </button>
+                  {cards.length > 0 && (
+                    <button
+                      onClick={() => startStudy(null)}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg font-bold text-sm hover:bg-blue-700 transition"
+                    >
+                      Study All
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {progress.length === 0 ? (
+                <p className="text-center text-slate-500 py-8">
+                  No cards yet. Cards are saved from your test results, or you can write your own.
+                </p>
+              ) : (
+                <div className="divide-y divide-slate-100">
+                  {progress.map(p => (
+                    <button
+                      key={p.topic}
+                      onClick={() => startStudy(p.topic)}
+                      className="w-full py-3 flex items-center gap-4 text-left hover:bg-slate-50 transition"
+                    >
+                      <span className="w-48 font-bold text-slate-800 truncate">{p.topic}</span>
+                      <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-green-500" style={{ width: `${(p.mastered / p.total) * 100}%` }} />
+                      </div>
+                      <span className="text-xs font-bold text-slate-500 w-32 text-right">
+                        {p.mastered}/{p.total} mastered
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-xl font-bold text-slate-800">New Flashcard</h3>
+              <button onClick={() => setShowForm(false)} className="text-slate-400 hover:text-slate-600">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Topic</label>
+                <select
+                  value={formTopic}
+                  onChange={(e) => setFormTopic(e.target.value)}
+                  className="w-full p-2 border border-slate-300 rounded-lg bg-white"
+                >
+                  {ALL_TOPICS.map(t => <option key={t} value={t}>{t}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Front</label>
+                <textarea
+                  value={formContent}
+                  onChange={(e) => setFormContent(e.target.value)}
+                  rows={3}
+                  className="w-full p-2 border border-slate-300 rounded-lg"
+                  placeholder="e.g. Successive discount of a% and b%"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-slate-700 mb-1">Back (key point)</label>
+                <textarea
+                  value={formKeyPoint}
+                  onChange={(e) => setFormKeyPoint(e.target.value)}
+                  rows={2}
+                  className="w-full p-2 border border-slate-300 rounded-lg"
+                  placeholder="e.g. Net discount = a + b - ab/100"
+                />
+              </div>
+              {formNotice && <p className="text-sm text-amber-700">{formNotice}</p>}
+              <button
+                onClick={handleCreate}
+                disabled={!formContent.trim() || !formKeyPoint.trim()}
+                className="w-full py-3 bg-blue-600 text-white rounded-lg font-bold hover:bg-blue-700 transition disabled:opacity-50"
+              >
+                Save Card
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="fixed bottom-0 left-0 right-0 p-4 bg-white/90 backdrop-blur-sm border-t border-slate-200 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.1)] z-40 flex justify-center">
+        <button
+            onClick={onBackToDashboard}
+            className="px-8 py-3 bg-slate-800 text-white rounded-full font-bold shadow-lg hover:bg-slate-700 hover:shadow-xl hover:-translate-y-0.5 transition-all flex items-center transform"
+        >
+            <ArrowRight className="w-5 h-5 mr-2" /> Back to Dashboard
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,27 @@
 import React, { useState } from 'react';
 import { Clock, AlertCircle, BookOpen, CheckSquare } from 'lucide-react';
+import { MarkingScheme, MarkingRule, Subject, ExamSection, Language } from '../types';
+import { formatMarks } from '../utils/scoring';
+import { getTranslator, subjectLabel } from '../utils/i18n';
+import { LocalizedText } from './LocalizedText';
 
 interface InstructionsProps {
   onStart: () => void;
   onCancel: () => void;
   durationMinutes: number;
   totalQuestions: number;
+  markingScheme: MarkingScheme;
+  examName?: string;
+  sections?: ExamSection[];
+  language: Language;
+  strictMode: boolean;
+  onStrictModeChange?: (enabled: boolean) => void; // omitted where the mode is fixed
 }
 
-export const Instructions: React.FC<InstructionsProps> = ({ onStart, onCancel, durationMinutes, totalQuestions }) => {
+export const Instructions: React.FC<InstructionsProps> = ({ onStart, onCancel, durationMinutes, totalQuestions, markingScheme, examName, sections, language, strictMode, onStrictModeChange }) => {
+  const t = getTranslator(language);
+  const overrides = Object.entries(markingScheme.sectionOverrides || {}) as [Subject, MarkingRule][];
+
   const [agreed, setAgreed] = useState(false);
 
   return (
@@ -17,9 +30,9 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart, onCancel, d
         <div className="bg-slate-800 p-6 text-white">
           <h2 className="text-2xl font-bold flex items-center">
             <BookOpen className="mr-3 text-yellow-400" />
-            General Instructions
+            {t('instructions.title')}
           </h2>
-          <p className="text-slate-300 mt-1">RRB NTPC Graduate Level Mock Test</p>
+          <p className="text-slate-300 mt-1">{examName ? t('instructions.examMock', { exam: examName }) : t('instructions.defaultExam')}</p>
         </div>
 
         <div className="p-8 space-y-6">
@@ -27,34 +40,91 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart, onCancel, d
             <div className="bg-blue-50 p-4 rounded-lg border border-blue-100 flex items-center">
               <Clock className="w-8 h-8 text-blue-600 mr-3" />
               <div>
-                <p className="text-xs text-blue-600 font-bold uppercase">Duration</p>
-                <p className="text-xl font-bold text-slate-800">{durationMinutes} Minutes</p>
+                <p className="text-xs text-blue-600 font-bold uppercase">{t('instructions.duration')}</p>
+                <p className="text-xl font-bold text-slate-800">{t('common.minutes', { minutes: durationMinutes })}</p>
               </div>
             </div>
             <div className="bg-purple-50 p-4 rounded-lg border border-purple-100 flex items-center">
               <AlertCircle className="w-8 h-8 text-purple-600 mr-3" />
               <div>
-                <p className="text-xs text-purple-600 font-bold uppercase">Questions</p>
-                <p className="text-xl font-bold text-slate-800">{totalQuestions} MCQs</p>
+                <p className="text-xs text-purple-600 font-bold uppercase">{t('common.questions')}</p>
+                <p className="text-xl font-bold text-slate-800">{t('instructions.mcqs', { count: totalQuestions })}</p>
               </div>
             </div>
           </div>
 
+          {sections && sections.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="font-bold text-slate-800 text-lg border-b pb-2">{t('instructions.sections')}</h3>
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-slate-100">
+                  {sections.map((section, idx) => (
+                    <tr key={section.subject}>
+                      <td className="py-2 text-slate-400 font-bold w-8">{idx + 1}.</td>
+                      <td className="py-2 text-slate-700 font-medium">{subjectLabel(language, section.subject)}</td>
+                      <td className="py-2 text-right text-slate-800 font-bold">{t('instructions.sectionCount', { count: section.questionCount })}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
           <div className="space-y-3">
-            <h3 className="font-bold text-slate-800 text-lg border-b pb-2">Exam Rules</h3>
+            <h3 className="font-bold text-slate-800 text-lg border-b pb-2">{t('instructions.rules')}</h3>
             <ul className="list-disc pl-5 space-y-2 text-slate-600">
-              <li>The clock will be set at the server. The countdown timer at the top right corner of the screen will display the remaining time available for you to complete the examination.</li>
-              <li>Each question carries <strong>1 mark</strong>.</li>
-              <li>There is negative marking of <strong>1/3 mark</strong> for every wrong answer.</li>
-              <li>You can click on <strong>"Mark for Review"</strong> to revisit a question later.</li>
-              <li>Questions marked for review will NOT be considered for evaluation unless answered.</li>
-              <li>You can pause the test, but it is recommended to take it in one sitting for a realistic experience.</li>
+              <li>{t('instructions.ruleClock')}</li>
+              <li><LocalizedText language={language} k="instructions.ruleScheme" vars={{ scheme: markingScheme.name }} /></li>
+              <li>
+                <LocalizedText language={language} k="instructions.ruleMarks" vars={{
+                  marks: t(markingScheme.marksPerCorrect === 1 ? 'instructions.mark' : 'instructions.marks', { count: formatMarks(markingScheme.marksPerCorrect) })
+                }} />
+              </li>
+              {markingScheme.negativeMarks > 0 ? (
+                <li><LocalizedText language={language} k="instructions.ruleNegative" vars={{ marks: t('instructions.mark', { count: formatMarks(markingScheme.negativeMarks) }) }} /></li>
+              ) : (
+                <li><LocalizedText language={language} k="instructions.ruleNoNegative" vars={{ none: t('instructions.noNegative') }} /></li>
+              )}
+              {overrides.map(([subject, rule]) => (
+                <li key={subject}>
+                  {t('instructions.ruleOverride', {
+                    subject: subjectLabel(language, subject),
+                    plus: formatMarks(rule.marksPerCorrect),
+                    minus: formatMarks(rule.negativeMarks)
+                  })}
+                </li>
+              ))}
+              <li><LocalizedText language={language} k="instructions.ruleMarkForReview" vars={{ button: t('instructions.markForReview') }} /></li>
+              <li>{t('instructions.ruleReviewNotEvaluated')}</li>
+              {strictMode ? (
+                <>
+                  <li className="font-medium text-slate-800">{t('instructions.ruleStrict')}</li>
+                  <li>{t('instructions.ruleTabSwitch')}</li>
+                </>
+              ) : (
+                <li>{t('instructions.rulePause')}</li>
+              )}
             </ul>
           </div>
 
+          {onStrictModeChange && (
+            <label className="flex items-start space-x-3 cursor-pointer select-none bg-slate-50 border border-slate-200 rounded-lg p-4">
+              <input
+                type="checkbox"
+                checked={strictMode}
+                onChange={(e) => onStrictModeChange(e.target.checked)}
+                className="w-5 h-5 mt-0.5 text-blue-600 rounded focus:ring-blue-500"
+              />
+              <span>
+                <span className="block text-slate-800 font-bold">{t('instructions.strictToggle')}</span>
+                <span className="block text-xs text-slate-500">{t('instructions.strictToggleHint')}</span>
+              </span>
+            </label>
+          )}
+
           <div className="bg-amber-50 border-l-4 border-amber-400 p-4">
             <p className="text-amber-800 text-sm">
-              <strong>Note:</strong> Do not close the browser window during the test. Your progress is saved locally, but for the best experience, maintain a stable connection.
+              <strong>{t('instructions.noteLabel')}</strong> {t('instructions.note')}
             </p>
           </div>
 
@@ -66,7 +136,7 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart, onCancel, d
                 onChange={(e) => setAgreed(e.target.checked)}
                 className="w-5 h-5 text-blue-600 rounded focus:ring-blue-500"
               />
-              <span className="text-slate-700 font-medium">I have read and understood the instructions.</span>
+              <span className="text-slate-700 font-medium">{t('instructions.agree')}</span>
             </label>
 
             <div className="flex gap-4 mt-2">
@@ -74,7 +144,7 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart, onCancel, d
                 onClick={onCancel}
                 className="flex-1 py-3 border border-slate-300 rounded-lg text-slate-600 font-bold hover:bg-slate-50 transition"
               >
-                Cancel
+                {t('instructions.cancel')}
               </button>
               <button 
                 onClick={onStart}
@@ -83,7 +153,7 @@ export const Instructions: React.FC<InstructionsProps> = ({ onStart, onCancel, d
                   ${agreed ? 'bg-blue-600 hover:bg-blue-700 shadow-lg' : 'bg-slate-300 cursor-not-allowed'}
                 `}
               >
-                Start Test <CheckSquare className="ml-2 w-5 h-5" />
+                {t('instructions.start')} <CheckSquare className="ml-2 w-5 h-5" />
               </button>
             </div>
           </div>
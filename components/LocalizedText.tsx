@@ -0,0 +1,20 @@
+import React from 'react';
+import { Language } from '../types';
+import { StringKey, getTemplate, splitTemplate } from '../utils/i18n';
+
+interface LocalizedTextProps {
+  language: Language;
+  k: StringKey;
+  vars: Record<string, React.ReactNode>;
+}
+
+// Renders a UI string with its placeholder values in bold, wherever the language puts them
+export const LocalizedText: React.FC<LocalizedTextProps> = ({ language, k, vars }) => (
+  <>
+    {splitTemplate(getTemplate(language, k)).map((part, idx) =>
+      part.placeholder
+        ? <strong key={idx}>{vars[part.text]}</strong>
+        : <React.Fragment key={idx}>{part.text}</React.Fragment>
+    )}
+  </>
+);
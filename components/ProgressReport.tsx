@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { TestAttempt, Subject, SUBJECT_TOPICS } from '../types';
+import { computeSubjectTrends, computeTopicMastery, computeDifficultyTiming, computeImprovementTrend, computeHistoryStats } from '../utils/stats';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend, CartesianGrid } from 'recharts';
+import { ArrowRight, TrendingUp, TrendingDown, Minus, Clock, Grid, LineChart as LineChartIcon } from 'lucide-react';
+
+interface ProgressReportProps {
+  history: TestAttempt[];
+  onBackToDashboard: () => void;
+}
+
+const SUBJECT_COLORS: Record<Subject, string> = {
+  'Mathematics': '#22c55e',
+  'General Intelligence & Reasoning': '#8b5cf6',
+  'General Awareness': '#f97316'
+};
+
+const masteryColor = (mastery: number | null) => {
+  if (mastery === null) return 'bg-slate-100 text-slate-400';
+  if (mastery >= 80) return 'bg-green-500 text-white';
+  if (mastery >= 60) return 'bg-green-300 text-green-900';
+  if (mastery >= 40) return 'bg-yellow-300 text-yellow-900';
+  if (mastery >= 20) return 'bg-orange-400 text-white';
+  return 'bg-red-500 text-white';
+};
+
+export const ProgressReport: React.FC<ProgressReportProps> = ({ history, onBackToDashboard }) => {
+  const [trendMetric, setTrendMetric] = useState<'score' | 'accuracy'>('score');
+
+  const stats = computeHistoryStats(history);
+  const trend = computeImprovementTrend(history);
+  const trendPoints = computeSubjectTrends(history);
+  const mastery = computeTopicMastery(history);
+  const timing = computeDifficultyTiming(history);
+
+  const subjects = Object.keys(SUBJECT_TOPICS) as Subject[];
+  const lineData = trendPoints.map(p => ({ label: p.label, ...p[trendMetric] }));
+
+  return (
+    <div className="bg-gray-100 min-h-screen pb-24">
+      <div className="bg-slate-800 text-white py-12 px-4">
+         <div className="container mx-auto">
+            <h2 className="text-3xl font-bold mb-2">Your Progress</h2>
+            <p className="text-slate-300">Trends across {stats.testsAttempted} completed tests.</p>
+         </div>
+      </div>
+
+      <div className="container mx-auto px-4 -mt-8">
+        {history.length === 0 ? (
+          <div className="bg-white p-12 rounded-lg shadow-md text-center text-slate-500">
+            Complete a test to start tracking your progress.
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+              <div className="bg-white p-6 rounded-lg shadow-md border-t-4 border-blue-500">
+                <p className="text-sm text-slate-500 font-medium uppercase">Average Score</p>
+                <h3 className="text-3xl font-bold text-slate-800">{stats.averageScorePercent}%</h3>
+              </div>
+              <div className="bg-white p-6 rounded-lg shadow-md border-t-4 border-green-500">
+                <p className="text-sm text-slate-500 font-medium uppercase">Overall Accuracy</p>
+                <h3 className="text-3xl font-bold text-green-600">{stats.overallAccuracy}%</h3>
+              </div>
+              <div className="bg-white p-6 rounded-lg shadow-md border-t-4 border-purple-500">
+                <p className="text-sm text-slate-500 font-medium uppercase">Recent Trend</p>
+                <h3 className="text-3xl font-bold text-slate-800 flex items-center gap-2">
+                  {trend === 'Up' ? <TrendingUp className="w-7 h-7 text-green-500" /> : trend === 'Down' ? <TrendingDown className="w-7 h-7 text-red-500" /> : <Minus className="w-7 h-7 text-slate-400" />}
+                  {trend}
+                </h3>
+              </div>
+            </div>
+
+            {/* Subject Trends */}
+            <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-lg font-bold text-slate-700 flex items-center">
+                  <LineChartIcon className="w-5 h-5 mr-2 text-blue-500" /> Subject Trends
+                </h3>
+                <div className="flex bg-slate-100 rounded-lg p-1 text-sm font-bold">
+                  {(['score', 'accuracy'] as const).map(metric => (
+                    <button
+                      key={metric}
+                      onClick={() => setTrendMetric(metric)}
+                      className={`px-3 py-1 rounded-md transition ${trendMetric === metric ? 'bg-white shadow text-slate-800' : 'text-slate-500'}`}
+                    >
+                      {metric === 'score' ? 'Score %' : 'Accuracy %'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={lineData} margin={{ top: 10, right: 30, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#e2e8f0" />
+                    <XAxis dataKey="label" />
+                    <YAxis domain={trendMetric === 'accuracy' ? [0, 100] : ['auto', 100]} />
+                    <Tooltip />
+                    <Legend />
+                    {subjects.map(subject => (
+                      <Line
+                        key={subject}
+                        type="monotone"
+                        dataKey={subject}
+                        name={subject.split(' ')[0]}
+                        stroke={SUBJECT_COLORS[subject]}
+                        strokeWidth={2}
+                        connectNulls
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+
+            {/* Topic Mastery Heatmap */}
+            <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+              <h3 className="text-lg font-bold text-slate-700 mb-6 flex items-center">
+                <Grid className="w-5 h-5 mr-2 text-purple-500" /> Topic Mastery
+              </h3>
+              <div className="space-y-6">
+                {subjects.map(subject => (
+                  <div key={subject}>
+                    <h4 className="text-xs font-bold text-slate-500 uppercase mb-2">{subject}</h4>
+                    <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-7 gap-2">
+                      {mastery.filter(m => m.subject === subject).map(cell => (
+                        <div
+                          key={cell.topic}
+                          className={`p-2 rounded-lg text-xs font-bold flex flex-col justify-between h-16 ${masteryColor(cell.mastery)}`}
+                          title={`${cell.correct}/${cell.attempted} correct • ${cell.seen} seen`}
+                        >
+                          <span className="leading-tight">{cell.topic}</span>
+                          <span className="text-right">{cell.mastery === null ? '—' : `${cell.mastery}%`}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* Time by Difficulty */}
+            <div className="bg-white p-6 rounded-lg shadow-md">
+              <h3 className="text-lg font-bold text-slate-700 mb-6 flex items-center">
+                <Clock className="w-5 h-5 mr-2 text-orange-500" /> Average Time per Question
+              </h3>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={timing} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+                    <XAxis dataKey="difficulty" />
+                    <YAxis unit="s" />
+                    <Tooltip formatter={(value) => [`${value}s`, 'Avg. time']} />
+                    <Bar dataKey="avgSeconds" fill="#f97316" name="Avg. time" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="fixed bottom-0 left-0 right-0 p-4 bg-white/90 backdrop-blur-sm border-t border-slate-200 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.1)] z-40 flex justify-center">
+        <button
+            onClick={onBackToDashboard}
+            className="px-8 py-3 bg-slate-800 text-white rounded-full font-bold shadow-lg hover:bg-slate-700 hover:shadow-xl hover:-translate-y-0.5 transition-all flex items-center transform"
+        >
+            <ArrowRight className="w-5 h-5 mr-2" /> Back to Dashboard
+        </button>
+      </div>
+    </div>
+  );
+};
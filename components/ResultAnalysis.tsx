@@ -1,20 +1,37 @@
 import React, { useState, useEffect } from 'react';
-import { TestResult, Question, UserResponse, Flashcard, AIAnalysis, Subject } from '../types';
+import { TestResult, Question, UserResponse, Flashcard, AIAnalysis, Subject, MarkingScheme, Language } from '../types';
 import { generateFlashcards, analyzePerformance } from '../services/geminiService';
+import { scoreTest, DEFAULT_MARKING_SCHEME } from '../utils/scoring';
+import { describeAIError, isAIServiceError } from '../services/aiErrors';
+import { addFlashcards } from '../utils/db';
+import { createSavedFlashcard, flashcardFromQuestion } from '../utils/flashcards';
+import { getTranslator, localizeQuestion, localizeGroupStem, subjectLabel } from '../utils/i18n';
+import { RichText, ContentMedia } from './RichContent';
+import { downloadSolutions } from './SolutionsExport';
+import { AttemptReplay } from './AttemptReplay';
+import { analyzeTime, formatSeconds, QuestionTiming, TimeBucket } from '../utils/timeAnalysis';
 import { PieChart, Pie, Cell, BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { CheckCircle, XCircle, MinusCircle, Clock, Award, Target, BookOpen, Sparkles, Loader, Filter, CheckSquare, TrendingUp, TrendingDown, ArrowRight, Brain } from 'lucide-react';
+import { CheckCircle, XCircle, MinusCircle, Clock, Award, Target, BookOpen, Sparkles, Loader, Filter, CheckSquare, TrendingUp, TrendingDown, Minus, ArrowRight, Brain, Layers, Download, Hourglass, Zap } from 'lucide-react';
 
 interface ResultAnalysisProps {
   result: TestResult;
   questions: Question[];
+  markingScheme?: MarkingScheme;
+  improvementTrend?: AIAnalysis['improvementTrend'];
+  onAnalysisReady?: (analysis: AIAnalysis) => void;
+  onFlashcardsReady?: (cards: Flashcard[]) => void;
   onBackToDashboard: () => void;
+  language: Language;
 }
 
-export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, questions, onBackToDashboard }) => {
-  const [flashcards, setFlashcards] = useState<Flashcard[]>([]);
-  const [aiAnalysis, setAiAnalysis] = useState<AIAnalysis | null>(null);
+export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, questions, markingScheme = DEFAULT_MARKING_SCHEME, improvementTrend, onAnalysisReady, onFlashcardsReady, onBackToDashboard, language }) => {
+  const t = getTranslator(language);
+  const [flashcards, setFlashcards] = useState<Flashcard[]>(result.aiFlashcards || []);
+  const [aiAnalysis, setAiAnalysis] = useState<AIAnalysis | null>(result.aiAnalysis || null);
   const [loadingCards, setLoadingCards] = useState(false);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
   const [reviewFilter, setReviewFilter] = useState<'All' | 'Incorrect' | 'Skipped'>('All');
+  const [savedCardIds, setSavedCardIds] = useState<Set<string>>(new Set());
 
   useEffect(() => {
     const fetchData = async () => {
@@ -28,11 +45,28 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
         })
         .map(q => q.topic);
       
-      if (wrongAnswerTopics.length > 0) {
-        generateFlashcards(wrongAnswerTopics).then(setFlashcards);
+      // Reopened attempts already carry theirs, and their cards are in the decks already
+      if (wrongAnswerTopics.length > 0 && !result.aiFlashcards) {
+        generateFlashcards(wrongAnswerTopics)
+          .then(cards => {
+            setFlashcards(cards);
+            onFlashcardsReady?.(cards);
+            // Kept in the topic decks
+            return addFlashcards(cards.map(card => createSavedFlashcard(card, 'ai')));
+          })
+          .catch(e => {
+            // Flashcards are optional extras; a missing key or a spent budget just hides the section
+            if (!isAIServiceError(e) || (e.code !== 'NO_API_KEY' && e.code !== 'BUDGET_EXCEEDED')) console.warn("Flashcard generation failed", e);
+          });
+      }
+
+      // AI Strategy & Prediction (reopened attempts already carry theirs)
+      if (result.aiAnalysis) {
+        setAiAnalysis(result.aiAnalysis);
+        setLoadingCards(false);
+        return;
       }
 
-      // AI Strategy & Prediction
       const subjects = Array.from(new Set(questions.map(q => q.subject))) as string[];
       const subjectScores: Record<string, number> = {};
       subjects.forEach(sub => {
@@ -41,13 +75,19 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
           subjectScores[sub] = correct;
       });
 
-      const analysis = await analyzePerformance({
-          score: result.score,
-          total: result.totalQuestions,
-          accuracy: result.accuracy,
-          subjectWise: subjectScores
-      });
-      setAiAnalysis(analysis);
+      try {
+        const analysis = await analyzePerformance({
+            score: result.score,
+            total: result.totalQuestions,
+            accuracy: result.accuracy,
+            subjectWise: subjectScores,
+            improvementTrend: improvementTrend || 'Stable'
+        });
+        setAiAnalysis(analysis);
+        onAnalysisReady?.(analysis);
+      } catch (e) {
+        setAnalysisError(describeAIError(e));
+      }
 
       setLoadingCards(false);
     };
@@ -56,26 +96,67 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
   }, [questions, result]);
   
   const pieData = [
-    { name: 'Correct', value: result.correct, color: '#22c55e' },
-    { name: 'Wrong', value: result.wrong, color: '#ef4444' },
-    { name: 'Skipped', value: result.totalQuestions - result.attempted, color: '#94a3b8' },
+    { name: t('common.correct'), value: result.correct, color: '#22c55e' },
+    { name: t('common.wrong'), value: result.wrong, color: '#ef4444' },
+    { name: t('common.skipped'), value: result.totalQuestions - result.attempted, color: '#94a3b8' },
   ];
 
-  const subjects = Array.from(new Set(questions.map(q => q.subject))) as string[];
+  const breakdown = scoreTest(questions, result.responses, markingScheme);
+  const subjects = Array.from(new Set(questions.map(q => q.subject))) as Subject[];
   const subjectData = subjects.map(subject => {
-    const subjectQuestions = questions.filter(q => q.subject === subject);
-    const attempted = subjectQuestions.filter(q => result.responses[q.id]?.selectedOption !== null).length;
-    const correct = subjectQuestions.filter(q => result.responses[q.id]?.selectedOption === q.correctAnswer).length;
+    const section = breakdown.bySubject[subject]!;
     return {
-      name: subject.split(' ')[0], 
+      name: subjectLabel(language, subject).split(' ')[0], 
       full: subject,
-      total: subjectQuestions.length,
-      attempted,
-      correct,
-      score: (correct * 1) - ((attempted - correct) * 0.33)
+      total: section.total,
+      attempted: section.attempted,
+      correct: section.correct,
+      score: section.score
     };
   });
 
+  const timing = analyzeTime(questions, result.responses);
+  const OUTCOME_COLORS: Record<QuestionTiming['outcome'], string> = { correct: '#22c55e', wrong: '#ef4444', skipped: '#94a3b8' };
+  const timeChartData = timing.perQuestion.map(tq => ({ name: `Q${tq.index + 1}`, seconds: tq.seconds, outcome: tq.outcome }));
+
+  const renderTimeTable = (title: string, rows: TimeBucket<string>[]) => (
+    <div>
+      <h4 className="text-sm font-bold text-slate-600 mb-2">{title}</h4>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-slate-400 uppercase">
+            <th className="py-1 font-bold"></th>
+            <th className="py-1 font-bold text-right">{t('result.avgTime')}</th>
+            <th className="py-1 font-bold text-right">{t('result.totalTime')}</th>
+            <th className="py-1 font-bold text-right">{t('result.accuracy')}</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+          {rows.map(row => (
+            <tr key={row.key}>
+              <td className="py-1.5 font-medium text-slate-700">{row.key}</td>
+              <td className="py-1.5 text-right font-mono">{formatSeconds(row.avgSeconds)}</td>
+              <td className="py-1.5 text-right font-mono text-slate-500">{formatSeconds(row.totalSeconds)}</td>
+              <td className="py-1.5 text-right">{row.accuracy === null ? '—' : `${row.accuracy}%`}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  const renderTimingChips = (items: QuestionTiming[], tone: string) => items.length === 0
+    ? <p className="text-sm text-slate-400">{t('result.noneInTest')}</p>
+    : (
+      <div className="flex flex-wrap gap-2">
+        {items.map(tq => (
+          <span key={tq.questionId} className={`text-xs font-bold px-2 py-1 rounded border ${tone}`}>
+            Q{tq.index + 1} • {formatSeconds(tq.seconds)}
+          </span>
+        ))}
+      </div>
+    );
+
   const filteredQuestions = questions.filter(q => {
     const res = result.responses[q.id];
     const isCorrect = res?.selectedOption === q.correctAnswer;
@@ -86,12 +167,19 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
     return true;
   });
 
+  // A duplicate of an existing card still counts as saved
+  const handleSaveAsFlashcard = (q: Question) => {
+    addFlashcards([flashcardFromQuestion(q)])
+      .then(() => setSavedCardIds(prev => new Set(prev).add(q.id)))
+      .catch(e => console.warn("Failed to save flashcard", e));
+  };
+
   return (
     <div className="bg-gray-100 min-h-screen pb-24">
       <div className="bg-slate-800 text-white py-12 px-4">
          <div className="container mx-auto">
-            <h2 className="text-3xl font-bold mb-2">Test Performance Analysis</h2>
-            <p className="text-slate-300">Detailed breakdown of your RRB NTPC mock test.</p>
+            <h2 className="text-3xl font-bold mb-2">{t('result.title')}</h2>
+            <p className="text-slate-300">{t('result.subtitle')}</p>
          </div>
       </div>
 
@@ -101,9 +189,9 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
           <div className="bg-white p-6 rounded-lg shadow-md border-t-4 border-blue-500">
              <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-slate-500 font-medium uppercase">Total Score</p>
+                  <p className="text-sm text-slate-500 font-medium uppercase">{t('result.totalScore')}</p>
                   <h3 className="text-3xl font-bold text-slate-800">{result.score.toFixed(2)}</h3>
-                  <p className="text-xs text-slate-400">out of {result.totalQuestions}</p>
+                  <p className="text-xs text-slate-400">{t('result.outOf', { max: breakdown.maxScore, scheme: markingScheme.name })}</p>
                 </div>
                 <Award className="w-10 h-10 text-blue-100" />
              </div>
@@ -111,7 +199,7 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
           <div className="bg-white p-6 rounded-lg shadow-md border-t-4 border-green-500">
              <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-slate-500 font-medium uppercase">Accuracy</p>
+                  <p className="text-sm text-slate-500 font-medium uppercase">{t('result.accuracy')}</p>
                   <h3 className="text-3xl font-bold text-green-600">{result.accuracy}%</h3>
                 </div>
                 <Target className="w-10 h-10 text-green-100" />
@@ -120,7 +208,7 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
           <div className="bg-white p-6 rounded-lg shadow-md border-t-4 border-purple-500">
              <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-slate-500 font-medium uppercase">Attempted</p>
+                  <p className="text-sm text-slate-500 font-medium uppercase">{t('result.attempted')}</p>
                   <h3 className="text-3xl font-bold text-slate-800">{result.attempted} / {result.totalQuestions}</h3>
                 </div>
                 <CheckCircle className="w-10 h-10 text-purple-100" />
@@ -129,7 +217,7 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
           <div className="bg-white p-6 rounded-lg shadow-md border-t-4 border-orange-500">
              <div className="flex items-center justify-between">
                 <div>
-                  <p className="text-sm text-slate-500 font-medium uppercase">Time Taken</p>
+                  <p className="text-sm text-slate-500 font-medium uppercase">{t('result.timeTaken')}</p>
                   <h3 className="text-3xl font-bold text-slate-800">{Math.floor(result.timeTakenSeconds / 60)}m {result.timeTakenSeconds % 60}s</h3>
                 </div>
                 <Clock className="w-10 h-10 text-orange-100" />
@@ -141,35 +229,35 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
         {aiAnalysis && (
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8 animate-fade-in">
                 <div className="bg-gradient-to-br from-indigo-600 to-indigo-800 text-white rounded-xl shadow-lg p-6 col-span-1 md:col-span-1">
-                    <h3 className="text-lg font-bold flex items-center mb-4"><Sparkles className="w-5 h-5 mr-2" /> AI Predictor</h3>
+                    <h3 className="text-lg font-bold flex items-center mb-4"><Sparkles className="w-5 h-5 mr-2" /> {t('result.predictor')}</h3>
                     <div className="text-center py-4">
                         <span className="text-5xl font-bold">{aiAnalysis.predictedScore}</span>
                         <span className="text-indigo-200">/100</span>
-                        <p className="text-sm mt-2 text-indigo-100">Projected Final Exam Score</p>
+                        <p className="text-sm mt-2 text-indigo-100">{t('result.projected')}</p>
                     </div>
                     <div className="mt-4 flex items-center justify-center gap-2 bg-indigo-500/30 py-2 rounded-lg">
-                        {aiAnalysis.improvementTrend === 'Up' ? <TrendingUp className="text-green-300 w-4 h-4" /> : <TrendingDown className="text-red-300 w-4 h-4" />}
-                        <span className="text-sm font-medium">Trend: {aiAnalysis.improvementTrend}</span>
+                        {aiAnalysis.improvementTrend === 'Up' ? <TrendingUp className="text-green-300 w-4 h-4" /> : aiAnalysis.improvementTrend === 'Down' ? <TrendingDown className="text-red-300 w-4 h-4" /> : <Minus className="text-indigo-200 w-4 h-4" />}
+                        <span className="text-sm font-medium">{t('result.trend', { trend: aiAnalysis.improvementTrend })}</span>
                     </div>
                 </div>
 
                 <div className="bg-white rounded-xl shadow-md p-6 col-span-1 md:col-span-2 border border-slate-200">
-                    <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center"><Brain className="w-5 h-5 mr-2 text-purple-600" /> Exam Strategy Analysis</h3>
+                    <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center"><Brain className="w-5 h-5 mr-2 text-purple-600" /> {t('result.strategy')}</h3>
                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                         <div className="bg-green-50 p-3 rounded-lg border border-green-100">
-                            <h4 className="text-xs font-bold text-green-700 uppercase mb-1">Top Strength</h4>
+                            <h4 className="text-xs font-bold text-green-700 uppercase mb-1">{t('result.topStrength')}</h4>
                             <p className="text-slate-800 font-medium">{aiAnalysis.strengthAreas[0]}</p>
                         </div>
                         <div className="bg-red-50 p-3 rounded-lg border border-red-100">
-                            <h4 className="text-xs font-bold text-red-700 uppercase mb-1">Needs Improvement</h4>
+                            <h4 className="text-xs font-bold text-red-700 uppercase mb-1">{t('result.needsImprovement')}</h4>
                             <p className="text-slate-800 font-medium">{aiAnalysis.weakAreas[0]}</p>
                         </div>
                         <div className="bg-blue-50 p-3 rounded-lg border border-blue-100">
-                            <h4 className="text-xs font-bold text-blue-700 uppercase mb-1">Next Focus Topic</h4>
+                            <h4 className="text-xs font-bold text-blue-700 uppercase mb-1">{t('result.nextFocus')}</h4>
                             <p className="text-slate-800 font-medium flex items-center">{aiAnalysis.nextFocusTopic} <ArrowRight className="w-3 h-3 ml-1" /></p>
                         </div>
                         <div className="bg-amber-50 p-3 rounded-lg border border-amber-100">
-                            <h4 className="text-xs font-bold text-amber-700 uppercase mb-1">Time Management</h4>
+                            <h4 className="text-xs font-bold text-amber-700 uppercase mb-1">{t('result.timeManagement')}</h4>
                             <p className="text-slate-800 font-medium text-sm">{aiAnalysis.timeManagementTip}</p>
                         </div>
                     </div>
@@ -177,10 +265,17 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
             </div>
         )}
 
+        {analysisError && !aiAnalysis && (
+            <div className="mb-8 bg-white border-l-4 border-slate-300 rounded-lg shadow-sm p-4 flex items-center text-sm text-slate-600">
+                <Sparkles className="w-4 h-4 mr-2 text-slate-400" />
+                {t('result.analysisUnavailable', { error: analysisError })}
+            </div>
+        )}
+
         {/* Charts Section */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
            <div className="bg-white p-6 rounded-lg shadow-md">
-             <h3 className="text-lg font-bold text-slate-700 mb-6">Attempt Distribution</h3>
+             <h3 className="text-lg font-bold text-slate-700 mb-6">{t('result.attemptDistribution')}</h3>
              <div className="h-64">
                <ResponsiveContainer width="100%" height="100%">
                  <PieChart>
@@ -205,7 +300,7 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
            </div>
 
            <div className="bg-white p-6 rounded-lg shadow-md">
-             <h3 className="text-lg font-bold text-slate-700 mb-6">Subject Performance</h3>
+             <h3 className="text-lg font-bold text-slate-700 mb-6">{t('result.subjectPerformance')}</h3>
              <div className="h-64">
                <ResponsiveContainer width="100%" height="100%">
                  <BarChart data={subjectData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
@@ -213,20 +308,68 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
                    <YAxis />
                    <Tooltip />
                    <Legend />
-                   <Bar dataKey="correct" stackId="a" fill="#22c55e" name="Correct" />
-                   <Bar dataKey="attempted" stackId="a" fill="#3b82f6" name="Total Attempted" />
+                   <Bar dataKey="correct" stackId="a" fill="#22c55e" name={t('common.correct')} />
+                   <Bar dataKey="attempted" stackId="a" fill="#3b82f6" name={t('result.totalAttempted')} />
                  </BarChart>
                </ResponsiveContainer>
              </div>
            </div>
         </div>
 
+        {/* Time Analysis */}
+        <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-lg font-bold text-slate-700 flex items-center">
+              <Clock className="w-5 h-5 mr-2 text-orange-500" /> {t('result.timeAnalysis')}
+            </h3>
+            <span className="text-xs font-bold text-slate-500">{t('result.avgPace', { time: formatSeconds(timing.avgSeconds) })}</span>
+          </div>
+
+          <h4 className="text-sm font-bold text-slate-600 mb-2">{t('result.timePerQuestion')}</h4>
+          <div className="h-48 mb-6">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={timeChartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                <XAxis dataKey="name" tick={{ fontSize: 10 }} interval="preserveStartEnd" />
+                <YAxis tick={{ fontSize: 10 }} unit="s" />
+                <Tooltip formatter={(value: number) => formatSeconds(value)} />
+                <Bar dataKey="seconds" name={t('result.timeSpent')}>
+                  {timeChartData.map((entry, index) => (
+                    <Cell key={`time-${index}`} fill={OUTCOME_COLORS[entry.outcome]} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+            {renderTimeTable(t('result.bySubject'), timing.bySubject.map(b => ({ ...b, key: subjectLabel(language, b.key) })))}
+            {renderTimeTable(t('result.byDifficulty'), timing.byDifficulty)}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="bg-red-50/50 p-4 rounded-lg border border-red-100">
+              <h4 className="text-sm font-bold text-red-700 flex items-center mb-1"><Hourglass className="w-4 h-4 mr-1.5" /> {t('result.timeSinks')}</h4>
+              <p className="text-xs text-slate-500 mb-3">{t('result.timeSinksHint', { time: formatSeconds(timing.sinkThreshold) })}</p>
+              {renderTimingChips(timing.timeSinks, 'bg-white border-red-200 text-red-700')}
+            </div>
+            <div className="bg-green-50/50 p-4 rounded-lg border border-green-100">
+              <h4 className="text-sm font-bold text-green-700 flex items-center mb-1"><Zap className="w-4 h-4 mr-1.5" /> {t('result.quickWins')}</h4>
+              <p className="text-xs text-slate-500 mb-3">{t('result.quickWinsHint', { time: formatSeconds(timing.quickThreshold) })}</p>
+              {renderTimingChips(timing.quickWins, 'bg-white border-green-200 text-green-700')}
+            </div>
+          </div>
+        </div>
+
+        {result.events && result.events.length > 0 && (
+          <AttemptReplay questions={questions} events={result.events} language={language} />
+        )}
+
         {/* AI Flashcards Section */}
         {flashcards.length > 0 && (
           <div className="mb-8">
             <h3 className="text-xl font-bold text-slate-800 mb-4 flex items-center">
               <Sparkles className="w-5 h-5 text-yellow-500 mr-2" /> 
-              Smart Revision Cards
+              {t('result.revisionCards')}
             </h3>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
                 {flashcards.map((card, idx) => (
@@ -245,18 +388,24 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
         {/* Detailed Question Review */}
         <div className="bg-white rounded-lg shadow-md overflow-hidden">
             <div className="p-6 border-b border-slate-200 flex flex-col md:flex-row md:items-center justify-between gap-4">
-                <h3 className="text-xl font-bold text-slate-800">Detailed Solutions</h3>
+                <h3 className="text-xl font-bold text-slate-800">{t('result.solutions')}</h3>
                 
                 <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => downloadSolutions(questions, result, language)}
+                        className="flex items-center px-3 py-2 border border-slate-300 rounded-lg text-slate-600 text-sm font-bold hover:bg-slate-50 transition mr-2"
+                    >
+                        <Download className="w-4 h-4 mr-1.5" /> {t('result.export')}
+                    </button>
                     <Filter className="w-4 h-4 text-slate-500" />
                     <select 
                         value={reviewFilter}
                         onChange={(e) => setReviewFilter(e.target.value as any)}
                         className="bg-white text-[#333333] border border-[#DDDDDD] text-sm rounded-lg px-3 py-2 focus:ring-2 focus:ring-[#4285F4] outline-none"
                     >
-                        <option value="All">All Questions</option>
-                        <option value="Incorrect">Incorrect Only</option>
-                        <option value="Skipped">Skipped Only</option>
+                        <option value="All">{t('result.filterAll')}</option>
+                        <option value="Incorrect">{t('result.filterIncorrect')}</option>
+                        <option value="Skipped">{t('result.filterSkipped')}</option>
                     </select>
                 </div>
             </div>
@@ -266,26 +415,38 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
                     const res = result.responses[q.id];
                     const isCorrect = res?.selectedOption === q.correctAnswer;
                     const isSkipped = res?.selectedOption === null || res?.selectedOption === undefined;
+                    const content = localizeQuestion(q, language);
+                    // A set's stem is shown once, above the first of its members in view
+                    const showStem = q.group && filteredQuestions[idx - 1]?.group?.id !== q.group.id;
                     
                     return (
                         <div key={q.id} className="p-6 hover:bg-slate-50 transition">
+                            {showStem && (
+                                <div className="mb-4 p-4 bg-indigo-50 border border-indigo-100 rounded text-slate-800">
+                                    <RichText text={localizeGroupStem(q.group, language)} />
+                                    <ContentMedia blocks={q.group.media} />
+                                </div>
+                            )}
                             <div className="flex gap-3 mb-3">
-                                <span className="text-xs font-bold px-2 py-1 bg-slate-200 text-slate-600 rounded">{q.subject}</span>
+                                <span className="text-xs font-bold px-2 py-1 bg-slate-200 text-slate-600 rounded">{subjectLabel(language, q.subject)}</span>
                                 <span className={`text-xs font-bold px-2 py-1 rounded flex items-center gap-1 ${isCorrect ? 'bg-green-100 text-green-700' : isSkipped ? 'bg-gray-100 text-gray-600' : 'bg-red-100 text-red-700'}`}>
                                     {isCorrect ? <CheckCircle className="w-3 h-3"/> : isSkipped ? <MinusCircle className="w-3 h-3"/> : <XCircle className="w-3 h-3"/>}
-                                    {isCorrect ? 'Correct' : isSkipped ? 'Skipped' : 'Incorrect'}
+                                    {isCorrect ? t('common.correct') : isSkipped ? t('common.skipped') : t('common.incorrect')}
                                 </span>
                             </div>
                             
-                            <p className="text-slate-800 font-medium mb-4">{q.text}</p>
+                            <div className="text-slate-800 font-medium mb-4">
+                                <RichText text={content.text} />
+                                <ContentMedia blocks={q.media} />
+                            </div>
                             
                             <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-                                {q.options.map((opt, i) => (
+                                {content.options.map((opt, i) => (
                                     <div key={i} className={`p-3 rounded border text-sm flex items-center justify-between
                                         ${i === q.correctAnswer ? 'bg-green-50 border-green-200 text-green-800 font-bold' : 
                                           (res?.selectedOption === i ? 'bg-red-50 border-red-200 text-red-800 font-bold' : 'bg-white border-slate-200 text-slate-600')}
                                     `}>
-                                        <span>{String.fromCharCode(65 + i)}. {opt}</span>
+                                        <span>{String.fromCharCode(65 + i)}. <RichText text={opt} /></span>
                                         {i === q.correctAnswer && <CheckCircle className="w-4 h-4 text-green-600" />}
                                         {res?.selectedOption === i && i !== q.correctAnswer && <XCircle className="w-4 h-4 text-red-600" />}
                                     </div>
@@ -293,15 +454,26 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
                             </div>
                             
                             <div className="bg-blue-50 p-4 rounded-lg border border-blue-100 text-sm">
-                                <p className="font-bold text-blue-800 mb-1">Explanation & Short Trick:</p>
-                                <p className="text-blue-900">{q.explanation}</p>
+                                <p className="font-bold text-blue-800 mb-1">{t('result.explanation')}</p>
+                                <div className="text-blue-900">
+                                    <RichText text={content.explanation} />
+                                    <ContentMedia blocks={q.explanationMedia} />
+                                </div>
                             </div>
+                            <button
+                                onClick={() => handleSaveAsFlashcard(q)}
+                                disabled={savedCardIds.has(q.id)}
+                                className="mt-3 flex items-center text-xs font-bold text-blue-600 hover:text-blue-700 disabled:text-green-600"
+                            >
+                                <Layers className="w-3.5 h-3.5 mr-1" />
+                                {savedCardIds.has(q.id) ? t('result.savedFlashcard') : t('result.saveFlashcard')}
+                            </button>
                         </div>
                     );
                 })}
                 {filteredQuestions.length === 0 && (
                     <div className="p-8 text-center text-slate-500">
-                        No questions found for this filter.
+                        {t('result.noneForFilter')}
                     </div>
                 )}
             </div>
@@ -313,7 +485,7 @@ export const ResultAnalysis: React.FC<ResultAnalysisProps> = ({ result, question
             onClick={onBackToDashboard}
             className="px-8 py-3 bg-slate-800 text-white rounded-full font-bold shadow-lg hover:bg-slate-700 hover:shadow-xl hover:-translate-y-0.5 transition-all flex items-center transform"
         >
-            <ArrowRight className="w-5 h-5 mr-2" /> Back to Dashboard
+            <ArrowRight className="w-5 h-5 mr-2" /> {t('common.backToDashboard')}
         </button>
       </div>
     </div>
@@ -0,0 +1,66 @@
+import React from 'react';
+import { ContentBlock } from '../types';
+import { parseMathText, renderMath, sanitizeSvg, svgDataUrl } from '../utils/richContent';
+
+// Inline styles rather than Tailwind classes, so exported HTML renders exactly as on screen
+
+const TABLE_STYLE: React.CSSProperties = { borderCollapse: 'collapse', fontSize: '0.875rem', margin: '0.75rem 0', minWidth: '50%' };
+const CELL_STYLE: React.CSSProperties = { border: '1px solid #cbd5e1', padding: '0.375rem 0.75rem', textAlign: 'left' };
+const HEADER_STYLE: React.CSSProperties = { ...CELL_STYLE, background: '#f1f5f9', fontWeight: 700 };
+const CAPTION_STYLE: React.CSSProperties = { captionSide: 'top', textAlign: 'left', fontWeight: 700, fontSize: '0.75rem', color: '#64748b', paddingBottom: '0.25rem' };
+const FIGURE_STYLE: React.CSSProperties = { margin: '0.75rem 0', maxWidth: '22rem' };
+const FIGURE_IMAGE_STYLE: React.CSSProperties = { display: 'block', maxWidth: '100%', height: 'auto' };
+
+interface RichTextProps {
+  text: string;
+  className?: string;
+}
+
+export const RichText: React.FC<RichTextProps> = ({ text, className }) => (
+  <span className={className} style={{ whiteSpace: 'pre-line' }}>
+    {parseMathText(text).map((segment, idx) =>
+      segment.kind === 'text'
+        ? <React.Fragment key={idx}>{segment.value}</React.Fragment>
+        : <span key={idx} dangerouslySetInnerHTML={{ __html: renderMath(segment.value, segment.display) }} />
+    )}
+  </span>
+);
+
+interface ContentMediaProps {
+  blocks?: ContentBlock[];
+}
+
+export const ContentMedia: React.FC<ContentMediaProps> = ({ blocks }) => {
+  if (!blocks || blocks.length === 0) return null;
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      {blocks.map((block, idx) => {
+        if (block.type === 'table') {
+          return (
+            <table key={idx} style={TABLE_STYLE}>
+              {block.caption && <caption style={CAPTION_STYLE}><RichText text={block.caption} /></caption>}
+              <thead>
+                <tr>{block.headers.map((h, i) => <th key={i} style={HEADER_STYLE}><RichText text={h} /></th>)}</tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>{row.map((cell, c) => <td key={c} style={CELL_STYLE}><RichText text={cell} /></td>)}</tr>
+                ))}
+              </tbody>
+            </table>
+          );
+        }
+
+        // Stored figures are re-sanitised: user-authored and older cached content pass through here too
+        const svg = sanitizeSvg(block.svg);
+        if (!svg) return null;
+        return (
+          <figure key={idx} style={FIGURE_STYLE}>
+            <img src={svgDataUrl(svg)} alt={block.alt} style={FIGURE_IMAGE_STYLE} />
+            {block.caption && <figcaption style={CAPTION_STYLE}><RichText text={block.caption} /></figcaption>}
+          </figure>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Question, TestResult, Language } from '../types';
+import { getTranslator, localizeQuestion, localizeGroupStem, subjectLabel } from '../utils/i18n';
+import { RichText, ContentMedia } from './RichContent';
+
+const KATEX_CSS = 'https://cdn.jsdelivr.net/npm/katex@0.16.11/dist/katex.min.css';
+
+interface SolutionsDocumentProps {
+  questions: Question[];
+  result: TestResult;
+  language: Language;
+}
+
+// Same RichText/ContentMedia as the review screen, so math, tables and figures match on paper
+const SolutionsDocument: React.FC<SolutionsDocumentProps> = ({ questions, result, language }) => {
+  const t = getTranslator(language);
+  return (
+    <div style={{ fontFamily: 'system-ui, sans-serif', maxWidth: '48rem', margin: '0 auto', padding: '2rem', color: '#1e293b' }}>
+      <h1 style={{ fontSize: '1.5rem' }}>{t('result.solutions')}</h1>
+      <p style={{ color: '#64748b' }}>
+        {new Date(result.date).toLocaleString()} • {t('result.totalScore')}: {result.score.toFixed(2)} • {t('result.accuracy')}: {result.accuracy}%
+      </p>
+      {questions.map((q, idx) => {
+        const content = localizeQuestion(q, language);
+        const selected = result.responses[q.id]?.selectedOption;
+        return (
+          <section key={q.id} style={{ borderTop: '1px solid #e2e8f0', padding: '1rem 0', breakInside: 'avoid' }}>
+            {q.group && questions[idx - 1]?.group?.id !== q.group.id && (
+              <div style={{ background: '#eef2ff', padding: '0.75rem', borderRadius: '0.5rem', marginBottom: '0.75rem' }}>
+                <RichText text={localizeGroupStem(q.group, language)} />
+                <ContentMedia blocks={q.group.media} />
+              </div>
+            )}
+            <p style={{ fontSize: '0.75rem', fontWeight: 700, color: '#64748b' }}>
+              Q{idx + 1} • {subjectLabel(language, q.subject)} • {q.topic}
+            </p>
+            <div style={{ fontWeight: 500 }}>
+              <RichText text={content.text} />
+              <ContentMedia blocks={q.media} />
+            </div>
+            <ol type="A" style={{ paddingLeft: '1.5rem' }}>
+              {content.options.map((opt, i) => (
+                <li key={i} style={{
+                  fontWeight: i === q.correctAnswer ? 700 : 400,
+                  color: i === q.correctAnswer ? '#15803d' : i === selected ? '#b91c1c' : undefined
+                }}>
+                  <RichText text={opt} />
+                </li>
+              ))}
+            </ol>
+            <div style={{ background: '#eff6ff', padding: '0.75rem', borderRadius: '0.5rem', fontSize: '0.875rem' }}>
+              <strong>{t('result.explanation')}</strong>{' '}
+              <RichText text={content.explanation} />
+              <ContentMedia blocks={q.explanationMedia} />
+            </div>
+          </section>
+        );
+      })}
+    </div>
+  );
+};
+
+export const downloadSolutions = (questions: Question[], result: TestResult, language: Language) => {
+  const body = renderToStaticMarkup(<SolutionsDocument questions={questions} result={result} language={language} />);
+  const html = `<!DOCTYPE html><html lang="${language}"><head><meta charset="UTF-8" /><title>Solutions</title>` +
+    `<link rel="stylesheet" href="${KATEX_CSS}" /></head><body>${body}</body></html>`;
+
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `rrb-solutions-${result.date.slice(0, 10)}.html`;
+  link.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+};
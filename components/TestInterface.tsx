@@ -1,36 +1,61 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Question, UserResponse, TestResult, Subject } from '../types';
-import { ChevronLeft, ChevronRight, Flag, Clock, AlertTriangle, Play, Pause, Bookmark, SkipForward, History, Filter, Loader, Lightbulb, MessageCircle, X, Send, Brain } from 'lucide-react';
+import { Question, UserResponse, TestResult, Subject, TestConfig, TestSession, Language, AttemptEvent } from '../types';
+import { ChevronLeft, ChevronRight, Flag, Clock, AlertTriangle, Play, Pause, Bookmark, SkipForward, History, Filter, Loader, Lightbulb, MessageCircle, X, Send, Brain, CheckCircle, XCircle, Flame, Target } from 'lucide-react';
 import { getAIHint, solveAIDoubt } from '../services/geminiService';
+import { describeAIError, describeAIErrorCode } from '../services/aiErrors';
+import { isOverDailyBudget } from '../services/usageTracker';
+import { saveSessionPaper, saveSessionProgress, saveSessionEvents, clearSession } from '../utils/session';
+import { scoreTest, getMarkingScheme } from '../utils/scoring';
+import { getExamPattern, getSectionQuotas, SUBJECT_SHORT_NAMES } from '../utils/examPatterns';
+import { LANGUAGES, getTranslator, hasTranslation, localizeQuestion, localizeGroupStem } from '../utils/i18n';
+import { getGroupSpan } from '../utils/questionGroups';
+import { closeVisit, secondsLeft, OpenVisit, ClockSegment } from '../utils/timing';
+import { computePracticeStats } from '../utils/practice';
+import { RichText, ContentMedia } from './RichContent';
+import { AIQueueNotice } from './AIQueueNotice';
 
 interface TestInterfaceProps {
   questions: Question[];
-  durationMinutes: number;
-  onComplete: (result: TestResult) => void;
+  config: TestConfig;
+  onComplete: (result: TestResult, paper: Question[]) => void;
   onExit: () => void;
-  onRequestMore: () => void;
-  totalQuestionsConfig: number;
-  savedState?: {
-    responses: Record<string, UserResponse>;
-    timeLeft: number;
-  };
+  onRequestMore: (responses?: Record<string, UserResponse>) => void;
+  savedState?: Pick<TestSession, 'responses' | 'timeLeft' | 'currentQuestionIndex' | 'events'>;
+  language: Language;
 }
 
 export const TestInterface: React.FC<TestInterfaceProps> = ({ 
   questions, 
-  durationMinutes, 
+  config,
   onComplete, 
   onExit,
   onRequestMore,
-  totalQuestionsConfig,
-  savedState
+  savedState,
+  language,
 }) => {
-  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
+  const { durationMinutes, totalQuestions: totalQuestionsConfig } = config;
+  const examName = getExamPattern(config.examPatternId)?.name || 'RRB NTPC';
+  // Exam simulation: no AI help, no pause, and leaving the tab is called out
+  const strict = !!config.strictMode;
+  // Practice: untimed, answers lock on first choice and the solution shows straight away
+  const practice = config.mode === 'Practice';
+  // Practice has no fixed paper, so only loaded questions (and the one being fetched) get a slot
+  const slotCount = practice
+    ? Math.min(questions.length + 1, totalQuestionsConfig)
+    : totalQuestionsConfig;
+  const sections = getSectionQuotas(config);
+  const [currentQuestionIndex, setCurrentQuestionIndex] = useState(savedState?.currentQuestionIndex || 0);
   const [responses, setResponses] = useState<Record<string, UserResponse>>(savedState?.responses || {});
-  const [timeLeft, setTimeLeft] = useState(savedState?.timeLeft || durationMinutes * 60);
+  const [timeLeft, setTimeLeft] = useState(savedState?.timeLeft ?? durationMinutes * 60);
   const [isSubmitModalOpen, setIsSubmitModalOpen] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [paletteFilter, setPaletteFilter] = useState<Subject | 'All'>('All');
+  // Per-question "View in" choice, as on the real CBT; unset questions follow the user's preference
+  const [questionLanguages, setQuestionLanguages] = useState<Record<string, Language>>({});
+  // Everything the candidate does, in order, for the replay after the test
+  const [events, setEvents] = useState<AttemptEvent[]>(savedState?.events || []);
+  const [leaveCount, setLeaveCount] = useState(() => (savedState?.events || []).filter(e => e.type === 'leave').length);
+  const [showLeaveWarning, setShowLeaveWarning] = useState(false);
   
   // AI Feature States
   const [activeHint, setActiveHint] = useState<string | null>(null);
@@ -42,17 +67,30 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
 
   const paletteRef = useRef<HTMLDivElement>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const visitRef = useRef<OpenVisit | null>(null);
+  const finishedRef = useRef(false);
 
-  // Persistence
+  // Persistence - the full paper is saved so a refresh can resume exactly here. The paper
+  // only changes when questions arrive and the event log on an action; the progress is what
+  // changes every second.
   useEffect(() => {
-    if (!isPaused) {
-      localStorage.setItem('rrb_current_session', JSON.stringify({
-        responses,
-        timeLeft,
-        timestamp: Date.now()
-      }));
-    }
-  }, [responses, timeLeft, isPaused]);
+    if (questions.length === 0) return;
+    saveSessionPaper({ config, questions });
+  }, [config, questions]);
+
+  useEffect(() => {
+    if (questions.length === 0) return;
+    saveSessionProgress({
+      responses,
+      timeLeft,
+      currentQuestionIndex
+    });
+  }, [questions.length, responses, timeLeft, currentQuestionIndex]);
+
+  useEffect(() => {
+    if (questions.length === 0) return;
+    saveSessionEvents(events);
+  }, [questions.length, events]);
 
   // Sync new questions & progressive load handling
   useEffect(() => {
@@ -78,8 +116,9 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
 
   // Initial visited mark
   useEffect(() => {
-    if (questions.length > 0 && responses[questions[0]?.id]?.status === 'Not Visited') {
-       updateStatus(questions[0].id, undefined, true);
+    const q = questions[currentQuestionIndex];
+    if (q && responses[q.id]?.status === 'Not Visited') {
+       updateStatus(q.id, undefined, true);
     }
   }, [questions.length]); 
 
@@ -107,6 +146,13 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
 
   // Background Fetch Trigger
   useEffect(() => {
+    if (practice) {
+      // Keep a couple of questions ahead; the answers so far decide what comes next
+      if (currentQuestionIndex >= questions.length - 2 && questions.length < totalQuestionsConfig) {
+        onRequestMore(responses);
+      }
+      return;
+    }
     const threshold = 5;
     if (
       currentQuestionIndex >= questions.length - threshold && 
@@ -116,33 +162,56 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
     }
   }, [currentQuestionIndex, questions.length, totalQuestionsConfig]);
 
-  // Timer
+  // Exam clock: one interval per running stretch, with time left recomputed from timestamps
   useEffect(() => {
-    if (isPaused || timeLeft <= 0) return;
+    if (isPaused || practice) return;
+    const segment: ClockSegment = { startedAt: Date.now(), secondsLeftAtStart: timeLeft };
+    const timer = setInterval(() => setTimeLeft(secondsLeft(segment)), 1000);
+    return () => clearInterval(timer);
+  }, [isPaused]);
 
-    if (timeLeft <= 0) {
-      finishTest();
-      return;
-    }
-    const timer = setInterval(() => {
-      setTimeLeft(prev => prev - 1);
-      
-      if (questions[currentQuestionIndex]) {
-        const qId = questions[currentQuestionIndex].id;
-        setResponses(prev => ({
-          ...prev,
-          [qId]: {
-            ...prev[qId],
-            timeSpentSeconds: (prev[qId]?.timeSpentSeconds || 0) + 1
-          }
-        }));
+  useEffect(() => {
+    if (!practice && timeLeft <= 0) finishTest();
+  }, [timeLeft]);
+
+  // Per-question timing: a visit is open only while its question is on screen, the test
+  // is running and the tab is visible. Any change to those closes the visit or opens one.
+  const currentQuestionId = questions[currentQuestionIndex]?.id;
+  useEffect(() => {
+    const sync = () => {
+      const wanted = !isPaused && document.visibilityState === 'visible' ? currentQuestionId : undefined;
+      const open = visitRef.current;
+      if (open?.questionId === wanted) return;
+      const now = Date.now();
+      if (open) setResponses(prev => closeVisit(prev, open, now));
+      visitRef.current = wanted ? { questionId: wanted, enteredAt: now } : null;
+    };
+    sync();
+    document.addEventListener('visibilitychange', sync);
+    return () => document.removeEventListener('visibilitychange', sync);
+  }, [currentQuestionId, isPaused]);
+
+  // Strict mode: every switch away is logged, and the candidate is warned on return
+  useEffect(() => {
+    if (!strict) return;
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') {
+        logEvent({ type: 'leave' });
+        setLeaveCount(n => n + 1);
+      } else {
+        setShowLeaveWarning(true);
       }
-    }, 1000);
-    return () => clearInterval(timer);
-  }, [timeLeft, currentQuestionIndex, isPaused]);
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [strict]);
 
   // --- Handlers ---
 
+  const logEvent = (event: Omit<AttemptEvent, 'at'>) => {
+    setEvents(prev => [...prev, { ...event, at: Date.now() }]);
+  };
+
   const updateStatus = (qId: string, newStatus?: UserResponse['status'], markVisited: boolean = false) => {
     setResponses(prev => {
       const current = prev[qId];
@@ -162,8 +231,15 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
     });
   };
 
+  const isLocked = (qId: string) => {
+    const selected = responses[qId]?.selectedOption;
+    return practice && selected !== null && selected !== undefined;
+  };
+
   const handleOptionSelect = (optionIndex: number) => {
     const qId = questions[currentQuestionIndex].id;
+    if (isLocked(qId)) return;
+    if (responses[qId]?.selectedOption !== optionIndex) logEvent({ type: 'select', questionId: qId, option: optionIndex });
     setResponses(prev => ({
       ...prev,
       [qId]: {
@@ -181,11 +257,17 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
     if (currentRes.selectedOption !== null) {
       newStatus = 'Answered & Marked';
     }
+    logEvent({ type: 'mark', questionId: qId });
     updateStatus(qId, newStatus);
   };
 
   const handleSkip = () => {
     const qId = questions[currentQuestionIndex].id;
+    if (isLocked(qId)) {
+      handleNavigate(currentQuestionIndex + 1);
+      return;
+    }
+    if (responses[qId]?.selectedOption !== null) logEvent({ type: 'clear', questionId: qId });
     setResponses(prev => ({
       ...prev,
       [qId]: {
@@ -202,6 +284,7 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
 
   const handleBookmark = () => {
     const qId = questions[currentQuestionIndex].id;
+    logEvent({ type: 'bookmark', questionId: qId, on: !responses[qId]?.isBookmarked });
     setResponses(prev => ({
       ...prev,
       [qId]: {
@@ -213,6 +296,8 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
 
   const handleClearResponse = () => {
     const qId = questions[currentQuestionIndex].id;
+    if (isLocked(qId)) return;
+    if (responses[qId]?.selectedOption !== null) logEvent({ type: 'clear', questionId: qId });
     setResponses(prev => ({
       ...prev,
       [qId]: {
@@ -224,17 +309,30 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
   };
 
   const handleNavigate = (index: number) => {
-    if (index >= 0 && index < totalQuestionsConfig) {
+    if (index >= 0 && index < slotCount) {
       setCurrentQuestionIndex(index);
       if (questions[index]) {
+         if (index !== currentQuestionIndex) logEvent({ type: 'navigate', questionId: questions[index].id });
          updateStatus(questions[index].id, undefined, true);
       }
     }
   };
 
+  const handlePause = () => {
+    if (strict) return;
+    logEvent({ type: 'pause' });
+    setIsPaused(true);
+  };
+
+  const handleResume = () => {
+    logEvent({ type: 'resume' });
+    setIsPaused(false);
+  };
+
   const handleGetHint = async () => {
     const q = questions[currentQuestionIndex];
-    if (!q) return;
+    if (!q || strict) return;
+    logEvent({ type: 'hint', questionId: q.id });
 
     if (q.cachedHint) {
         setActiveHint(q.cachedHint);
@@ -242,50 +340,64 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
     }
 
     setLoadingHint(true);
-    const hint = await getAIHint(q);
-    
-    // Ideally cache this in a real app context, here we just set it local to state
-    q.cachedHint = hint; 
-    setActiveHint(hint);
+    try {
+      const hint = await getAIHint(q);
+      // Ideally cache this in a real app context, here we just set it local to state
+      q.cachedHint = hint; 
+      setActiveHint(hint);
+    } catch (e) {
+      setActiveHint(describeAIError(e));
+    }
     setLoadingHint(false);
   };
 
   const handleAskDoubt = async () => {
-    if (!doubtQuery.trim()) return;
+    if (!doubtQuery.trim() || strict) return;
     const userText = doubtQuery;
     setDoubtQuery('');
+    logEvent({ type: 'doubt', questionId: questions[currentQuestionIndex]?.id });
     setDoubtHistory(prev => [...prev, { role: 'user', text: userText }]);
     
     setLoadingDoubt(true);
-    const answer = await solveAIDoubt(questions[currentQuestionIndex], userText);
+    let answer: string;
+    try {
+      answer = await solveAIDoubt(questions[currentQuestionIndex], userText);
+    } catch (e) {
+      answer = describeAIError(e);
+    }
     setDoubtHistory(prev => [...prev, { role: 'ai', text: answer }]);
     setLoadingDoubt(false);
   };
 
   const finishTest = () => {
-    localStorage.removeItem('rrb_current_session');
-
-    const attempted = Object.values(responses).filter((r: UserResponse) => r.selectedOption !== null).length;
-    const correct = questions.reduce((acc, q) => {
-      if (!responses[q.id]) return acc;
-      return acc + (responses[q.id]?.selectedOption === q.correctAnswer ? 1 : 0);
-    }, 0);
-    const wrong = attempted - correct;
-    const score = parseFloat((correct * 1 - wrong * (1/3)).toFixed(2));
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+    clearSession();
+
+    // The question on screen at submission keeps its last visit
+    const finalResponses = closeVisit(responses, visitRef.current);
+    visitRef.current = null;
+
+    // A practice session is scored on what was actually seen, not on prefetched questions
+    const paper = practice ? questions.filter(q => finalResponses[q.id]?.visited) : questions;
+    const { attempted, correct, wrong, score } = scoreTest(paper, finalResponses, getMarkingScheme(config));
     
     const result: TestResult = {
-      totalQuestions: questions.length,
+      totalQuestions: paper.length,
       attempted,
       correct,
       wrong,
       score,
       accuracy: attempted > 0 ? parseFloat(((correct / attempted) * 100).toFixed(2)) : 0,
-      timeTakenSeconds: (durationMinutes * 60) - timeLeft,
-      responses,
-      date: new Date().toISOString()
+      timeTakenSeconds: practice
+        ? paper.reduce((acc, q) => acc + (finalResponses[q.id]?.timeSpentSeconds || 0), 0)
+        : (durationMinutes * 60) - timeLeft,
+      responses: finalResponses,
+      date: new Date().toISOString(),
+      events: [...events, { type: 'submit', at: Date.now() }]
     };
     
-    onComplete(result);
+    onComplete(result, paper);
   };
 
   const formatTime = (seconds: number) => {
@@ -309,7 +421,16 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
   // --- Render ---
 
   const currentQuestion = questions[currentQuestionIndex];
+  const t = getTranslator(language);
+  const viewLanguage = (currentQuestion && questionLanguages[currentQuestion.id]) || language;
+  const displayed = currentQuestion ? localizeQuestion(currentQuestion, viewLanguage) : null;
+  const groupSpan = getGroupSpan(questions, currentQuestionIndex);
   const currentResponse = responses[currentQuestion?.id];
+  const revealed = !!currentQuestion && isLocked(currentQuestion.id);
+  const practiceStats = practice ? computePracticeStats(questions, responses) : null;
+  // Optional AI help switches off once today's budget is spent; cached hints still show
+  const aiBudgetReached = isOverDailyBudget();
+  const budgetTitle = aiBudgetReached ? describeAIErrorCode('BUDGET_EXCEEDED') : undefined;
 
   // Skeleton Loader for Progressive Fetching
   const renderSkeleton = () => (
@@ -327,6 +448,7 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
         <div className="mt-8 flex justify-center text-slate-500 items-center gap-2">
             <Loader className="animate-spin w-4 h-4" /> Fetching Question...
         </div>
+        <AIQueueNotice className="mt-4 mx-auto" />
     </div>
   );
 
@@ -342,7 +464,7 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
              <h2 className="text-3xl font-bold mb-2">Test Paused</h2>
              <p className="text-slate-400 mb-8">Your progress has been saved securely.</p>
              <button 
-               onClick={() => setIsPaused(false)}
+               onClick={handleResume}
                className="w-full py-4 bg-green-600 hover:bg-green-500 rounded-xl font-bold text-lg transition shadow-lg flex items-center justify-center"
              >
                <Play className="w-5 h-5 mr-2 fill-current" /> Resume Test
@@ -354,7 +476,7 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
       {/* Test Header */}
       <div className="bg-white border-b px-4 py-2 flex justify-between items-center h-14 shrink-0 shadow-sm z-10">
         <div className="flex items-center gap-4">
-           <h2 className="font-semibold text-lg text-slate-800 hidden md:block">RRB NTPC Mock</h2>
+           <h2 className="font-semibold text-lg text-slate-800 hidden md:block">{practice ? 'Practice' : `${examName} Mock`}</h2>
            {currentQuestion && (
              <span className="md:hidden px-2 py-1 bg-slate-100 rounded text-xs font-bold text-slate-600 truncate max-w-[120px]">
                 {currentQuestion.subject}
@@ -363,24 +485,42 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
         </div>
         
         <div className="flex items-center space-x-4">
-          <button 
-             onClick={() => setIsPaused(true)}
-             className="p-2 text-slate-500 hover:bg-slate-100 rounded-full transition"
-             title="Pause Test"
-          >
-             <Pause className="w-5 h-5" />
-          </button>
+          {!strict && !practice && (
+            <button 
+               onClick={handlePause}
+               className="p-2 text-slate-500 hover:bg-slate-100 rounded-full transition"
+               title="Pause Test"
+            >
+               <Pause className="w-5 h-5" />
+            </button>
+          )}
 
-          <div className={`flex items-center px-4 py-1.5 rounded-full font-mono text-xl font-bold border ${timeLeft < 300 ? 'bg-red-50 text-red-600 border-red-200 animate-pulse' : 'bg-slate-50 text-slate-700 border-slate-200'}`}>
-            <Clock className="w-5 h-5 mr-2" />
-            {formatTime(timeLeft)}
-          </div>
+          {practiceStats ? (
+            <div className="flex items-center gap-2 text-sm font-bold">
+              <span className="flex items-center px-3 py-1.5 rounded-full border bg-slate-50 text-slate-700 border-slate-200" title="Accuracy">
+                <Target className="w-4 h-4 mr-1.5 text-blue-600" />
+                {practiceStats.correct}/{practiceStats.answered} ({practiceStats.accuracy}%)
+              </span>
+              <span
+                className={`flex items-center px-3 py-1.5 rounded-full border ${practiceStats.streak >= 3 ? 'bg-orange-50 text-orange-600 border-orange-200' : 'bg-slate-50 text-slate-700 border-slate-200'}`}
+                title={`Best streak: ${practiceStats.bestStreak}`}
+              >
+                <Flame className="w-4 h-4 mr-1.5" />
+                {practiceStats.streak}
+              </span>
+            </div>
+          ) : (
+            <div className={`flex items-center px-4 py-1.5 rounded-full font-mono text-xl font-bold border ${timeLeft < 300 ? 'bg-red-50 text-red-600 border-red-200 animate-pulse' : 'bg-slate-50 text-slate-700 border-slate-200'}`}>
+              <Clock className="w-5 h-5 mr-2" />
+              {formatTime(timeLeft)}
+            </div>
+          )}
           
           <button 
             onClick={() => setIsSubmitModalOpen(true)}
             className="bg-green-600 hover:bg-green-700 text-white px-6 py-1.5 rounded-full shadow-sm font-medium transition text-sm uppercase tracking-wide"
           >
-            Submit
+            {practice ? 'End Practice' : 'Submit'}
           </button>
         </div>
       </div>
@@ -392,12 +532,37 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
           {/* Scrollable Question Content */}
           <div className="flex-1 overflow-y-auto p-4 md:p-6 pb-4">
             {!currentQuestion ? renderSkeleton() : (
+              <div className={currentQuestion.group ? 'grid lg:grid-cols-2 gap-4 items-start' : ''}>
+              {/* Shared stem stays pinned while moving through the set's questions */}
+              {currentQuestion.group && (
+                <div className="bg-white rounded-xl shadow-sm border border-indigo-200 p-6 lg:sticky lg:top-0">
+                  {groupSpan && (
+                    <div className="text-xs font-bold text-indigo-600 uppercase tracking-wider mb-3">
+                      {t('test.groupStem', { from: groupSpan.start + 1, to: groupSpan.end + 1 })}
+                    </div>
+                  )}
+                  <div className="text-base md:text-lg text-slate-800 leading-relaxed">
+                    <RichText text={localizeGroupStem(currentQuestion.group, viewLanguage)} />
+                    <ContentMedia blocks={currentQuestion.group.media} />
+                  </div>
+                </div>
+              )}
               <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 min-h-[450px] relative">
               <div className="flex justify-between items-start mb-6 border-b border-slate-100 pb-4">
                 <div>
                   <div className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-1">
                     Question {currentQuestionIndex + 1}
                   </div>
+                  <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+                    {t('test.viewIn')}
+                    <select
+                      value={viewLanguage}
+                      onChange={(e) => setQuestionLanguages(prev => ({ ...prev, [currentQuestion.id]: e.target.value as Language }))}
+                      className="p-1 border border-slate-300 rounded bg-white text-slate-700"
+                    >
+                      {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                    </select>
+                  </label>
                   <div className="flex gap-2 mt-2">
                     <span className="text-xs px-2 py-1 bg-slate-100 text-slate-600 rounded font-bold">
                       {currentQuestion.subject}
@@ -412,23 +577,31 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
                 </div>
                 
                 <div className="flex items-center gap-2">
-                  {/* AI Features Buttons */}
-                  <button
-                      onClick={handleGetHint}
-                      className="flex items-center gap-1 px-3 py-1.5 bg-yellow-50 text-yellow-700 rounded-lg hover:bg-yellow-100 border border-yellow-200 text-xs font-bold transition"
-                  >
-                      <Lightbulb className="w-3.5 h-3.5" />
-                      Hint
-                  </button>
-                  <button
-                      onClick={() => setShowDoubtChat(!showDoubtChat)}
-                      className="flex items-center gap-1 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 border border-blue-200 text-xs font-bold transition"
-                  >
-                      <Brain className="w-3.5 h-3.5" />
-                      Ask AI
-                  </button>
-
-                  <div className="w-px h-6 bg-slate-200 mx-2"></div>
+                  {/* AI Features Buttons (not available in the real exam) */}
+                  {!strict && (
+                    <>
+                      <button
+                          onClick={handleGetHint}
+                          disabled={aiBudgetReached && !currentQuestion.cachedHint}
+                          title={budgetTitle}
+                          className="flex items-center gap-1 px-3 py-1.5 bg-yellow-50 text-yellow-700 rounded-lg hover:bg-yellow-100 border border-yellow-200 text-xs font-bold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                          <Lightbulb className="w-3.5 h-3.5" />
+                          Hint
+                      </button>
+                      <button
+                          onClick={() => setShowDoubtChat(!showDoubtChat)}
+                          disabled={aiBudgetReached}
+                          title={budgetTitle}
+                          className="flex items-center gap-1 px-3 py-1.5 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 border border-blue-200 text-xs font-bold transition disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                          <Brain className="w-3.5 h-3.5" />
+                          Ask AI
+                      </button>
+
+                      <div className="w-px h-6 bg-slate-200 mx-2"></div>
+                    </>
+                  )}
 
                   <button 
                     onClick={handleBookmark}
@@ -454,34 +627,81 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
                   </div>
               )}
 
+              {!hasTranslation(currentQuestion, viewLanguage) && (
+                <p className="mb-4 text-xs text-amber-700 bg-amber-50 border border-amber-100 rounded px-3 py-2">
+                  {t('test.notTranslated', { language: LANGUAGES.find(l => l.code === viewLanguage)?.label || viewLanguage })}
+                </p>
+              )}
+
               <div className="text-lg md:text-xl text-slate-800 font-medium mb-8 leading-relaxed">
-                {currentQuestion.text}
+                <RichText text={displayed.text} />
+                <ContentMedia blocks={currentQuestion.media} />
               </div>
 
               <div className="space-y-3 w-full max-w-3xl">
-                {currentQuestion.options.map((option, idx) => (
+                {displayed.options.map((option, idx) => {
+                  const isSelected = currentResponse?.selectedOption === idx;
+                  // Once a practice answer is in, the key and the wrong pick are shown
+                  const tone = revealed && idx === currentQuestion.correctAnswer
+                    ? { card: 'border-green-500 bg-green-50', badge: 'border-green-500 bg-green-500 text-white' }
+                    : revealed && isSelected
+                      ? { card: 'border-red-500 bg-red-50', badge: 'border-red-500 bg-red-500 text-white' }
+                      : isSelected
+                        ? { card: 'border-blue-500 bg-blue-50 shadow-md', badge: 'border-blue-500 bg-blue-500 text-white' }
+                        : revealed
+                          ? { card: 'border-slate-200 bg-white opacity-70', badge: 'border-slate-300 text-slate-500' }
+                          : { card: 'border-slate-200 hover:border-blue-300 hover:bg-white bg-white', badge: 'border-slate-300 text-slate-500 group-hover:border-blue-400 group-hover:text-blue-500' };
+                  return (
                   <div 
                     key={idx}
                     onClick={() => handleOptionSelect(idx)}
                     className={`
-                      p-4 rounded-xl border-2 cursor-pointer transition flex items-start group w-full relative overflow-hidden
-                      ${currentResponse?.selectedOption === idx 
-                        ? 'border-blue-500 bg-blue-50 shadow-md' 
-                        : 'border-slate-200 hover:border-blue-300 hover:bg-white bg-white'}
+                      p-4 rounded-xl border-2 transition flex items-start group w-full relative overflow-hidden
+                      ${revealed ? 'cursor-default' : 'cursor-pointer'}
+                      ${tone.card}
                     `}
                   >
                     <div className={`
                       w-8 h-8 rounded-full border-2 mr-4 flex-shrink-0 flex items-center justify-center text-sm font-bold mt-0.5 z-10 transition-colors
-                      ${currentResponse?.selectedOption === idx 
-                        ? 'border-blue-500 bg-blue-500 text-white' 
-                        : 'border-slate-300 text-slate-500 group-hover:border-blue-400 group-hover:text-blue-500'}
+                      ${tone.badge}
                     `}>
                       {String.fromCharCode(65 + idx)}
                     </div>
-                    <span className="text-slate-800 font-medium text-base leading-relaxed flex-1 z-10">{option}</span>
+                    <span className="text-slate-800 font-medium text-base leading-relaxed flex-1 z-10"><RichText text={option} /></span>
                   </div>
-                ))}
+                  );
+                })}
               </div>
+
+              {/* Practice feedback: verdict and worked solution as soon as an option is picked */}
+              {revealed && (
+                <div className={`mt-6 max-w-3xl rounded-xl border p-4 animate-fade-in ${currentResponse.selectedOption === currentQuestion.correctAnswer ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+                  <div className="flex items-center justify-between gap-3 mb-3">
+                    {currentResponse.selectedOption === currentQuestion.correctAnswer ? (
+                      <h4 className="font-bold text-green-700 flex items-center"><CheckCircle className="w-5 h-5 mr-2" /> Correct!</h4>
+                    ) : (
+                      <h4 className="font-bold text-red-700 flex items-center">
+                        <XCircle className="w-5 h-5 mr-2" /> Incorrect — the answer is {String.fromCharCode(65 + currentQuestion.correctAnswer)}
+                      </h4>
+                    )}
+                    <button
+                      onClick={() => setShowDoubtChat(true)}
+                      disabled={aiBudgetReached}
+                      title={budgetTitle}
+                      className="flex items-center gap-1 px-3 py-1.5 bg-white text-blue-700 rounded-lg hover:bg-blue-50 border border-blue-200 text-xs font-bold transition shrink-0 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Brain className="w-3.5 h-3.5" />
+                      Ask AI
+                    </button>
+                  </div>
+                  <div className="text-sm text-slate-700 leading-relaxed">
+                    <span className="font-bold text-slate-800">{t('result.explanation')}</span>{' '}
+                    <RichText text={displayed.explanation} />
+                    <ContentMedia blocks={currentQuestion.explanationMedia} />
+                  </div>
+                </div>
+              )}
+            </div>
             </div>
             )}
           </div>
@@ -504,7 +724,8 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
                    </button>
                    <button 
                      onClick={handleClearResponse}
-                     className="flex items-center px-3 md:px-4 py-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 font-bold text-xs md:text-sm transition border border-slate-200 whitespace-nowrap"
+                     disabled={revealed}
+                     className="flex items-center px-3 md:px-4 py-2 bg-slate-100 text-slate-600 rounded-lg hover:bg-slate-200 font-bold text-xs md:text-sm transition border border-slate-200 whitespace-nowrap disabled:opacity-50"
                    >
                      Clear
                    </button>
@@ -522,15 +743,15 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
                      onClick={() => handleNavigate(currentQuestionIndex + 1)}
                      className="flex items-center px-5 md:px-8 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-bold text-xs md:text-sm shadow-md hover:shadow-lg transition"
                    >
-                     {currentQuestionIndex >= totalQuestionsConfig - 1 ? 'Finish' : 'Next'} 
-                     {currentQuestionIndex < totalQuestionsConfig - 1 && <ChevronRight className="w-4 h-4 ml-1" />}
+                     {currentQuestionIndex >= slotCount - 1 ? 'Finish' : 'Next'} 
+                     {currentQuestionIndex < slotCount - 1 && <ChevronRight className="w-4 h-4 ml-1" />}
                    </button>
                 </div>
              </div>
           </div>
 
           {/* AI Doubt Chat Overlay/Panel */}
-          {showDoubtChat && (
+          {showDoubtChat && !strict && (
             <div className="absolute right-0 top-0 bottom-0 w-80 md:w-96 bg-white shadow-2xl border-l border-slate-200 z-30 flex flex-col animate-slide-in-right">
               <div className="p-4 bg-slate-800 text-white flex justify-between items-center">
                   <div className="flex items-center gap-2">
@@ -595,7 +816,7 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
                Question Palette
                <span className="text-xs bg-slate-200 px-2 py-1 rounded-full text-slate-600">
                   {/* Progressive Loading Indicator */}
-                  {questions.length < totalQuestionsConfig ? (
+                  {practice ? `${questions.length} Loaded` : questions.length < totalQuestionsConfig ? (
                       <span className="flex items-center gap-1">
                           <Loader className="w-3 h-3 animate-spin" /> {questions.length} Loaded
                       </span>
@@ -609,6 +830,7 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
                <div className="flex items-center"><div className="w-2 h-2 bg-red-500 rounded-full mr-1.5"></div> Unanswered</div>
                <div className="flex items-center"><div className="w-2 h-2 bg-purple-400 rounded-full mr-1.5"></div> Review</div>
                <div className="flex items-center"><div className="w-2 h-2 bg-slate-200 rounded-full mr-1.5"></div> Not Visited</div>
+               <div className="flex items-center"><div className="w-3 h-1 bg-indigo-400 rounded-full mr-1.5"></div> Shared-data set</div>
             </div>
 
             {/* Section Filter */}
@@ -619,17 +841,20 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
                 className="w-full pl-8 pr-3 py-2 bg-white text-[#333333] border border-[#DDDDDD] rounded-lg text-xs font-bold appearance-none focus:ring-2 focus:ring-[#4285F4] focus:outline-none"
               >
                 <option value="All">All Sections</option>
-                <option value="Mathematics">Mathematics</option>
-                <option value="General Intelligence & Reasoning">Reasoning</option>
-                <option value="General Awareness">Gen Awareness</option>
+                {sections.map(section => (
+                  <option key={section.subject} value={section.subject}>
+                    {SUBJECT_SHORT_NAMES[section.subject]} ({section.questionCount})
+                  </option>
+                ))}
               </select>
               <Filter className="w-3.5 h-3.5 text-slate-400 absolute left-2.5 top-2.5" />
             </div>
+            <AIQueueNotice className="mt-3" />
           </div>
           
           <div className="flex-1 overflow-y-auto p-3 scrollbar-thin bg-slate-50/50" ref={paletteRef}>
-            <div className="grid grid-cols-4 gap-2">
-              {Array.from({ length: totalQuestionsConfig }).map((_, idx) => {
+            <div className="grid grid-cols-4 gap-x-2 gap-y-3">
+              {Array.from({ length: slotCount }).map((_, idx) => {
                 const q = questions[idx];
                 // Show skeletons for future questions
                 if (!q) {
@@ -646,6 +871,7 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
                 if (paletteFilter !== 'All' && q.subject !== paletteFilter) return null;
                 const status = responses[q.id]?.status || 'Not Visited';
                 const isMarked = responses[q.id]?.isBookmarked;
+                const span = getGroupSpan(questions, idx);
 
                 return (
                   <button
@@ -657,8 +883,17 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
                       ${getStatusColor(status, currentQuestionIndex === idx)}
                       ${isMarked ? 'border-yellow-400' : 'border-transparent'}
                     `}
+                    title={span ? `Set: Q${span.start + 1}–Q${span.end + 1}` : undefined}
                   >
                     {idx + 1}
+                    {/* Set members share a bar that runs across the gaps between them */}
+                    {span && (
+                      <span className={`
+                        absolute -bottom-2 h-1 bg-indigo-400
+                        ${idx === span.start ? 'left-1 rounded-l-full' : '-left-1.5'}
+                        ${idx === span.end ? 'right-1 rounded-r-full' : '-right-1.5'}
+                      `} />
+                    )}
                     {isMarked && (
                        <div className="absolute -top-1 -right-1">
                           <Bookmark className="w-3 h-3 text-yellow-500 fill-current" />
@@ -678,6 +913,28 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
         </div>
       </div>
 
+      {/* Tab-switch warning (strict mode) */}
+      {showLeaveWarning && (
+        <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-[70] backdrop-blur-sm">
+           <div className="bg-white rounded-xl shadow-2xl p-8 max-w-md w-full animate-fade-in border border-red-200">
+              <div className="flex items-center justify-center w-14 h-14 bg-red-100 rounded-full mx-auto mb-5 ring-4 ring-red-50">
+                 <AlertTriangle className="w-7 h-7 text-red-600" />
+              </div>
+              <h3 className="text-xl font-bold text-center mb-2 text-slate-800">You left the exam window</h3>
+              <p className="text-slate-500 text-center mb-8 px-4">
+                In the real CBT, switching tabs or apps can be treated as malpractice. The clock kept running.
+                <br/>Times left so far: <span className="text-red-600 font-bold">{leaveCount}</span> (recorded with this attempt)
+              </p>
+              <button 
+                onClick={() => setShowLeaveWarning(false)}
+                className="w-full py-3 bg-slate-800 text-white rounded-xl font-bold hover:bg-slate-700 transition"
+              >
+                Return to Test
+              </button>
+           </div>
+        </div>
+      )}
+
       {/* Submit Modal */}
       {isSubmitModalOpen && (
         <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 backdrop-blur-sm">
@@ -685,10 +942,10 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
               <div className="flex items-center justify-center w-14 h-14 bg-yellow-100 rounded-full mx-auto mb-5 ring-4 ring-yellow-50">
                  <AlertTriangle className="w-7 h-7 text-yellow-600" />
               </div>
-              <h3 className="text-xl font-bold text-center mb-2 text-slate-800">Ready to Submit?</h3>
+              <h3 className="text-xl font-bold text-center mb-2 text-slate-800">{practice ? 'End Practice?' : 'Ready to Submit?'}</h3>
               <p className="text-slate-500 text-center mb-8 px-4">
                 You have answered <span className="text-slate-900 font-bold">{Object.values(responses).filter((r: UserResponse) => r.selectedOption !== null).length}</span> questions.
-                <br/>Time remaining: <span className="font-mono text-slate-900 font-bold">{formatTime(timeLeft)}</span>
+                {!practice && <><br/>Time remaining: <span className="font-mono text-slate-900 font-bold">{formatTime(timeLeft)}</span></>}
               </p>
               <div className="flex gap-4">
                  <button 
@@ -701,7 +958,7 @@ export const TestInterface: React.FC<TestInterfaceProps> = ({
                    onClick={() => { setIsSubmitModalOpen(false); finishTest(); }}
                    className="flex-1 py-3 bg-green-600 text-white rounded-xl font-bold hover:bg-green-700 shadow-lg hover:shadow-xl transition"
                  >
-                   Confirm Submit
+                   {practice ? 'End Session' : 'Confirm Submit'}
                  </button>
               </div>
            </div>
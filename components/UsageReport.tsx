@@ -0,0 +1,224 @@
+import React, { useState, useEffect } from 'react';
+import { AIUsageRecord } from '../types';
+import { getUsageRecords } from '../utils/db';
+import { summarizeUsage, formatCost, hasModelPrice, AI_FEATURE_LABELS, getDailyBudgetPreference, setDailyBudgetPreference, getDailyTokenBudgetPreference, setDailyTokenBudgetPreference, dayKey, OPTIONAL_AI_FEATURES } from '../utils/usage';
+import { getTodaySpend, getTodayTokens } from '../services/usageTracker';
+import { getProvider, LLMProvider } from '../services/llmProvider';
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { ArrowRight, Coins, Calendar, Layers, Wallet } from 'lucide-react';
+
+interface UsageReportProps {
+  onBackToDashboard: () => void;
+}
+
+// Days shown in the chart and table
+const DAYS_SHOWN = 14;
+
+export const UsageReport: React.FC<UsageReportProps> = ({ onBackToDashboard }) => {
+  const [records, setRecords] = useState<AIUsageRecord[] | null>(null);
+  const [budget, setBudget] = useState(getDailyBudgetPreference);
+  const [budgetInput, setBudgetInput] = useState(() => (budget > 0 ? String(budget) : ''));
+  const [tokenBudget, setTokenBudget] = useState(getDailyTokenBudgetPreference);
+  const [tokenBudgetInput, setTokenBudgetInput] = useState(() => (tokenBudget > 0 ? String(tokenBudget) : ''));
+  const [provider, setProvider] = useState<LLMProvider | null>(null);
+
+  useEffect(() => {
+    getProvider().then(setProvider).catch(e => console.warn("AI provider load failed", e));
+    getUsageRecords(Date.now() - DAYS_SHOWN * 24 * 60 * 60 * 1000)
+      .then(setRecords)
+      .catch(e => {
+        console.warn("Usage log load failed", e);
+        setRecords([]);
+      });
+  }, []);
+
+  const saveBudget = () => {
+    const value = parseFloat(budgetInput);
+    const next = Number.isFinite(value) && value > 0 ? value : 0;
+    setDailyBudgetPreference(next);
+    setBudget(next);
+    setBudgetInput(next > 0 ? String(next) : '');
+
+    const tokens = parseInt(tokenBudgetInput, 10);
+    const nextTokens = Number.isFinite(tokens) && tokens > 0 ? tokens : 0;
+    setDailyTokenBudgetPreference(nextTokens);
+    setTokenBudget(nextTokens);
+    setTokenBudgetInput(nextTokens > 0 ? String(nextTokens) : '');
+  };
+
+  const summary = summarizeUsage(records || []);
+  const todaySpend = getTodaySpend();
+  const todayBucket = summary.byDay.find(d => d.key === dayKey(Date.now()));
+  const todayTokens = getTodayTokens();
+  const overBudget = (budget > 0 && todaySpend >= budget) || (tokenBudget > 0 && todayTokens >= tokenBudget);
+  const budgetLeft = [
+    budget > 0 && formatCost(Math.max(0, budget - todaySpend)),
+    tokenBudget > 0 && `${Math.max(0, tokenBudget - todayTokens).toLocaleString()} tokens`
+  ].filter(Boolean).join(' / ');
+  const chartData = [...summary.byDay].reverse().map(d => ({ day: d.key.slice(5), cost: parseFloat(d.cost.toFixed(4)), tokens: d.totalTokens }));
+  const hasEstimates = (records || []).some(r => r.estimated);
+
+  return (
+    <div className="bg-gray-100 min-h-screen pb-24">
+      <div className="bg-slate-800 text-white py-12 px-4">
+         <div className="container mx-auto">
+            <h2 className="text-3xl font-bold mb-2">AI Usage</h2>
+            <p className="text-slate-300">
+              Tokens and estimated cost of every AI call over the last {DAYS_SHOWN} days{provider && ` • ${provider.id} / ${provider.model}`}
+            </p>
+         </div>
+      </div>
+
+      <div className="container mx-auto px-4 -mt-8">
+        {/* Summary */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+          <div className="bg-white p-6 rounded-lg shadow-md border-t-4 border-blue-500">
+            <p className="text-sm text-slate-500 font-medium uppercase">Today</p>
+            <h3 className="text-3xl font-bold text-slate-800">{formatCost(todaySpend)}</h3>
+            <p className="text-xs text-slate-500">{(todayBucket?.totalTokens || 0).toLocaleString()} tokens in {todayBucket?.calls || 0} calls</p>
+          </div>
+          <div className="bg-white p-6 rounded-lg shadow-md border-t-4 border-green-500">
+            <p className="text-sm text-slate-500 font-medium uppercase">Last {DAYS_SHOWN} days</p>
+            <h3 className="text-3xl font-bold text-slate-800">{formatCost(summary.total.cost)}</h3>
+            <p className="text-xs text-slate-500">{summary.total.totalTokens.toLocaleString()} tokens in {summary.total.calls} calls</p>
+          </div>
+          <div className={`bg-white p-6 rounded-lg shadow-md border-t-4 ${overBudget ? 'border-red-500' : 'border-purple-500'}`}>
+            <p className="text-sm text-slate-500 font-medium uppercase flex items-center"><Wallet className="w-4 h-4 mr-1.5" /> Daily budget</p>
+            <div className="flex gap-2 mt-2">
+              <input
+                type="number"
+                min="0"
+                step="0.05"
+                value={budgetInput}
+                onChange={(e) => setBudgetInput(e.target.value)}
+                placeholder="USD: no limit"
+                aria-label="Daily budget in USD"
+                className="flex-1 min-w-0 p-2 border border-slate-300 rounded-lg bg-white text-slate-800"
+              />
+              <input
+                type="number"
+                min="0"
+                step="1000"
+                value={tokenBudgetInput}
+                onChange={(e) => setTokenBudgetInput(e.target.value)}
+                placeholder="Tokens: no limit"
+                aria-label="Daily budget in tokens"
+                className="flex-1 min-w-0 p-2 border border-slate-300 rounded-lg bg-white text-slate-800"
+              />
+              <button onClick={saveBudget} className="px-4 py-2 bg-slate-800 text-white rounded-lg text-sm font-bold hover:bg-slate-700 transition">
+                Save
+              </button>
+            </div>
+            <p className={`text-xs mt-2 ${overBudget ? 'text-red-600 font-bold' : 'text-slate-500'}`}>
+              {budget === 0 && tokenBudget === 0
+                ? 'No limit set. Models without a listed price count as free, so cap them in tokens.'
+                : overBudget
+                  ? `Reached: ${OPTIONAL_AI_FEATURES.map(f => AI_FEATURE_LABELS[f].toLowerCase()).join(', ')} are off until tomorrow.`
+                  : `${budgetLeft} left today. Optional AI features turn off when either runs out.`}
+            </p>
+          </div>
+        </div>
+
+        {records === null ? (
+          <div className="bg-white p-12 rounded-lg shadow-md text-center text-slate-500">Loading usage…</div>
+        ) : records.length === 0 ? (
+          <div className="bg-white p-12 rounded-lg shadow-md text-center text-slate-500">
+            No AI calls recorded yet.
+          </div>
+        ) : (
+          <>
+            {/* Per day */}
+            <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+              <h3 className="text-lg font-bold text-slate-700 mb-6 flex items-center">
+                <Calendar className="w-5 h-5 mr-2 text-blue-500" /> Per Day
+              </h3>
+              <div className="h-56 mb-6">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="day" tick={{ fontSize: 12 }} />
+                    <YAxis tick={{ fontSize: 12 }} />
+                    <Tooltip formatter={(value: number, name: string) => name === 'cost' ? formatCost(value) : value.toLocaleString()} />
+                    <Bar dataKey="cost" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+              <UsageTable
+                label="Day"
+                rows={summary.byDay.map(d => ({ ...d, label: d.key }))}
+              />
+            </div>
+
+            {/* Per feature */}
+            <div className="bg-white p-6 rounded-lg shadow-md mb-8">
+              <h3 className="text-lg font-bold text-slate-700 mb-6 flex items-center">
+                <Layers className="w-5 h-5 mr-2 text-purple-500" /> Per Feature
+              </h3>
+              <UsageTable
+                label="Feature"
+                rows={summary.byFeature.map(f => ({
+                  ...f,
+                  label: `${AI_FEATURE_LABELS[f.key]}${OPTIONAL_AI_FEATURES.includes(f.key) ? ' (optional)' : ''}`
+                }))}
+              />
+            </div>
+
+            <p className="text-xs text-slate-500 mb-8 flex items-start gap-1.5">
+              <Coins className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+              Costs are estimates from list prices per million tokens.
+              {provider && !hasModelPrice(provider.model) && ` ${provider.model} has no listed price and counts as free.`}
+              {hasEstimates && ' Some calls reported no token counts; those were estimated from text length.'}
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="fixed bottom-0 left-0 right-0 p-4 bg-white/90 backdrop-blur-sm border-t border-slate-200 shadow-[0_-4px_6px_-1px_rgba(0,0,0,0.1)] z-40 flex justify-center">
+        <button
+            onClick={onBackToDashboard}
+            className="px-8 py-3 bg-slate-800 text-white rounded-full font-bold shadow-lg hover:bg-slate-700 hover:shadow-xl hover:-translate-y-0.5 transition-all flex items-center transform"
+        >
+            <ArrowRight className="w-5 h-5 mr-2" /> Back to Dashboard
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface UsageTableRow {
+  label: string;
+  calls: number;
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+const UsageTable: React.FC<{ label: string; rows: UsageTableRow[] }> = ({ label, rows }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs font-bold text-slate-500 uppercase border-b">
+          <th className="py-2 pr-4">{label}</th>
+          <th className="py-2 pr-4 text-right">Calls</th>
+          <th className="py-2 pr-4 text-right">Input tokens</th>
+          <th className="py-2 pr-4 text-right">Output tokens</th>
+          <th className="py-2 pr-4 text-right">Total tokens</th>
+          <th className="py-2 text-right">Est. cost</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {rows.map(row => (
+          <tr key={row.label}>
+            <td className="py-2 pr-4 font-medium text-slate-700">{row.label}</td>
+            <td className="py-2 pr-4 text-right">{row.calls}</td>
+            <td className="py-2 pr-4 text-right">{row.promptTokens.toLocaleString()}</td>
+            <td className="py-2 pr-4 text-right">{row.outputTokens.toLocaleString()}</td>
+            <td className="py-2 pr-4 text-right font-bold">{row.totalTokens.toLocaleString()}</td>
+            <td className="py-2 text-right font-bold">{formatCost(row.cost)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
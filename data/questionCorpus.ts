@@ -0,0 +1,217 @@
+import { Question, QuestionGroup, Subject, Difficulty } from '../types';
+
+// Bump when questions are added or corrected; seeding re-runs for older installs
+export const CORPUS_VERSION = 3;
+
+type Entry = [
+  topic: string, difficulty: Difficulty, text: string, options: string[], correctAnswer: number, explanation: string,
+  extras?: Pick<Question, 'media' | 'explanationMedia' | 'group'>
+];
+
+// Ids are stable across versions so a re-seed overwrites rather than duplicates
+const build = (prefix: string, subject: Subject, entries: Entry[]): Question[] =>
+  entries.map(([topic, difficulty, text, options, correctAnswer, explanation, extras], i) => ({
+    id: `corpus-${prefix}-${String(i + 1).padStart(3, '0')}`,
+    text,
+    options,
+    correctAnswer,
+    subject,
+    topic,
+    difficulty,
+    explanation,
+    pyqTag: 'Offline Practice Set',
+    ...extras
+  }));
+
+const CHORDS_FIGURE = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 200" width="200" height="200" font-family="sans-serif" font-size="12">
+<circle cx="100" cy="100" r="80" fill="none" stroke="#334155" stroke-width="2"/>
+<line x1="31" y1="60" x2="178" y2="118" stroke="#2563eb" stroke-width="2"/>
+<line x1="69" y1="26" x2="122" y2="177" stroke="#dc2626" stroke-width="2"/>
+<circle cx="90" cy="83" r="3" fill="#0f172a"/>
+<text x="18" y="58">A</text><text x="182" y="124">B</text><text x="60" y="20">C</text><text x="122" y="192">D</text><text x="96" y="78">P</text>
+</svg>`;
+
+const TEA_COFFEE_FIGURE = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 240 150" width="240" height="150" font-family="sans-serif" font-size="13">
+<rect x="2" y="2" width="236" height="146" fill="none" stroke="#334155"/>
+<circle cx="90" cy="75" r="55" fill="#22c55e" fill-opacity="0.25" stroke="#15803d"/>
+<circle cx="150" cy="75" r="55" fill="#f97316" fill-opacity="0.25" stroke="#c2410c"/>
+<text x="55" y="80">20</text><text x="113" y="80">10</text><text x="170" y="80">15</text>
+<text x="60" y="16">Tea 30</text><text x="140" y="16">Coffee 25</text><text x="200" y="140">5</text>
+</svg>`;
+
+// Sets: every member entry points at the same group, and members are listed together
+
+const PASSENGER_SET: QuestionGroup = {
+  id: 'corpus-set-m-001',
+  stem: "The table shows the number of passengers (in thousands) who boarded trains at a station in four months.",
+  media: [{ type: 'table', headers: ['Month', 'January', 'February', 'March', 'April'], rows: [['Passengers (thousands)', '120', '90', '150', '140']] }]
+};
+
+const ROW_SET: QuestionGroup = {
+  id: 'corpus-set-r-001',
+  stem: "Six friends P, Q, R, S, T and U sit in a row facing north. R sits at the extreme left end. U sits third to the right of R. Q sits to the immediate right of R. P is an immediate neighbour of both U and S."
+};
+
+const MATHEMATICS: Entry[] = [
+  ['Number System', 'Easy', "What is the unit digit of 7^35?", ["1", "3", "7", "9"], 1, "Unit digits of powers of 7 cycle 7, 9, 3, 1. 35 mod 4 = 3, so the unit digit is 3."],
+  ['Number System', 'Medium', "Which of the following numbers is divisible by 11?", ["123456", "918291", "245643", "370382"], 1, "Alternate digit sum difference: (1+2+1) - (9+8+9) = -22, a multiple of 11."],
+  ['Number System', 'Easy', "The sum of the first 20 natural numbers is:", ["190", "200", "210", "220"], 2, "n(n+1)/2 = 20 × 21 / 2 = 210."],
+  ['Number System', 'Hard', "What is the remainder when 2^31 is divided by 5?", ["1", "2", "3", "4"], 2, "2^4 ≡ 1 (mod 5). 2^31 = (2^4)^7 × 2^3 ≡ 8 ≡ 3."],
+  ['HCF & LCM', 'Easy', "Find the LCM of 12, 18 and 24.", ["36", "48", "72", "144"], 2, "12 = 2²·3, 18 = 2·3², 24 = 2³·3. LCM = 2³·3² = 72."],
+  ['HCF & LCM', 'Medium', "The HCF of two numbers is 12 and their LCM is 360. If one number is 72, find the other.", ["48", "60", "72", "90"], 1, "HCF × LCM = product. 12 × 360 / 72 = 60."],
+  ['HCF & LCM', 'Medium', "Find the least number which when divided by 6, 8 and 12 leaves remainder 4 in each case.", ["24", "28", "52", "76"], 1, "LCM(6, 8, 12) = 24. Required number = 24 + 4 = 28."],
+  ['HCF & LCM', 'Hard', "Three bells toll at intervals of 9, 12 and 15 minutes. If they toll together at 8:00 AM, when will they next toll together?", ["10:00 AM", "10:30 AM", "11:00 AM", "11:30 AM"], 2, "LCM(9, 12, 15) = 180 min = 3 hours after 8:00 AM."],
+  ['Decimals & Fractions', 'Easy', "Which is the largest fraction: 3/5, 5/8, 7/12, 2/3?", ["3/5", "5/8", "7/12", "2/3"], 3, "Decimals: 0.6, 0.625, 0.583, 0.667. 2/3 is largest."],
+  ['Decimals & Fractions', 'Easy', "0.25 × 0.4 = ?", ["0.01", "0.1", "1", "0.001"], 1, "25 × 4 = 100, with 3 decimal places: 0.100."],
+  ['Decimals & Fractions', 'Medium', "Express 0.363636... as a fraction.", ["4/11", "3/11", "36/100", "9/25"], 0, "Two repeating digits: 36/99 = 4/11."],
+  ['Decimals & Fractions', 'Medium', "(1/2 + 1/3) ÷ (1/2 − 1/3) = ?", ["1", "5", "6", "5/6"], 1, "(5/6) ÷ (1/6) = 5."],
+  ['Percentage', 'Easy', "What is 15% of 240?", ["24", "32", "36", "40"], 2, "10% = 24, 5% = 12. Total 36."],
+  ['Percentage', 'Medium', "If the price of sugar rises by 25%, by what percent must a household reduce consumption to keep expenditure unchanged?", ["20%", "25%", "15%", "30%"], 0, "Reduction = r/(100 + r) × 100 = 25/125 × 100 = 20%."],
+  ['Percentage', 'Medium', "A number is increased by 20% and then decreased by 20%. The net change is:", ["No change", "4% increase", "4% decrease", "2% decrease"], 2, "Net = a + b + ab/100 = 20 − 20 − 4 = −4%."],
+  ['Percentage', 'Hard', "In an election between two candidates, the winner got 58% of the valid votes and won by 1,920 votes. Find the total valid votes.", ["10,000", "12,000", "14,000", "16,000"], 1, "Margin = 58% − 42% = 16% = 1,920. 100% = 12,000."],
+  ['Ratio & Proportion', 'Easy', "If A:B = 3:4 and B:C = 8:9, then find A:C.", ["1:2", "3:2", "1:3", "2:3"], 3, "A/C = (A/B) × (B/C) = (3/4) × (8/9) = 2/3."],
+  ['Ratio & Proportion', 'Easy', "Find the fourth proportional to 4, 9 and 12.", ["18", "24", "27", "36"], 2, "4 : 9 = 12 : x, so x = 9 × 12 / 4 = 27."],
+  ['Ratio & Proportion', 'Medium', "₹1,200 is divided among A, B and C in the ratio 2:3:5. What is C's share?", ["₹240", "₹360", "₹500", "₹600"], 3, "C = 5/10 × 1,200 = ₹600."],
+  ['Ratio & Proportion', 'Hard', "Two numbers are in the ratio 3:5. If 9 is subtracted from each, the ratio becomes 12:23. Find the smaller number.", ["27", "33", "39", "55"], 1, "23(3x − 9) = 12(5x − 9) gives x = 11. Smaller = 3 × 11 = 33."],
+  ['Time & Work', 'Easy', "A can do a work in 10 days and B in 15 days. Together they finish it in:", ["5 days", "6 days", "8 days", "12.5 days"], 1, "Together = (10 × 15)/(10 + 15) = 6 days."],
+  ['Time & Work', 'Medium', "If 12 men can build a wall in 20 days, how many men are needed to build it in 15 days?", ["14", "15", "16", "18"], 2, "M1 × D1 = M2 × D2: 12 × 20 / 15 = 16."],
+  ['Time & Work', 'Medium', "A pipe fills a tank in 6 hours and another empties it in 9 hours. If both are opened together, the tank fills in:", ["12 hours", "15 hours", "18 hours", "24 hours"], 2, "Net rate = 1/6 − 1/9 = 1/18, so 18 hours."],
+  ['Time & Work', 'Hard', "A and B finish a work in 12 days, B and C in 15 days, C and A in 20 days. In how many days will A, B and C together finish it?", ["8", "10", "12", "15"], 1, "2(A + B + C) = 1/12 + 1/15 + 1/20 = 1/5, so A + B + C = 1/10: 10 days."],
+  ['Time & Distance', 'Easy', "Convert 72 km/h into m/s.", ["15", "18", "20", "25"], 2, "Multiply by 5/18: 72 × 5/18 = 20 m/s."],
+  ['Time & Distance', 'Medium', "A train 150 m long passes a pole in 15 seconds. Its speed is:", ["30 km/h", "36 km/h", "40 km/h", "54 km/h"], 1, "150/15 = 10 m/s = 10 × 18/5 = 36 km/h."],
+  ['Time & Distance', 'Medium', "A car goes to a place at 40 km/h and returns at 60 km/h. Its average speed for the round trip is:", ["48 km/h", "50 km/h", "52 km/h", "45 km/h"], 0, "Average = 2xy/(x + y) = 2 × 40 × 60 / 100 = 48 km/h."],
+  ['Time & Distance', 'Hard', "Two trains of length 120 m and 180 m run in opposite directions at 50 km/h and 40 km/h. How long do they take to cross each other?", ["10 s", "12 s", "15 s", "18 s"], 1, "Relative speed = 90 km/h = 25 m/s. Time = 300/25 = 12 s."],
+  ['Simple & Compound Interest', 'Easy', "Simple interest on ₹5,000 at 8% per annum for 3 years is:", ["₹1,000", "₹1,200", "₹1,500", "₹2,400"], 1, "SI = PRT/100 = 5,000 × 8 × 3 / 100 = ₹1,200."],
+  ['Simple & Compound Interest', 'Medium', "Compound interest on ₹10,000 at 10% per annum for 2 years, compounded annually, is:", ["₹2,000", "₹2,100", "₹2,200", "₹2,210"], 1, "Effective 2-year rate = 10 + 10 + 1 = 21%. 21% of 10,000 = ₹2,100."],
+  ['Simple & Compound Interest', 'Medium', "At what rate of simple interest will a sum double itself in 8 years?", ["10%", "12%", "12.5%", "15%"], 2, "Interest = principal, so R = 100/8 = 12.5%."],
+  ['Simple & Compound Interest', 'Hard', "The difference between CI and SI on a sum for 2 years at 5% per annum is ₹25. Find the sum.", ["₹5,000", "₹8,000", "₹10,000", "₹12,500"], 2, "Difference = P(R/100)². 25 = P/400, so P = ₹10,000."],
+  ['Profit & Loss', 'Easy', "An article bought for ₹400 is sold for ₹500. The profit percentage is:", ["20%", "25%", "30%", "100%"], 1, "Profit = 100 on 400 = 25%."],
+  ['Profit & Loss', 'Medium', "A shopkeeper marks an item 40% above cost price and gives a 25% discount. His profit percent is:", ["5%", "10%", "15%", "20%"], 0, "1.40 × 0.75 = 1.05, a 5% profit."],
+  ['Profit & Loss', 'Medium', "By selling an article for ₹720, a man loses 10%. At what price should he sell it to gain 15%?", ["₹880", "₹900", "₹920", "₹960"], 2, "CP = 720/0.9 = 800. SP = 800 × 1.15 = ₹920."],
+  ['Profit & Loss', 'Hard', "A dishonest dealer sells goods at cost price but uses a weight of 800 g for 1 kg. His gain percent is:", ["20%", "25%", "12.5%", "30%"], 1, "Gain = error/(true − error) × 100 = 200/800 × 100 = 25%."],
+  ['Mensuration', 'Easy', "The area of a rectangle with length 12 cm and breadth 8 cm is:", ["40 cm²", "80 cm²", "96 cm²", "108 cm²"], 2, "Area = l × b = 12 × 8 = 96 cm²."],
+  ['Mensuration', 'Medium', "The circumference of a circle is 44 cm. Its area is (π = 22/7):", ["144 cm²", "154 cm²", "176 cm²", "616 cm²"], 1, "2πr = 44 gives r = 7. Area = 22/7 × 49 = 154 cm²."],
+  ['Mensuration', 'Medium', "The volume of a cube whose total surface area is 150 cm² is:", ["100 cm³", "125 cm³", "150 cm³", "216 cm³"], 1, "6a² = 150 gives a = 5. Volume = 125 cm³."],
+  ['Mensuration', 'Hard', "A cylinder has radius 7 cm and height 10 cm. Its curved surface area is ($\\pi = \\frac{22}{7}$):", ["220 cm²", "440 cm²", "462 cm²", "1540 cm²"], 1, "$CSA = 2\\pi rh = 2 \\times \\frac{22}{7} \\times 7 \\times 10 = 440$ cm²."],
+  ['Algebra', 'Easy', "If 3x − 7 = 11, then x = ?", ["4", "5", "6", "7"], 2, "3x = 18, so x = 6."],
+  ['Algebra', 'Medium', "If x + 1/x = 4, then x² + 1/x² = ?", ["12", "14", "16", "18"], 1, "x² + 1/x² = (x + 1/x)² − 2 = 16 − 2 = 14."],
+  ['Algebra', 'Medium', "If a + b = 10 and ab = 21, then a² + b² = ?", ["58", "62", "79", "42"], 0, "a² + b² = (a + b)² − 2ab = 100 − 42 = 58."],
+  ['Algebra', 'Hard', "If x = 2 + √3, then x + 1/x = ?", ["2√3", "4", "2", "4 + 2√3"], 1, "1/x = 2 − √3 (rationalise), so x + 1/x = 4."],
+  ['Geometry', 'Easy', "The sum of the interior angles of a hexagon is:", ["540°", "620°", "720°", "900°"], 2, "(n − 2) × 180° = 4 × 180° = 720°."],
+  ['Geometry', 'Medium', "In a right-angled triangle, the two legs are 9 cm and 12 cm. The hypotenuse is:", ["13 cm", "15 cm", "17 cm", "21 cm"], 1, "3-4-5 triple scaled by 3: 9-12-15."],
+  ['Geometry', 'Medium', "The angles of a triangle are in the ratio 2:3:4. The largest angle is:", ["60°", "70°", "80°", "90°"], 2, "9 parts = 180°, so 4 parts = 80°."],
+  ['Geometry', 'Hard', "Chords AB and CD of a circle intersect at P inside the circle, as shown. If AP = 4 cm, PB = 6 cm and CP = 3 cm, then PD = ?", ["6 cm", "7 cm", "8 cm", "9 cm"], 2, "$AP \\times PB = CP \\times PD$: 24 = 3 × PD, so PD = 8 cm.",
+    { media: [{ type: 'figure', svg: CHORDS_FIGURE, alt: 'Circle with chords AB and CD intersecting at P' }] }],
+  ['Trigonometry', 'Easy', "The value of sin 30° + cos 60° is:", ["0", "1/2", "1", "√3"], 2, "1/2 + 1/2 = 1."],
+  ['Trigonometry', 'Medium', "If tan θ = 3/4 and θ is acute, then sin θ = ?", ["3/5", "4/5", "3/4", "5/3"], 0, "3-4-5 triangle: opposite 3, hypotenuse 5."],
+  ['Trigonometry', 'Medium', "The value of sin²45° + cos²30° is:", ["1", "5/4", "3/2", "3/4"], 1, "1/2 + 3/4 = 5/4."],
+  ['Trigonometry', 'Hard', "From a point 30 m from the foot of a vertical tower, the angle of elevation of its top is 60°. The height of the tower is:", ["30 m", "$15\\sqrt{3}$ m", "$30\\sqrt{3}$ m", "$10\\sqrt{3}$ m"], 2, "$h = 30 \\tan 60^\\circ = 30\\sqrt{3}$ m."],
+  ['Data Interpretation', 'Easy', "A student scored 60, 75, 80 and 85 in four tests. What is the average score?", ["70", "72.5", "75", "77.5"], 2, "Total 300 ÷ 4 = 75."],
+  ['Data Interpretation', 'Medium', "A company's sales were ₹40 lakh in 2021 and ₹50 lakh in 2022. The percentage growth is:", ["20%", "25%", "10%", "30%"], 1, "Growth = 10/40 × 100 = 25%."],
+  ['Data Interpretation', 'Medium', "In a pie chart of a monthly budget of ₹36,000, food takes a 90° sector. The amount spent on food is:", ["₹6,000", "₹9,000", "₹12,000", "₹18,000"], 1, "90° is 1/4 of 360°: 36,000 / 4 = ₹9,000."],
+  ['Data Interpretation', 'Hard', "The table shows a factory's production over five years. In how many years was production above the 5-year average?", ["1", "2", "3", "4"], 1, "Average = 750/5 = 150. Only 2022 (180) and 2023 (165) are above it.",
+    { media: [{ type: 'table', caption: 'Production (tonnes)', headers: ['Year', '2019', '2020', '2021', '2022', '2023'], rows: [['Tonnes', '120', '150', '135', '180', '165']] }] }],
+  ['Data Interpretation', 'Medium', "Refer to the passenger table. What is the average number of passengers per month (in thousands)?", ["120", "125", "130", "135"], 1, "Total = 500; 500 ÷ 4 = 125.", { group: PASSENGER_SET }],
+  ['Data Interpretation', 'Medium', "Refer to the passenger table. By what percentage did passengers increase from February to March?", ["50%", "60%", "66.67%", "75%"], 2, "Increase = 60/90 × 100 = 66.67%.", { group: PASSENGER_SET }],
+  ['Data Interpretation', 'Medium', "Refer to the passenger table. What is the ratio of passengers in January to those in April?", ["5 : 6", "6 : 7", "7 : 8", "3 : 4"], 1, "120 : 140 = 6 : 7.", { group: PASSENGER_SET }]
+];
+
+const REASONING: Entry[] = [
+  ['Analogies', 'Easy', "Doctor : Hospital :: Teacher : ?", ["Student", "School", "Book", "Class"], 1, "Workplace relation: a doctor works in a hospital, a teacher in a school."],
+  ['Analogies', 'Easy', "Bird : Nest :: Bee : ?", ["Hive", "Den", "Burrow", "Stable"], 0, "Dwelling relation: bees live in a hive."],
+  ['Analogies', 'Medium', "4 : 64 :: 6 : ?", ["36", "125", "216", "256"], 2, "Cube relation: 4³ = 64, 6³ = 216."],
+  ['Analogies', 'Hard', "ACE : FHJ :: KMO : ?", ["PRT", "PQR", "OQS", "QSU"], 0, "Each letter moves +5: K→P, M→R, O→T."],
+  ['Classification', 'Easy', "Find the odd one out.", ["Apple", "Mango", "Potato", "Banana"], 2, "Potato is a vegetable; the rest are fruits."],
+  ['Classification', 'Medium', "Find the odd number out.", ["27", "64", "125", "144"], 3, "27, 64 and 125 are perfect cubes; 144 is not."],
+  ['Classification', 'Medium', "Find the odd one out.", ["Mercury", "Venus", "Moon", "Mars"], 2, "The Moon is a satellite; the rest are planets."],
+  ['Classification', 'Hard', "Find the odd letter group out.", ["BDF", "HJL", "MOQ", "RTW"], 3, "Others follow +2, +2. RTW follows +2, +3."],
+  ['Series', 'Easy', "2, 6, 12, 20, 30, ?", ["40", "42", "44", "48"], 1, "n(n + 1): 6 × 7 = 42."],
+  ['Series', 'Medium', "3, 7, 15, 31, 63, ?", ["125", "126", "127", "128"], 2, "Each term × 2 + 1: 63 × 2 + 1 = 127."],
+  ['Series', 'Medium', "B, E, H, K, ?", ["L", "M", "N", "O"], 2, "Letters move +3: K + 3 = N."],
+  ['Series', 'Hard', "2, 3, 5, 9, 17, ?", ["31", "32", "33", "34"], 2, "Differences double: 1, 2, 4, 8, 16. 17 + 16 = 33."],
+  ['Coding-Decoding', 'Easy', "If CAT is coded as DBU, how is DOG coded?", ["EPH", "CNF", "EOG", "FQI"], 0, "Each letter +1: D→E, O→P, G→H."],
+  ['Coding-Decoding', 'Medium', "In a code, MONKEY is written as XDJMNL. How is TIGER written in that code?", ["QDFHS", "SHFDQ", "UJHFS", "QDFGS"], 0, "Reverse the word, then −1 each letter: REGIT → QDFHS."],
+  ['Coding-Decoding', 'Medium', "If a word is coded as the sum of its letters' alphabet positions, RAIN = 42. What is CLOUD?", ["52", "55", "57", "60"], 1, "C3 + L12 + O15 + U21 + D4 = 55."],
+  ['Coding-Decoding', 'Hard', "'sky is blue' is coded '4 7 9', 'blue is sea' is '9 2 7' and 'sea is deep' is '2 5 7'. What is the code for 'sky'?", ["4", "7", "9", "2"], 0, "is = 7, blue = 9, sea = 2, so sky = 4."],
+  ['Blood Relations', 'Easy', "Pointing to a boy, Riya said, 'He is the son of my father's only son.' How is the boy related to Riya?", ["Brother", "Nephew", "Son", "Cousin"], 1, "Her father's only son is her brother; his son is her nephew."],
+  ['Blood Relations', 'Medium', "A is the brother of B. B is the daughter of C. D is the father of C. How is A related to D?", ["Son", "Grandson", "Nephew", "Brother"], 1, "A is C's son and D is C's father, so A is D's grandson."],
+  ['Blood Relations', 'Medium', "X is the mother of Y, Y is the sister of Z, and Z is the father of W. How is X related to W?", ["Mother", "Aunt", "Grandmother", "Sister"], 2, "X is Z's mother, and Z is W's father."],
+  ['Blood Relations', 'Hard', "If P + Q means P is the father of Q and P × Q means P is the sister of Q, then A × B + C means A is C's:", ["Mother", "Aunt", "Sister", "Grandmother"], 1, "A is B's sister and B is C's father, so A is C's aunt."],
+  ['Puzzles', 'Easy', "Five friends have different heights. A is taller than B but shorter than C. D is the tallest and E is the shortest. Who is in the middle?", ["A", "B", "C", "E"], 0, "Order: D > C > A > B > E."],
+  ['Puzzles', 'Medium', "In a row of 40 students, Ravi is 14th from the left. What is his position from the right?", ["26th", "27th", "28th", "25th"], 1, "Right position = 40 − 14 + 1 = 27."],
+  ['Puzzles', 'Medium', "A clock shows 3:15. What is the angle between the hour and minute hands?", ["0°", "7.5°", "15°", "22.5°"], 1, "|30H − 5.5M| = |90 − 82.5| = 7.5°."],
+  ['Puzzles', 'Hard', "If the 3rd day of a month is a Monday, which day is the 24th of that month?", ["Sunday", "Monday", "Tuesday", "Wednesday"], 1, "24 − 3 = 21 days, exactly 3 weeks later."],
+  ['Seating Arrangement', 'Easy', "A, B, C, D and E sit in a row facing north. C is at the extreme left, A is in the middle, B is to the immediate right of A and E is at the extreme right. Who sits between C and A?", ["B", "D", "E", "Cannot be determined"], 1, "Left to right: C, D, A, B, E."],
+  ['Seating Arrangement', 'Medium', "A, B, C and D sit around a square table facing the centre. A sits opposite C and B is to the immediate left of A. Who is to the immediate right of A?", ["B", "C", "D", "Cannot be determined"], 2, "B and D flank A; B is on the left, so D is on the right."],
+  ['Seating Arrangement', 'Medium', "In a row of children facing north, Meena is 7th from the left and Sita is 12th from the left. How many children sit between them?", ["3", "4", "5", "6"], 1, "12 − 7 − 1 = 4."],
+  ['Seating Arrangement', 'Hard', "Eight people sit around a circular table facing the centre. How many people sit between a person and the one directly opposite, counting one side only?", ["2", "3", "4", "5"], 1, "Opposite is 4 seats away, leaving 3 people in between."],
+  ['Direction Sense', 'Easy', "Ram walks 5 km north, then turns right and walks 3 km. Which direction is he facing now?", ["North", "South", "East", "West"], 2, "A right turn from north faces east."],
+  ['Direction Sense', 'Medium', "A man walks 6 km east and then 8 km north. How far is he from the starting point?", ["10 km", "12 km", "14 km", "8 km"], 0, "√(6² + 8²) = 10 km."],
+  ['Direction Sense', 'Medium', "Amit faces south, turns 90° clockwise and then 180° anticlockwise. Which direction is he facing now?", ["North", "South", "East", "West"], 2, "South → clockwise 90° = West → 180° = East."],
+  ['Direction Sense', 'Hard', "From point A, Sunil walks 10 m west, turns left and walks 5 m, turns left and walks 10 m, then turns right and walks 5 m. Where is he with respect to A?", ["5 m South", "10 m South", "10 m North", "15 m South"], 1, "West and east legs cancel; the two 5 m legs are both south."],
+  ['Syllogism', 'Easy', "Statements: All cats are animals. All animals are living beings. Which conclusion follows?", ["All cats are living beings", "All living beings are cats", "No cat is a living being", "Some animals are not cats"], 0, "All + All = All: cats ⊂ animals ⊂ living beings."],
+  ['Syllogism', 'Medium', "Statements: Some pens are books. All books are bags. Which conclusion follows?", ["All pens are bags", "Some pens are bags", "No bag is a pen", "All bags are books"], 1, "Some + All = Some: the pens that are books are bags."],
+  ['Syllogism', 'Medium', "Statements: No fruit is a vegetable. All carrots are vegetables. Which conclusion follows?", ["Some carrots are fruits", "All fruits are carrots", "No carrot is a fruit", "Some vegetables are fruits"], 2, "Carrots lie inside vegetables, which share nothing with fruits."],
+  ['Syllogism', 'Hard', "Statements: All roses are flowers. Some flowers are red. Conclusions: I. Some roses are red. II. Some flowers are roses.", ["Only I follows", "Only II follows", "Both follow", "Neither follows"], 1, "II follows by conversion of 'All roses are flowers'; I is only possible."],
+  ['Venn Diagrams', 'Easy', "Which diagram best represents Dogs, Cats and Animals?", ["Three separate circles", "Two separate circles inside a bigger circle", "Three concentric circles", "Two overlapping circles inside a bigger circle"], 1, "Dogs and cats are disjoint, and both are animals."],
+  ['Venn Diagrams', 'Medium', "In a class of 50, 30 like tea, 25 like coffee and 10 like both. How many like neither?", ["5", "10", "15", "0"], 0, "Tea or coffee = 30 + 25 − 10 = 45. Neither = 5.",
+    { explanationMedia: [{ type: 'figure', svg: TEA_COFFEE_FIGURE, alt: 'Venn diagram: 20 tea only, 10 both, 15 coffee only, 5 neither' }] }],
+  ['Venn Diagrams', 'Medium', "Which diagram best represents Delhi, India and Asia?", ["Three concentric circles", "Three separate circles", "Two overlapping circles", "One circle inside one of two separate circles"], 0, "Delhi ⊂ India ⊂ Asia."],
+  ['Venn Diagrams', 'Hard', "Of 100 people, 60 read Hindi, 50 read English and 20 read both. How many read only English?", ["20", "30", "40", "50"], 1, "Only English = 50 − 20 = 30."],
+  ['Data Sufficiency', 'Medium', "What is the value of x? I. 2x + 3 = 11. II. x is an even number.", ["I alone is sufficient", "II alone is sufficient", "Both together are needed", "Neither is sufficient"], 0, "I gives x = 4; II gives no single value."],
+  ['Data Sufficiency', 'Medium', "Is A taller than B? I. A is taller than C. II. C is taller than B.", ["I alone is sufficient", "II alone is sufficient", "Both together are needed", "Neither is sufficient"], 2, "Only together: A > C > B."],
+  ['Data Sufficiency', 'Easy', "What day is today? I. Yesterday was Sunday. II. Tomorrow is Tuesday.", ["I alone is sufficient", "II alone is sufficient", "Either I or II alone is sufficient", "Both together are needed"], 2, "Each statement alone shows today is Monday."],
+  ['Data Sufficiency', 'Hard', "What is the two-digit number? I. The sum of its digits is 9. II. The tens digit is twice the units digit.", ["I alone is sufficient", "II alone is sufficient", "Both together are needed", "Neither is sufficient"], 2, "Together: 2u + u = 9 gives u = 3, number = 63."],
+  ['Seating Arrangement', 'Medium', "Based on the arrangement above, who sits at the extreme right end?", ["P", "S", "T", "U"], 1, "Order from left: R, Q, T, U, P, S.", { group: ROW_SET }],
+  ['Seating Arrangement', 'Medium', "Based on the arrangement above, who sits exactly between Q and U?", ["P", "R", "T", "S"], 2, "Order from left: R, Q, T, U, P, S; T is between Q and U.", { group: ROW_SET }],
+  ['Seating Arrangement', 'Medium', "Based on the arrangement above, how many people sit between R and P?", ["2", "3", "4", "1"], 1, "R is 1st and P is 5th, so Q, T and U sit between them.", { group: ROW_SET }]
+];
+
+const AWARENESS: Entry[] = [
+  ['Current Affairs', 'Easy', "Which country hosted the G20 Leaders' Summit in September 2023?", ["Indonesia", "India", "Brazil", "Japan"], 1, "The 18th G20 Summit was held in New Delhi."],
+  ['Current Affairs', 'Medium', "Chandrayaan-3's lander touched down near which region of the Moon in August 2023?", ["North pole", "Equator", "South pole", "Far side equator"], 2, "India became the first nation to land near the lunar south pole."],
+  ['Current Affairs', 'Easy', "Which city hosted the 2024 Summer Olympics?", ["Tokyo", "Los Angeles", "Paris", "London"], 2, "Paris hosted the XXXIII Olympiad in 2024."],
+  ['Current Affairs', 'Medium', "India's first space-based solar observatory mission, launched by ISRO in 2023, is:", ["Aditya-L1", "Surya-1", "Mangalyaan-2", "NISAR"], 0, "Aditya-L1 studies the Sun from the L1 Lagrange point."],
+  ['Indian History', 'Easy', "Who founded the Maurya Empire?", ["Ashoka", "Bindusara", "Chandragupta Maurya", "Bimbisara"], 2, "Chandragupta Maurya, guided by Chanakya, around 321 BCE."],
+  ['Indian History', 'Medium', "The Battle of Plassey was fought in:", ["1757", "1764", "1857", "1761"], 0, "Plassey 1757; Buxar 1764."],
+  ['Indian History', 'Medium', "Who gave the slogan 'Do or Die' during the Quit India Movement?", ["Subhas Chandra Bose", "Mahatma Gandhi", "Bal Gangadhar Tilak", "Jawaharlal Nehru"], 1, "Gandhi, at Gowalia Tank, Bombay, August 1942."],
+  ['Indian History', 'Hard', "The Dandi March (Salt Satyagraha) began in which year?", ["1919", "1920", "1930", "1942"], 2, "12 March 1930, from Sabarmati Ashram to Dandi."],
+  ['Geography', 'Easy', "Which is the longest river in India?", ["Yamuna", "Godavari", "Ganga", "Brahmaputra"], 2, "The Ganga flows about 2,525 km within India."],
+  ['Geography', 'Medium', "The Tropic of Cancer does NOT pass through which state?", ["Gujarat", "Odisha", "Tripura", "Jharkhand"], 1, "It crosses 8 states: Gujarat, Rajasthan, MP, Chhattisgarh, Jharkhand, WB, Tripura, Mizoram."],
+  ['Geography', 'Medium', "The Palk Strait separates India from:", ["Maldives", "Sri Lanka", "Myanmar", "Bangladesh"], 1, "It lies between Tamil Nadu and northern Sri Lanka."],
+  ['Geography', 'Hard', "Loktak Lake is located in which state?", ["Assam", "Manipur", "Mizoram", "Meghalaya"], 1, "Known for its floating phumdis and Keibul Lamjao National Park."],
+  ['Polity', 'Easy', "Who is the constitutional head of India?", ["Prime Minister", "President", "Chief Justice", "Vice President"], 1, "Executive power is vested in the President (Article 53)."],
+  ['Polity', 'Medium', "Fundamental Rights are contained in which Part of the Constitution?", ["Part II", "Part III", "Part IV", "Part V"], 1, "Part III, Articles 12 to 35."],
+  ['Polity', 'Medium', "The minimum age to become a member of the Lok Sabha is:", ["18", "21", "25", "30"], 2, "25 years for Lok Sabha; 30 for Rajya Sabha."],
+  ['Polity', 'Hard', "Which Article of the Constitution abolishes untouchability?", ["Article 14", "Article 17", "Article 19", "Article 21"], 1, "Article 17 abolishes untouchability in any form."],
+  ['Economics', 'Easy', "Which institution regulates monetary policy in India?", ["SEBI", "RBI", "NITI Aayog", "Finance Commission"], 1, "The RBI's Monetary Policy Committee sets the policy rate."],
+  ['Economics', 'Medium', "GST was implemented in India from:", ["1 April 2017", "1 July 2017", "1 January 2018", "1 April 2016"], 1, "Introduced by the 101st Constitutional Amendment, effective 1 July 2017."],
+  ['Economics', 'Medium', "The repo rate is the rate at which:", ["Banks lend to the public", "RBI lends to commercial banks", "Banks borrow from the public", "RBI borrows from the government"], 1, "Repo: RBI lends short-term to banks against securities."],
+  ['Economics', 'Hard', "NITI Aayog replaced which body in 2015?", ["Finance Commission", "Planning Commission", "National Development Council", "Inter-State Council"], 1, "The Planning Commission (1950) was replaced on 1 January 2015."],
+  ['General Science', 'Medium', "Which vitamin is water soluble?", ["Vitamin A", "Vitamin D", "Vitamin C", "Vitamin K"], 2, "Mnemonic 'WBC': Water soluble = B & C. Fat soluble are 'KEDA'."],
+  ['General Science', 'Easy', "What is the chemical formula of common salt?", ["NaCl", "KCl", "NaOH", "Na2CO3"], 0, "Sodium chloride: NaCl."],
+  ['General Science', 'Medium', "The SI unit of electric current is:", ["Volt", "Ohm", "Ampere", "Watt"], 2, "Ampere is one of the seven SI base units."],
+  ['General Science', 'Hard', "Which lens is used to correct myopia (short-sightedness)?", ["Convex", "Concave", "Cylindrical", "Bifocal"], 1, "A concave (diverging) lens moves the image back onto the retina."],
+  ['Indian Railways', 'Easy', "India's first passenger train ran in 1853 between:", ["Howrah and Hooghly", "Bori Bunder and Thane", "Madras and Arcot", "Delhi and Agra"], 1, "16 April 1853, a 34 km run from Bori Bunder (Mumbai) to Thane."],
+  ['Indian Railways', 'Medium', "The first Vande Bharat Express was flagged off in 2019 on which route?", ["New Delhi–Varanasi", "Mumbai–Ahmedabad", "Chennai–Mysuru", "New Delhi–Katra"], 0, "It began service on 15 February 2019."],
+  ['Indian Railways', 'Medium', "The headquarters of Northern Railway is in:", ["Lucknow", "New Delhi", "Prayagraj", "Jaipur"], 1, "Northern Railway is headquartered at Baroda House, New Delhi."],
+  ['Indian Railways', 'Hard', "The Research Designs and Standards Organisation (RDSO) of Indian Railways is headquartered at:", ["New Delhi", "Lucknow", "Varanasi", "Chennai"], 1, "RDSO, the railways' R&D wing, is based in Lucknow."],
+  ['Sports', 'Easy', "How many players of one team are on the field in a cricket match?", ["9", "10", "11", "12"], 2, "Each side fields 11 players."],
+  ['Sports', 'Medium', "The Durand Cup is associated with which sport?", ["Hockey", "Football", "Cricket", "Polo"], 1, "Started in 1888, one of the oldest football tournaments."],
+  ['Sports', 'Medium', "Neeraj Chopra won Olympic gold at Tokyo 2020 in which event?", ["Shot put", "Javelin throw", "Discus throw", "Long jump"], 1, "His 87.58 m javelin throw won India's first Olympic athletics gold."],
+  ['Sports', 'Hard', "The term 'Bully' is associated with which sport?", ["Golf", "Hockey", "Badminton", "Polo"], 1, "A bully-off restarts play in hockey."],
+  ['Books & Authors', 'Easy', "Who wrote 'Gitanjali'?", ["Bankim Chandra Chattopadhyay", "Rabindranath Tagore", "Sarojini Naidu", "Premchand"], 1, "Tagore won the 1913 Nobel Prize in Literature for it."],
+  ['Books & Authors', 'Medium', "'Wings of Fire' is the autobiography of:", ["A. P. J. Abdul Kalam", "Vikram Sarabhai", "Homi J. Bhabha", "C. V. Raman"], 0, "Co-written with Arun Tiwari, published in 1999."],
+  ['Books & Authors', 'Medium', "Who wrote 'The Discovery of India'?", ["Mahatma Gandhi", "Jawaharlal Nehru", "B. R. Ambedkar", "Sardar Patel"], 1, "Written by Nehru in Ahmednagar Fort prison, 1942-46."],
+  ['Books & Authors', 'Hard', "The Hindi novel 'Godan' was written by:", ["Premchand", "Jaishankar Prasad", "Harivansh Rai Bachchan", "Mahadevi Verma"], 0, "Premchand's last completed novel, published in 1936."],
+  ['Science & Technology', 'Easy', "ISRO's headquarters is located in:", ["Chennai", "Sriharikota", "Bengaluru", "Thiruvananthapuram"], 2, "ISRO HQ is at Antariksh Bhavan, Bengaluru."],
+  ['Science & Technology', 'Easy', "What does 'CPU' stand for?", ["Central Processing Unit", "Control Program Unit", "Central Peripheral Unit", "Computer Processing Utility"], 0, "The CPU executes program instructions."],
+  ['Science & Technology', 'Medium', "India's first satellite, launched in 1975, was:", ["Rohini", "Bhaskara", "Aryabhata", "INSAT-1A"], 2, "Aryabhata was launched by a Soviet rocket on 19 April 1975."],
+  ['Science & Technology', 'Hard', "Which launch vehicle carried Chandrayaan-3?", ["PSLV-C25", "GSLV Mk II", "LVM3", "SSLV"], 2, "LVM3-M4 launched it from Sriharikota on 14 July 2023."]
+];
+
+export const QUESTION_CORPUS: Question[] = [
+  ...build('m', 'Mathematics', MATHEMATICS),
+  ...build('r', 'General Intelligence & Reasoning', REASONING),
+  ...build('g', 'General Awareness', AWARENESS)
+];
@@ -0,0 +1,33 @@
+import { existsSync } from "node:fs";
+import { LLMConfig, DEFAULT_MODELS, DEFAULT_OPENAI_BASE_URL, resolveProviderId } from "../services/llmProvider";
+
+// Same .env.local as the Vite build; variables already set in the environment win
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+export interface ServerConfig {
+  port: number;
+  // Requests one client may make per minute, over all AI routes
+  clientRequestsPerMinute: number;
+  // Tokens all clients together may use per day; 0 means no cap
+  dailyTokenLimit: number;
+  // Take the client address from X-Forwarded-For; only behind a reverse proxy that sets it
+  trustProxy: boolean;
+  llm: LLMConfig;
+}
+
+export const getServerConfig = (): ServerConfig => {
+  const provider = resolveProviderId(process.env.AI_PROVIDER);
+  return {
+    port: Number(process.env.API_PORT) || 8787,
+    clientRequestsPerMinute: Number(process.env.API_CLIENT_REQUESTS_PER_MINUTE) || 20,
+    dailyTokenLimit: process.env.API_DAILY_TOKEN_LIMIT !== undefined ? Math.max(0, Number(process.env.API_DAILY_TOKEN_LIMIT) || 0) : 1_000_000,
+    trustProxy: process.env.TRUST_PROXY === '1',
+    llm: {
+      provider,
+      model: process.env.AI_MODEL || DEFAULT_MODELS[provider],
+      baseUrl: provider === 'openai' ? (process.env.AI_BASE_URL || DEFAULT_OPENAI_BASE_URL) : undefined,
+      apiKey: provider === 'gemini' ? process.env.GEMINI_API_KEY : process.env.AI_API_KEY,
+      requestsPerMinute: Number(process.env.AI_REQUESTS_PER_MINUTE) || undefined
+    }
+  };
+};
@@ -0,0 +1,36 @@
+import { dayKey } from "../utils/usage";
+
+export interface DailyTokenLimit {
+  isSpent: () => boolean;
+  add: (tokens: number) => void;
+  remaining: () => number | null; // null: no limit
+}
+
+// Tokens the server may spend per local calendar day, over every client; 0 turns it off.
+// This is what protects the key: the browser's daily budget is only a per-device preference.
+export const createDailyTokenLimit = (tokensPerDay: number): DailyTokenLimit => {
+  let day = dayKey(Date.now());
+  let used = 0;
+
+  const rollOver = () => {
+    const now = dayKey(Date.now());
+    if (now === day) return;
+    day = now;
+    used = 0;
+  };
+
+  return {
+    isSpent: () => {
+      rollOver();
+      return tokensPerDay > 0 && used >= tokensPerDay;
+    },
+    add: (tokens) => {
+      rollOver();
+      used += tokens;
+    },
+    remaining: () => {
+      rollOver();
+      return tokensPerDay > 0 ? Math.max(0, tokensPerDay - used) : null;
+    }
+  };
+};
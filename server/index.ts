@@ -0,0 +1,192 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { existsSync, readFileSync, statSync } from "node:fs";
+import path from "node:path";
+import { AIFeature } from "../types";
+import { AIErrorCode, AIServiceError, isAIServiceError } from "../services/aiErrors";
+import { createProvider, LLMProvider } from "../services/llmProvider";
+import { configureScheduler, scheduleRequest } from "../services/requestScheduler";
+import { buildRequest } from "../services/prompts";
+import { estimateTokens } from "../utils/usage";
+import { AI_ENDPOINTS, HEALTH_ENDPOINT } from "../services/proxyProvider";
+import { getServerConfig } from "./config";
+import { createRateLimiter } from "./rateLimit";
+import { createDailyTokenLimit } from "./dailyLimit";
+import { validateInput } from "./validation";
+
+// Small JSON bodies only: the inputs are a question or a handful of settings
+const MAX_BODY_BYTES = 16 * 1024;
+const STATIC_DIR = path.resolve('dist');
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2'
+};
+
+const config = getServerConfig();
+// Loaded before the server starts listening, so every handler can use it directly
+let provider: LLMProvider;
+const limiter = createRateLimiter(config.clientRequestsPerMinute);
+const dailyLimit = createDailyTokenLimit(config.dailyTokenLimit);
+
+// Route -> the features it serves, from the client's own table
+const ROUTES = new Map<string, AIFeature[]>();
+(Object.entries(AI_ENDPOINTS) as [AIFeature, string][]).forEach(([feature, route]) => {
+  ROUTES.set(route, [...(ROUTES.get(route) || []), feature]);
+});
+
+class RequestError extends Error {
+  constructor(public status: number, public code: AIErrorCode | 'BAD_REQUEST', message: string) {
+    super(message);
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const clientOf = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (config.trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+const readJsonBody = (req: IncomingMessage): Promise<unknown> => new Promise((resolve, reject) => {
+  if (!(req.headers['content-type'] || '').startsWith('application/json')) {
+    reject(new RequestError(415, 'BAD_REQUEST', "Expected a JSON body"));
+    return;
+  }
+  if (Number(req.headers['content-length']) > MAX_BODY_BYTES) {
+    reject(new RequestError(413, 'BAD_REQUEST', "Request body is too large"));
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const onData = (chunk: Buffer) => {
+    size += chunk.length;
+    // A body streamed without a length is refused once it goes over; the connection is
+    // closed after the 413 is sent, which stops the rest of it
+    if (size > MAX_BODY_BYTES) {
+      req.off('data', onData);
+      reject(new RequestError(413, 'BAD_REQUEST', "Request body is too large"));
+      return;
+    }
+    chunks.push(chunk);
+  };
+  req.on('data', onData);
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(new RequestError(400, 'BAD_REQUEST', "Request body is not valid JSON"));
+    }
+  });
+  req.on('error', reject);
+});
+
+// Upstream 429s and outages come back as 429 / 503, the only statuses the client retries
+const upstreamStatus = (code: AIErrorCode, status: number | undefined): number => {
+  if (code === 'NO_API_KEY') return 500;
+  if (status === 429) return 429;
+  if (status === undefined || status >= 500) return 503;
+  return 502;
+};
+
+const handleAI = async (req: IncomingMessage, res: ServerResponse, features: AIFeature[]) => {
+  if (req.method !== 'POST') throw new RequestError(405, 'BAD_REQUEST', "Use POST");
+
+  const retryAfter = limiter.take(clientOf(req));
+  if (retryAfter > 0) {
+    sendJson(res, 429, { code: 'RATE_LIMITED', message: "Too many AI requests, slow down" }, { 'Retry-After': String(Math.ceil(retryAfter / 1000)) });
+    return;
+  }
+
+  if (dailyLimit.isSpent()) {
+    throw new RequestError(403, 'BUDGET_EXCEEDED', "The server's daily AI allowance is used up; it resets tomorrow");
+  }
+
+  const body = await readJsonBody(req) as { feature?: unknown; input?: unknown } | null;
+  const feature = features.find(f => f === body?.feature);
+  if (!feature) throw new RequestError(400, 'BAD_REQUEST', `feature must be one of: ${features.join(', ')}`);
+  const result = validateInput(feature, body?.input);
+  if (result.ok === false) throw new RequestError(400, 'BAD_REQUEST', result.reason);
+
+  // A client that goes away (e.g. leaves the test) cancels the upstream call too
+  const controller = new AbortController();
+  res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+
+  try {
+    const request = buildRequest(feature, result.input);
+    // Every client shares the backend's quota, so upstream calls queue in the same scheduler the
+    // browser uses, under the provider's own limits (e.g. Gemini's free tier)
+    const { text, usage } = await scheduleRequest(feature, signal => {
+      if (controller.signal.aborted) throw new AIServiceError('CANCELLED', "Client went away");
+      return provider.generate(request, AbortSignal.any([signal, controller.signal]));
+    });
+    dailyLimit.add((usage || estimateTokens(request.prompt, text)).totalTokens);
+    sendJson(res, 200, { text, usage, model: provider.model });
+  } catch (e) {
+    if (controller.signal.aborted) return;
+    if (!isAIServiceError(e)) throw e;
+    console.warn(`${feature} request failed:`, e.message, e.cause ?? '');
+    sendJson(res, upstreamStatus(e.code, e.status), { code: e.code, message: e.message });
+  }
+};
+
+// Serves the built app (npm run build) so one process is enough in production
+const serveStatic = (req: IncomingMessage, res: ServerResponse) => {
+  let urlPath: string;
+  try {
+    urlPath = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+  } catch {
+    throw new RequestError(400, 'BAD_REQUEST', "Malformed path");
+  }
+  let file = path.join(STATIC_DIR, urlPath);
+  if (!file.startsWith(STATIC_DIR + path.sep)) throw new RequestError(404, 'BAD_REQUEST', "Not found");
+  if (!existsSync(file) || statSync(file).isDirectory()) file = path.join(STATIC_DIR, 'index.html');
+  if (!existsSync(file)) throw new RequestError(404, 'BAD_REQUEST', "Not found; run npm run build for the app itself");
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(file)] || 'application/octet-stream' });
+  res.end(readFileSync(file));
+};
+
+const server = createServer(async (req, res) => {
+  const route = new URL(req.url || '/', 'http://localhost').pathname;
+  try {
+    if (route === HEALTH_ENDPOINT) {
+      sendJson(res, 200, { provider: provider.id, model: provider.model, configured: provider.isConfigured() });
+    } else if (ROUTES.has(route)) {
+      await handleAI(req, res, ROUTES.get(route)!);
+    } else if (route.startsWith('/api/')) {
+      throw new RequestError(404, 'BAD_REQUEST', "Not found");
+    } else if (req.method === 'GET' || req.method === 'HEAD') {
+      serveStatic(req, res);
+    } else {
+      throw new RequestError(405, 'BAD_REQUEST', "Method not allowed");
+    }
+  } catch (e) {
+    if (res.headersSent) return;
+    if (e instanceof RequestError && e.status === 413) {
+      // The rest of an oversized body is never read
+      res.on('finish', () => req.destroy());
+      sendJson(res, e.status, { code: e.code, message: e.message }, { Connection: 'close' });
+    } else if (e instanceof RequestError) {
+      sendJson(res, e.status, { code: e.code, message: e.message });
+    } else {
+      console.error(`Unhandled error on ${route}:`, e);
+      sendJson(res, 500, { code: 'REQUEST_FAILED', message: "Internal server error" });
+    }
+  }
+});
+
+createProvider(config.llm).then(loaded => {
+  provider = loaded;
+  configureScheduler(provider.limits);
+  server.listen(config.port, () => {
+    console.log(`AI proxy listening on http://localhost:${config.port} (${provider.id} / ${provider.model}${provider.isConfigured() ? '' : ', NOT configured'})`);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createRateLimiter } from './rateLimit';
+
+afterEach(() => vi.useRealTimers());
+
+describe('createRateLimiter', () => {
+  it('allows a minute of requests at once, then says how long to wait', () => {
+    vi.useFakeTimers();
+    const limiter = createRateLimiter(3);
+    expect([1, 2, 3].map(() => limiter.take('a'))).toEqual([0, 0, 0]);
+    expect(limiter.take('a')).toBe(20_000);
+
+    vi.advanceTimersByTime(20_000);
+    expect(limiter.take('a')).toBe(0);
+  });
+
+  it('keeps a bucket per client', () => {
+    const limiter = createRateLimiter(1);
+    expect(limiter.take('a')).toBe(0);
+    expect(limiter.take('a')).toBeGreaterThan(0);
+    expect(limiter.take('b')).toBe(0);
+  });
+});
@@ -0,0 +1,35 @@
+// Buckets idle this long are full again and can be forgotten
+const IDLE_MS = 10 * 60 * 1000;
+
+export interface RateLimiter {
+  // 0 when the request may go ahead, else the ms until the client's next request is allowed
+  take: (client: string) => number;
+}
+
+// One token bucket per client, holding up to a minute's worth of requests
+export const createRateLimiter = (requestsPerMinute: number): RateLimiter => {
+  const buckets = new Map<string, { tokens: number; lastRefill: number }>();
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < IDLE_MS) return;
+    lastSweep = now;
+    buckets.forEach((bucket, client) => {
+      if (now - bucket.lastRefill > IDLE_MS) buckets.delete(client);
+    });
+  };
+
+  return {
+    take: (client) => {
+      const now = Date.now();
+      sweep(now);
+      const bucket = buckets.get(client) || { tokens: requestsPerMinute, lastRefill: now };
+      bucket.tokens = Math.min(requestsPerMinute, bucket.tokens + ((now - bucket.lastRefill) * requestsPerMinute) / 60000);
+      bucket.lastRefill = now;
+      buckets.set(client, bucket);
+      if (bucket.tokens < 1) return Math.ceil(((1 - bucket.tokens) * 60000) / requestsPerMinute);
+      bucket.tokens -= 1;
+      return 0;
+    }
+  };
+};
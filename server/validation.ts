@@ -0,0 +1,126 @@
+import { Subject, Difficulty, AIFeature, SUBJECT_TOPICS } from "../types";
+import { AIInputs, QuestionContext, MAX_QUESTION_BATCH, MAX_FLASHCARD_TOPICS } from "../services/prompts";
+import { GROUP_TOPICS, MIN_GROUP_SIZE, MAX_GROUP_SIZE } from "../utils/questionGroups";
+
+export type InputValidationResult<F extends AIFeature> =
+  | { ok: true; input: AIInputs[F] }
+  | { ok: false; reason: string };
+
+const SUBJECTS = Object.keys(SUBJECT_TOPICS) as Subject[];
+const TOPICS = SUBJECTS.flatMap(subject => SUBJECT_TOPICS[subject]);
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+// Generous for real questions, small enough that nobody gets free long-form prompts
+const MAX_TEXT = 2000;
+const MAX_OPTION = 300;
+const MAX_STEM = 4000;
+const MAX_EXPLANATION = 1000;
+const MAX_QUERY = 500;
+const MAX_TOPIC = 80;
+const MAX_QUESTIONS_PER_TEST = 500;
+
+// Thrown inside a validator with the reason the input was refused
+class InvalidInput extends Error {}
+
+const fail = (reason: string): never => { throw new InvalidInput(reason); };
+
+const asObject = (value: unknown, field: string): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : fail(`${field} must be an object`);
+
+const asText = (value: unknown, field: string, max: number): string =>
+  typeof value === 'string' && value.trim() && value.length <= max ? value : fail(`${field} must be text of at most ${max} characters`);
+
+// For fields the app itself may leave empty, e.g. an explanation the model left out
+const asOptionalText = (value: unknown, field: string, max: number): string =>
+  value === undefined || value === null ? '' : typeof value === 'string' && value.length <= max ? value : fail(`${field} must be text of at most ${max} characters`);
+
+const asInteger = (value: unknown, field: string, min: number, max: number): number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max ? value as number : fail(`${field} must be a whole number from ${min} to ${max}`);
+
+const asNumber = (value: unknown, field: string, min: number, max: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max ? value : fail(`${field} must be a number from ${min} to ${max}`);
+
+const asOneOf = <T extends string>(value: unknown, field: string, allowed: readonly T[]): T =>
+  allowed.includes(value as T) ? value as T : fail(`${field} is not one of the allowed values`);
+
+const optional = <T,>(value: unknown, check: (value: unknown) => T): T | undefined =>
+  value === undefined || value === null ? undefined : check(value);
+
+const asSubjects = (value: unknown): Subject[] => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > SUBJECTS.length) fail('subjects must list 1 to 3 subjects');
+  const subjects = (value as unknown[]).map(subject => asOneOf(subject, 'subjects', SUBJECTS));
+  return Array.from(new Set(subjects));
+};
+
+const asQuestionContext = (value: unknown): QuestionContext => {
+  const question = asObject(value, 'question');
+  if (!Array.isArray(question.options) || question.options.length !== 4) fail('question.options must have 4 entries');
+  return {
+    text: asText(question.text, 'question.text', MAX_TEXT),
+    options: (question.options as unknown[]).map(option => asText(option, 'question.options', MAX_OPTION)),
+    topic: asText(question.topic, 'question.topic', MAX_TOPIC),
+    stem: optional(question.stem, stem => asText(stem, 'question.stem', MAX_STEM))
+  };
+};
+
+// Copies only the known fields, so nothing else the client sends can reach a prompt
+const VALIDATORS: { [F in AIFeature]: (input: Record<string, unknown>) => AIInputs[F] } = {
+  questions: input => ({
+    subjects: asSubjects(input.subjects),
+    topic: optional(input.topic, topic => asOneOf(topic, 'topic', TOPICS)),
+    difficulty: optional(input.difficulty, difficulty => asOneOf(difficulty, 'difficulty', DIFFICULTIES)),
+    count: asInteger(input.count, 'count', 1, MAX_QUESTION_BATCH)
+  }),
+
+  questionGroup: input => ({
+    subjects: asSubjects(input.subjects),
+    topic: asOneOf(input.topic, 'topic', GROUP_TOPICS),
+    difficulty: optional(input.difficulty, difficulty => asOneOf(difficulty, 'difficulty', DIFFICULTIES)),
+    size: asInteger(input.size, 'size', MIN_GROUP_SIZE, MAX_GROUP_SIZE)
+  }),
+
+  flashcards: input => {
+    const topics = input.topics;
+    if (!Array.isArray(topics) || topics.length === 0 || topics.length > MAX_FLASHCARD_TOPICS) {
+      fail(`topics must list 1 to ${MAX_FLASHCARD_TOPICS} topics`);
+    }
+    return { topics: (topics as unknown[]).map(topic => asText(topic, 'topics', MAX_TOPIC)) };
+  },
+
+  hint: input => ({ question: asQuestionContext(input.question) }),
+
+  doubt: input => {
+    const question = asObject(input.question, 'question');
+    return {
+      question: {
+        ...asQuestionContext(question),
+        answer: asText(question.answer, 'question.answer', MAX_OPTION),
+        explanation: asOptionalText(question.explanation, 'question.explanation', MAX_EXPLANATION)
+      },
+      query: asText(input.query, 'query', MAX_QUERY)
+    };
+  },
+
+  analysis: input => {
+    const subjectWise = asObject(input.subjectWise, 'subjectWise');
+    if (Object.keys(subjectWise).length > SUBJECTS.length) fail('subjectWise has too many entries');
+    return {
+      score: asNumber(input.score, 'score', -MAX_QUESTIONS_PER_TEST, MAX_QUESTIONS_PER_TEST),
+      total: asInteger(input.total, 'total', 1, MAX_QUESTIONS_PER_TEST),
+      accuracy: asNumber(input.accuracy, 'accuracy', 0, 100),
+      subjectWise: Object.fromEntries(Object.entries(subjectWise).map(([subject, score]) => [
+        asOneOf(subject, 'subjectWise', SUBJECTS),
+        asNumber(score, `subjectWise.${subject}`, -MAX_QUESTIONS_PER_TEST, MAX_QUESTIONS_PER_TEST)
+      ]))
+    };
+  }
+};
+
+export const validateInput = <F extends AIFeature>(feature: F, input: unknown): InputValidationResult<F> => {
+  try {
+    return { ok: true, input: VALIDATORS[feature](asObject(input, 'input')) };
+  } catch (e) {
+    if (e instanceof InvalidInput) return { ok: false, reason: e.message };
+    throw e;
+  }
+};
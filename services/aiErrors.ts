@@ -0,0 +1,41 @@
+export type AIErrorCode =
+  | 'NO_API_KEY'      // feature needs a key and none is configured
+  | 'REQUEST_FAILED'  // network / SDK / HTTP failure
+  | 'RATE_LIMITED'    // still over quota after every retry
+  | 'CANCELLED'       // dropped by the scheduler, e.g. the test it was for was left
+  | 'BUDGET_EXCEEDED' // refused: today's AI budget (browser) or the server's daily cap is used up
+  | 'EMPTY_RESPONSE'  // model returned no text
+  | 'INVALID_JSON'    // output could not be parsed at all
+  | 'NO_VALID_ITEMS'; // output parsed, but nothing survived validation
+
+export class AIServiceError extends Error {
+  constructor(
+    public code: AIErrorCode,
+    message: string,
+    public cause?: unknown,
+    public status?: number // HTTP status, when the failure came with one
+  ) {
+    super(message);
+    this.name = 'AIServiceError';
+  }
+}
+
+export const isAIServiceError = (e: unknown): e is AIServiceError => e instanceof AIServiceError;
+
+// Short, user-facing text for an error code, e.g. to explain a disabled button up front
+export const describeAIErrorCode = (code: AIErrorCode): string => {
+  switch (code) {
+    case 'NO_API_KEY': return 'AI features are unavailable without an API key.';
+    case 'REQUEST_FAILED': return 'Could not reach the AI service. Check your connection.';
+    case 'RATE_LIMITED': return 'The AI service is busy right now. Please try again in a minute.';
+    case 'CANCELLED': return 'The request was cancelled.';
+    case 'BUDGET_EXCEEDED': return "Today's AI budget is used up, so optional AI features are off until tomorrow.";
+    case 'EMPTY_RESPONSE': return 'The AI returned an empty answer. Please try again.';
+    case 'INVALID_JSON':
+    case 'NO_VALID_ITEMS': return 'The AI returned an unusable answer. Please try again.';
+  }
+};
+
+// Short, user-facing text for any error thrown out of the service layer
+export const describeAIError = (e: unknown): string =>
+  isAIServiceError(e) ? describeAIErrorCode(e.code) : 'Something went wrong. Please try again.';
@@ -0,0 +1,142 @@
+import { Subject, Difficulty, SUBJECT_TOPICS } from "../types";
+import type { LLMProvider, LLMConfig, LLMRequest, LLMRequestParams } from "./llmProvider";
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+// Same request sequence, same answers: the seed comes from the prompt and the call number
+const hashString = (s: string) => {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) h = Math.imul(h ^ s.charCodeAt(i), 16777619);
+  return h >>> 0;
+};
+
+const mulberry32 = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+type Random = () => number;
+
+const randomInt = (random: Random, min: number, max: number) => min + Math.floor(random() * (max - min + 1));
+
+// Where a question goes: the requested topic when the subject has it, else the subject's own topics in turn
+const placeQuestion = (params: LLMRequestParams, index: number): { subject: Subject; topic: string } => {
+  const subjects = params.subjects?.length ? params.subjects : (Object.keys(SUBJECT_TOPICS) as Subject[]);
+  const owner = params.topic ? subjects.find(s => SUBJECT_TOPICS[s].includes(params.topic!)) : undefined;
+  if (owner) return { subject: owner, topic: params.topic! };
+  const subject = subjects[index % subjects.length];
+  const topics = SUBJECT_TOPICS[subject];
+  return { subject, topic: topics[index % topics.length] };
+};
+
+// Four distinct options around the answer, with the answer at a random position
+const optionsAround = (random: Random, answer: number) => {
+  const options = [answer + 1, answer - 1, answer + 10];
+  const correctAnswer = randomInt(random, 0, 3);
+  options.splice(correctAnswer, 0, answer);
+  return { options: options.map(String), correctAnswer };
+};
+
+const fakeQuestion = (random: Random, params: LLMRequestParams, index: number) => {
+  const { subject, topic } = placeQuestion(params, index);
+  const a = randomInt(random, 10, 999);
+  const b = randomInt(random, 10, 999);
+  const { options, correctAnswer } = optionsAround(random, a + b);
+  return {
+    text: `[Demo] ${topic}: what is ${a} + ${b}?`,
+    options,
+    correctAnswer,
+    subject,
+    topic,
+    difficulty: params.difficulty || DIFFICULTIES[index % DIFFICULTIES.length],
+    explanation: `Add: ${a} + ${b} = ${a + b}.`,
+    pyqTag: 'Demo',
+    hindi: {
+      text: `[डेमो] ${topic}: ${a} + ${b} कितना है?`,
+      options,
+      explanation: `जोड़ें: ${a} + ${b} = ${a + b}.`
+    }
+  };
+};
+
+const fakeQuestionGroup = (random: Random, params: LLMRequestParams) => {
+  const { subject, topic } = placeQuestion({ ...params, topic: params.topic || 'Data Interpretation' }, 0);
+  const months = ['Jan', 'Feb', 'Mar', 'Apr'];
+  const units = months.map(() => randomInt(random, 100, 900));
+  const questions = Array.from({ length: params.count || 3 }, (_, i) => {
+    const month = i % months.length;
+    const { options, correctAnswer } = optionsAround(random, units[month]);
+    return {
+      text: `How many units were made in ${months[month]}?`,
+      options,
+      correctAnswer,
+      subject,
+      topic,
+      difficulty: params.difficulty || 'Easy',
+      explanation: `Read the ${months[month]} row: ${units[month]}.`,
+      pyqTag: 'Demo',
+      hindi: {
+        text: `${months[month]} में कितनी इकाइयाँ बनीं?`,
+        options,
+        explanation: `${months[month]} की पंक्ति देखें: ${units[month]}.`
+      }
+    };
+  });
+  return {
+    stem: '[Demo] The table shows units made by a workshop each month.',
+    table: { headers: ['Month', 'Units'], rows: months.map((m, i) => [m, String(units[i])]) },
+    hindiStem: '[डेमो] तालिका एक कार्यशाला द्वारा हर महीने बनाई गई इकाइयाँ दिखाती है।',
+    questions
+  };
+};
+
+const fakeAnalysis = (params: LLMRequestParams) => {
+  const ranked = Object.entries(params.subjectScores || {}).sort((a, b) => b[1] - a[1]).map(([subject]) => subject);
+  return {
+    predictedScore: Math.round((params.accuracy || 0) * 0.9),
+    strengthAreas: ranked.slice(0, 2),
+    weakAreas: ranked.slice(-2).reverse(),
+    timeManagementTip: 'Skip long questions first, return later.',
+    nextFocusTopic: ranked[ranked.length - 1] || 'Number System'
+  };
+};
+
+const answer = (request: LLMRequest, random: Random): string => {
+  const params = request.params || {};
+  switch (request.feature) {
+    case 'questions':
+      return JSON.stringify(Array.from({ length: params.count || 5 }, (_, i) => fakeQuestion(random, params, i)));
+    case 'questionGroup':
+      return JSON.stringify(fakeQuestionGroup(random, params));
+    case 'hint':
+      return `Work out what ${params.topic || 'the question'} is really asking, then rule out options that cannot fit.`;
+    case 'doubt':
+      return 'This is a demo answer: compare each option with the explanation step by step.';
+    case 'flashcards':
+      return JSON.stringify((params.topics || []).slice(0, 3).map(topic => ({
+        topic,
+        content: `[Demo] The one idea about ${topic} worth remembering.`,
+        keyPoint: `Revise ${topic} daily`
+      })));
+    case 'analysis':
+      return JSON.stringify(fakeAnalysis(params));
+  }
+};
+
+// Deterministic, offline stand-in for a model: valid answers for every feature, no network
+export const createFakeProvider = (config: LLMConfig): LLMProvider => {
+  let calls = 0;
+  return {
+    id: 'fake',
+    model: config.model,
+    isConfigured: () => true,
+    limits: { concurrency: 4, requestsPerMinute: config.requestsPerMinute ?? null },
+    // No usage is reported, so the accounting path for backends without counts gets exercised too
+    generate: async (request) => {
+      calls++;
+      return { text: answer(request, mulberry32(hashString(`${request.feature}:${request.prompt}`) ^ calls)) };
+    }
+  };
+};
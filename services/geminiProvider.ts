@@ -0,0 +1,48 @@
+import { GoogleGenAI } from "@google/genai";
+import { AIServiceError } from "./aiErrors";
+import type { LLMProvider, LLMConfig } from "./llmProvider";
+
+// Free-tier gemini-2.5-flash allows 10 requests a minute
+const DEFAULT_REQUESTS_PER_MINUTE = 10;
+
+export const createGeminiProvider = (config: LLMConfig): LLMProvider => {
+  let client: GoogleGenAI | null = null;
+
+  const getClient = (): GoogleGenAI => {
+    if (!config.apiKey) throw new AIServiceError('NO_API_KEY', "No API key configured");
+    if (!client) client = new GoogleGenAI({ apiKey: config.apiKey });
+    return client;
+  };
+
+  return {
+    id: 'gemini',
+    model: config.model,
+    isConfigured: () => !!config.apiKey,
+    limits: { concurrency: 2, requestsPerMinute: config.requestsPerMinute || DEFAULT_REQUESTS_PER_MINUTE },
+    generate: async ({ prompt, responseSchema }, signal) => {
+      const ai = getClient();
+      let response: Awaited<ReturnType<GoogleGenAI['models']['generateContent']>>;
+      try {
+        response = await ai.models.generateContent({
+          model: config.model,
+          contents: prompt,
+          config: responseSchema
+            ? { responseMimeType: "application/json", responseSchema, abortSignal: signal }
+            : { abortSignal: signal }
+        });
+      } catch (e) {
+        throw new AIServiceError('REQUEST_FAILED', "Gemini request failed", e, (e as { status?: number })?.status);
+      }
+      const meta = response.usageMetadata;
+      return {
+        text: response.text || '',
+        usage: meta ? {
+          promptTokens: meta.promptTokenCount || 0,
+          // Thinking tokens are billed as output
+          outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+          totalTokens: meta.totalTokenCount || 0
+        } : undefined
+      };
+    }
+  };
+};
@@ -0,0 +1,137 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Question, TestConfig } from '../types';
+import { setProvider, LLMProvider } from './llmProvider';
+import { createFakeProvider } from './fakeProvider';
+import { generateQuestions, getAIHint, analyzePerformance, getValidationStats } from './geminiService';
+import { setDailyBudgetPreference, setDailyTokenBudgetPreference } from '../utils/usage';
+
+vi.mock('../utils/db', () => ({
+  addUsageRecord: vi.fn(() => Promise.resolve()),
+  getUsageRecords: vi.fn(() => Promise.resolve([]))
+}));
+
+const config: TestConfig = {
+  mode: 'Subject',
+  totalQuestions: 10,
+  durationMinutes: 10,
+  selectedSubjects: ['Mathematics']
+};
+
+// The fake provider, with each response passed through `edit` and every call counted
+const fakeWith = (edit: (text: string, call: number) => string = text => text) => {
+  const fake = createFakeProvider({ provider: 'fake', model: 'fake-test' });
+  const provider: LLMProvider & { calls: number } = {
+    ...fake,
+    calls: 0,
+    generate: async (request, signal) => {
+      const { text } = await fake.generate(request, signal);
+      return { text: edit(text, ++provider.calls) };
+    }
+  };
+  return provider;
+};
+
+// Gives the first question of the response a second copy of its first option
+const breakFirstQuestion = (text: string) => {
+  const items = JSON.parse(text);
+  items[0].options[1] = items[0].options[0];
+  return JSON.stringify(items);
+};
+
+const question: Question = {
+  id: 'q1',
+  text: 'What is 15% of 200?',
+  options: ['20', '30', '35', '40'],
+  correctAnswer: 1,
+  subject: 'Mathematics',
+  topic: 'Percentage',
+  difficulty: 'Easy',
+  explanation: '10% is 20, 5% is 10.'
+};
+
+beforeEach(() => {
+  // Dropped and truncated items are logged; the tests check the counts instead
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  localStorage.clear();
+  setDailyBudgetPreference(0);
+  setDailyTokenBudgetPreference(0);
+});
+
+describe('generateQuestions with the fake provider', () => {
+  it('returns a full batch of valid questions in one call', async () => {
+    const provider = fakeWith();
+    setProvider(provider);
+    const questions = await generateQuestions({ ...config, selectedTopic: 'Percentage' }, 5, 'Hard');
+    expect(questions).toHaveLength(5);
+    expect(provider.calls).toBe(1);
+    expect(questions.every(q => q.subject === 'Mathematics' && q.topic === 'Percentage' && q.difficulty === 'Hard')).toBe(true);
+    expect(new Set(questions.map(q => q.id)).size).toBe(5);
+  });
+
+  it('gives the same answers to the same request sequence', async () => {
+    setProvider(fakeWith());
+    const first = await generateQuestions(config, 3);
+    setProvider(fakeWith());
+    const second = await generateQuestions(config, 3);
+    expect(second.map(q => q.text)).toEqual(first.map(q => q.text));
+  });
+
+  it('tops up questions that fail validation with a follow-up request', async () => {
+    const provider = fakeWith((text, call) => (call === 1 ? breakFirstQuestion(text) : text));
+    setProvider(provider);
+    const dropped = getValidationStats().dropped;
+    const questions = await generateQuestions(config, 5);
+    expect(questions).toHaveLength(5);
+    expect(provider.calls).toBe(2);
+    expect(getValidationStats().dropped).toBe(dropped + 1);
+  });
+
+  it('keeps the complete items of a truncated response and tops up the rest', async () => {
+    const provider = fakeWith((text, call) => (call === 1 ? text.slice(0, Math.floor(text.length * 0.7)) : text));
+    setProvider(provider);
+    const questions = await generateQuestions(config, 5);
+    expect(questions).toHaveLength(5);
+    expect(provider.calls).toBe(2);
+  });
+
+  it('gives up after the top-up rounds when nothing passes validation', async () => {
+    const provider = fakeWith(text => JSON.stringify(JSON.parse(text).map((q: any) => ({ ...q, topic: 'Astrology' }))));
+    setProvider(provider);
+    await expect(generateQuestions(config, 5)).rejects.toMatchObject({ code: 'NO_VALID_ITEMS' });
+    expect(provider.calls).toBe(3);
+  });
+});
+
+describe('tutor features with the fake provider', () => {
+  it('answers a hint for the question topic', async () => {
+    setProvider(fakeWith());
+    expect(await getAIHint(question)).toContain('Percentage');
+  });
+
+  it('refuses a hint once the daily budget is used up', async () => {
+    setProvider(fakeWith());
+    setDailyTokenBudgetPreference(1);
+    await getAIHint(question).catch(() => undefined);
+    await expect(getAIHint(question)).rejects.toMatchObject({ code: 'BUDGET_EXCEEDED' });
+  });
+
+  it('analyses performance and keeps the trend worked out from history', async () => {
+    setProvider(fakeWith());
+    const analysis = await analyzePerformance({
+      score: 40,
+      total: 100,
+      accuracy: 50,
+      subjectWise: { 'Mathematics': 20, 'General Awareness': 5, 'General Intelligence & Reasoning': 15 },
+      improvementTrend: 'Up'
+    });
+    expect(analysis).toEqual({
+      predictedScore: 45,
+      strengthAreas: ['Mathematics', 'General Intelligence & Reasoning'],
+      weakAreas: ['General Awareness', 'General Intelligence & Reasoning'],
+      timeManagementTip: expect.any(String),
+      nextFocusTopic: 'General Awareness',
+      improvementTrend: 'Up'
+    });
+  });
+});
@@ -1,271 +1,212 @@
-import { GoogleGenAI } from "@google/genai";
-import { Question, Subject, TestConfig, Flashcard, AIAnalysis } from "../types";
-
-// Fallback questions in case API fails or key is missing
-const FALLBACK_QUESTIONS: Question[] = [
-  {
-    id: "fb-1",
-    text: "If A:B = 3:4 and B:C = 8:9, then find A:C.",
-    options: ["1:2", "3:2", "1:3", "2:3"],
-    correctAnswer: 3,
-    subject: "Mathematics",
-    topic: "Ratio & Proportion",
-    difficulty: "Easy",
-    explanation: "Standard: A/C = (A/B)*(B/C) = (3/4)*(8/9) = 2/3. Shortcut: Write A:B (3:4) and B:C (8:9) below it. Multiply columns: A=3*8=24, C=4*9=36. 24:36 = 2:3.",
-    pyqTag: "RRB NTPC 2016 Shift 1"
-  },
-  {
-    id: "fb-2",
-    text: "Which vitamin is water soluble?",
-    options: ["Vitamin A", "Vitamin D", "Vitamin C", "Vitamin K"],
-    correctAnswer: 2,
-    subject: "General Awareness",
-    topic: "General Science",
-    difficulty: "Medium",
-    explanation: "Vitamin B and C are water soluble. Mnemonic: 'WBC' -> Water Soluble = B & C. Fat soluble are 'KEDA'.",
-    pyqTag: "RRB NTPC 28 Dec 2020"
-  },
-  {
-    id: "fb-3",
-    text: "In a certain code, 'ROCKET' is written as 'TCMQKV'. How is 'DRIVER' written in that code?",
-    options: ["FTKXGP", "FTKIGT", "FTKXGT", "GUKYHU"],
-    correctAnswer: 2,
-    subject: "General Intelligence & Reasoning",
-    topic: "Coding-Decoding",
-    difficulty: "Medium",
-    explanation: "Pattern: +2, -2, +2, -2, +2, -2. R(+2)=T, O(-2)=M... Similarly, D(+2)=F, R(-2)=P. Correct Logic: R(+2)=T, O(-2)=M, C(+2)=E, K(-2)=I, E(+2)=G, T(-2)=R.",
-    pyqTag: "RRB NTPC CBT-2 2022"
-  }
-];
-
-export const generateQuestions = async (config: TestConfig, batchSize: number = 5): Promise<Question[]> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    console.warn("No API Key found. Returning fallback questions.");
-    return FALLBACK_QUESTIONS;
-  }
-
-  const ai = new GoogleGenAI({ apiKey });
-  
-  const subjectsStr = config.selectedSubjects.join(", ");
-  const topicContext = config.selectedTopic ? `Focus specifically on the topic: ${config.selectedTopic}.` : "Mix the topics based on standard RRB NTPC weightage.";
-
-  // Use gemini-2.5-flash as the standard fast model. 
-  const modelName = "gemini-2.5-flash";
-
-  // Safeguard: Ensure batchSize is not excessive. 
-  // Truncation causes JSON errors, so we keep batches small.
-  const safeBatchSize = Math.min(batchSize, 5);
-
-  const prompt = `
-    Act as a senior exam setter for the RRB NTPC Graduate Level Exam. 
-    Generate ${safeBatchSize} UNIQUE multiple-choice questions.
-
-    Subjects: ${subjectsStr}
-    Context: ${topicContext}
+import { Question, QuestionGroup, ContentTable, TestConfig, Flashcard, AIAnalysis, Difficulty, AIFeature } from "../types";
+import { validateQuestionBatch, validateQuestionGroup } from "../utils/questionValidation";
+import { parseJsonArrayLenient, parseJsonObject } from "../utils/partialJson";
+import { AIServiceError } from "./aiErrors";
+import { getProvider, LLMRequest } from "./llmProvider";
+import { buildRequest, QuestionContext, MAX_QUESTION_BATCH, MAX_FLASHCARD_TOPICS } from "./prompts";
+import { scheduleRequest, cancelRequests } from "./requestScheduler";
+import { recordUsage, isOverDailyBudget } from "./usageTracker";
+import { OPTIONAL_AI_FEATURES, estimateTokens } from "../utils/usage";
+
+// Follow-up requests allowed per batch to replace questions that failed validation
+const MAX_TOPUP_ROUNDS = 2;
+
+// Running totals for the session, so callers can report how much generated output was unusable
+const validationStats = { accepted: 0, dropped: 0 };
+
+export const getValidationStats = () => ({ ...validationStats });
+
+// Without a usable provider (e.g. no Gemini key) the app runs purely from the bundled offline corpus.
+// Asks the proxy server whether it has a key; providers running in the browser answer straight away.
+export const checkAIAvailability = async (): Promise<boolean> => {
+  const provider = await getProvider();
+  return provider.checkStatus ? provider.checkStatus() : provider.isConfigured();
+};
 
-    STRICT JSON OUTPUT RULES:
-    1. Do NOT include any markdown formatting or code blocks. Just the raw JSON string.
-    2. Explanation MUST be under 20 words to save tokens.
-    3. Ensure valid JSON syntax.
+// Everything a test asks the model for; dropped when the test is left
+const TEST_FEATURES: AIFeature[] = ['questions', 'questionGroup', 'hint', 'doubt'];
 
-    Structure:
-    - Realism: Mimic RRB NTPC question style.
-    - Tag: Add "pyqTag" (e.g., "RRB NTPC 2021").
-    - Math Explanations: ONLY the shortcut formula.
-    - Science Explanations: ONLY the mnemonic.
-    
-    Return JSON Array of objects with fields: text, options (4 strings), correctAnswer (0-3), subject, topic, difficulty, explanation, pyqTag.
-  `;
+export const cancelTestRequests = () => cancelRequests(TEST_FEATURES);
 
-  try {
-    const response = await ai.models.generateContent({
-      model: modelName,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-      },
-    });
+// Single entry point for model calls: optional features stop at the daily budget, every
+// request waits its turn in the scheduler and is logged with its token counts, and
+// empty output becomes a typed error
+const requestText = async (request: LLMRequest): Promise<string> => {
+  if (OPTIONAL_AI_FEATURES.includes(request.feature) && isOverDailyBudget()) {
+    throw new AIServiceError('BUDGET_EXCEEDED', "Daily AI budget reached");
+  }
+  const provider = await getProvider();
+  const { text, usage } = await scheduleRequest(request.feature, signal => provider.generate(request, signal));
+  recordUsage(
+    { feature: request.feature, provider: provider.id, model: provider.model },
+    usage || estimateTokens(request.prompt, text),
+    !usage
+  );
+  if (!text || !text.trim()) throw new AIServiceError('EMPTY_RESPONSE', `${provider.model} returned no text`);
+  return text.trim();
+};
 
-    let jsonStr = response.text || "";
-    
-    // Clean up Markdown wrappers if present (Common cause of JSON errors)
-    jsonStr = jsonStr.replace(/```json/g, "").replace(/```/g, "").trim();
+// Keeps every complete element of a (possibly truncated) JSON array response
+const requestArray = async (request: LLMRequest): Promise<unknown[]> => {
+  const text = await requestText(request);
+  const parsed = parseJsonArrayLenient(text);
+  if (!parsed) throw new AIServiceError('INVALID_JSON', "Response did not contain a JSON array");
+  if (parsed.truncated) {
+    console.warn(`Truncated AI response: kept ${parsed.items.length} complete item(s)`);
+  }
+  return parsed.items;
+};
 
-    // Aggressive JSON extraction: Find the first '[' and the last ']'
-    const firstOpen = jsonStr.indexOf('[');
-    const lastClose = jsonStr.lastIndexOf(']');
-    
-    if (firstOpen !== -1 && lastClose !== -1 && lastClose > firstOpen) {
-      jsonStr = jsonStr.substring(firstOpen, lastClose + 1);
-    } else {
-      throw new Error("Invalid JSON structure found");
+const newQuestionId = () => `gen-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+export const generateQuestions = async (config: TestConfig, batchSize: number = 5, difficulty?: Difficulty): Promise<Question[]> => {
+  // Safeguard: Ensure batchSize is not excessive.
+  const safeBatchSize = Math.min(batchSize, MAX_QUESTION_BATCH);
+
+  const accepted: Question[] = [];
+  let dropped = 0;
+  const reasons: string[] = [];
+
+  // Rejected or truncated items are topped up with follow-up requests, a bounded number of times
+  for (let round = 0; round <= MAX_TOPUP_ROUNDS && accepted.length < safeBatchSize; round++) {
+    let items: unknown[];
+    try {
+      items = await requestArray(buildRequest('questions', {
+        subjects: config.selectedSubjects,
+        topic: config.selectedTopic,
+        difficulty,
+        count: safeBatchSize - accepted.length
+      }));
+    } catch (e) {
+      // Keep a partially filled batch; only fail when nothing usable came back
+      if (accepted.length > 0) break;
+      throw e;
     }
 
-    const questionsData = JSON.parse(jsonStr);
+    const report = validateQuestionBatch(items);
+    dropped += report.dropped;
+    reasons.push(...report.reasons);
     
-    return questionsData.map((q: any) => ({
+    accepted.push(...report.questions.slice(0, safeBatchSize - accepted.length).map(q => ({
       ...q,
-      id: `gen-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-    }));
+      id: newQuestionId()
+    })));
 
-  } catch (error) {
-    console.error("Gemini API Error or JSON Parse Error:", error);
-    // Return fallback questions to keep app alive
-    return FALLBACK_QUESTIONS.slice(0, safeBatchSize);
+    if (report.dropped === 0 && items.length >= safeBatchSize) break;
   }
-};
 
-export const generateFlashcards = async (weakTopics: string[]): Promise<Flashcard[]> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey || weakTopics.length === 0) return [];
-
-  const ai = new GoogleGenAI({ apiKey });
-  
-  const uniqueTopics = Array.from(new Set(weakTopics)).slice(0, 3);
-  const topicsStr = uniqueTopics.join(", ");
+  if (dropped > 0) {
+    validationStats.dropped += dropped;
+    console.warn(`Dropped ${dropped} invalid generated question(s):`, reasons);
+  }
+  validationStats.accepted += accepted.length;
 
-  const prompt = `
-    RRB NTPC Exam Prep.
-    Topics: ${topicsStr}.
-    Create 3 concise Flashcards.
-    JSON Array only.
-    Fields: topic, content (max 15 words), keyPoint (max 10 words).
-  `;
+  if (accepted.length === 0) {
+    throw new AIServiceError('NO_VALID_ITEMS', `None of the generated questions passed validation (${reasons.join('; ')})`);
+  }
+  return accepted;
+};
 
+// A DI table or puzzle arrangement with `size` questions on it. Sets are not topped up:
+// members written in a second request would not match the first one's stem.
+export const generateQuestionGroup = async (config: TestConfig, size: number, difficulty?: Difficulty): Promise<Question[]> => {
+  const topic = config.selectedTopic || 'Data Interpretation';
+  const text = await requestText(buildRequest('questionGroup', { subjects: config.selectedSubjects, topic, difficulty, size }));
+  let parsed: unknown;
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: { responseMimeType: "application/json" }
-    });
-
-    let jsonStr = response.text || "";
-    jsonStr = jsonStr.replace(/```json/g, "").replace(/```/g, "").trim();
-    
-    const firstOpen = jsonStr.indexOf('[');
-    const lastClose = jsonStr.lastIndexOf(']');
-    if (firstOpen !== -1 && lastClose !== -1) {
-        jsonStr = jsonStr.substring(firstOpen, lastClose + 1);
-    }
-
-    return JSON.parse(jsonStr);
+    parsed = parseJsonObject(text);
   } catch (e) {
-    console.error(e);
-    return [];
+    throw new AIServiceError('INVALID_JSON', "Question set response was not valid JSON", e);
   }
-};
 
-// --- NEW AI FEATURES ---
-
-export const getAIHint = async (question: Question): Promise<string> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) return "Hints unavailable without API Key.";
-
-  const ai = new GoogleGenAI({ apiKey });
-  const prompt = `
-    Question: "${question.text}"
-    Options: ${question.options.join(", ")}
-    Topic: ${question.topic}
-    
-    Provide a STRATEGIC HINT to solve this. 
-    Constraint: Do NOT reveal the answer. 
-    Constraint: Keep it under 20 words.
-    Style: Coach whispering a clue.
-  `;
+  const result = validateQuestionGroup(parsed);
+  if (result.ok === false) {
+    validationStats.dropped += size;
+    throw new AIServiceError('NO_VALID_ITEMS', `Generated question set failed validation (${result.reason})`);
+  }
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt
-    });
-    return response.text?.trim() || "Analyze the options carefully.";
-  } catch (e) {
-    return "Check specific keywords in the question.";
+  const group: QuestionGroup = { ...result.group, id: `grp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}` };
+  const members = result.report.questions.slice(0, size).map(q => ({ ...q, id: newQuestionId(), group }));
+  if (result.report.dropped > 0) {
+    validationStats.dropped += result.report.dropped;
+    console.warn(`Dropped ${result.report.dropped} invalid question(s) from a set:`, result.report.reasons);
   }
+  validationStats.accepted += members.length;
+  return members;
 };
 
-export const solveAIDoubt = async (question: Question, userQuery: string): Promise<string> => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) return "Feature unavailable.";
+export const generateFlashcards = async (weakTopics: string[]): Promise<Flashcard[]> => {
+  if (weakTopics.length === 0) return [];
+  
+  const uniqueTopics = Array.from(new Set(weakTopics)).slice(0, MAX_FLASHCARD_TOPICS);
+  const items = await requestArray(buildRequest('flashcards', { topics: uniqueTopics }));
+  const cards = items.filter((c: any): c is Flashcard =>
+    !!c && typeof c.topic === 'string' && typeof c.content === 'string' && typeof c.keyPoint === 'string'
+  );
+  if (cards.length === 0) throw new AIServiceError('NO_VALID_ITEMS', "No usable flashcards in response");
+  return cards;
+};
 
-  const ai = new GoogleGenAI({ apiKey });
-  const prompt = `
-    You are an expert tutor for RRB NTPC exams.
-    Context Question: "${question.text}"
-    Correct Answer: "${question.options[question.correctAnswer]}"
-    Explanation: "${question.explanation}"
-    
-    Student Doubt: "${userQuery}"
-    
-    Provide a clear, simple explanation in 50 words or less. Use an example if needed.
-  `;
+// --- NEW AI FEATURES ---
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt
-    });
-    return response.text?.trim() || "I couldn't generate an explanation at this moment.";
-  } catch (e) {
-    return "Connection error. Please try again.";
-  }
+// Set members only make sense with their stem; tables are flattened to rows of text
+const toQuestionContext = (question: Question): QuestionContext => {
+  const context: QuestionContext = { text: question.text, options: question.options, topic: question.topic };
+  if (!question.group) return context;
+  const tables = (question.group.media || [])
+    .filter((block): block is ContentTable => block.type === 'table')
+    .map(table => [table.headers, ...table.rows].map(row => row.join(' | ')).join('\n'));
+  return { ...context, stem: [question.group.stem, ...tables].join('\n') };
 };
 
+export const getAIHint = async (question: Question): Promise<string> =>
+  requestText(buildRequest('hint', { question: toQuestionContext(question) }));
+
+export const solveAIDoubt = async (question: Question, userQuery: string): Promise<string> =>
+  requestText(buildRequest('doubt', {
+    question: {
+      ...toQuestionContext(question),
+      answer: question.options[question.correctAnswer],
+      explanation: question.explanation
+    },
+    query: userQuery
+  }));
+
+// improvementTrend is derived from stored history by the caller; the model only sees one attempt
 export const analyzePerformance = async (stats: {
   score: number;
   total: number;
   accuracy: number;
   subjectWise: Record<string, number>;
+  improvementTrend: AIAnalysis['improvementTrend'];
 }): Promise<AIAnalysis> => {
-  const apiKey = process.env.API_KEY;
-  // Default fallback
-  const fallback: AIAnalysis = {
-    predictedScore: stats.score + 5,
-    strengthAreas: ["General Intelligence"],
-    weakAreas: ["Mathematics"],
-    timeManagementTip: "Spend less time on easy questions.",
-    improvementTrend: "Stable",
-    nextFocusTopic: "Algebra"
-  };
-
-  if (!apiKey) return fallback;
-
-  const ai = new GoogleGenAI({ apiKey });
-  const prompt = `
-    Analyze this student's RRB NTPC mock test performance:
-    Score: ${stats.score}/${stats.total}
-    Accuracy: ${stats.accuracy}%
-    Subject Scores: ${JSON.stringify(stats.subjectWise)}
-    
-    Output strictly JSON:
-    {
-      "predictedScore": (number, predict final exam score out of 100 based on this),
-      "strengthAreas": (array of strings, top 2 strengths),
-      "weakAreas": (array of strings, top 2 weaknesses),
-      "timeManagementTip": (string, max 10 words),
-      "improvementTrend": ("Up" | "Down" | "Stable"),
-      "nextFocusTopic": (string, single most important topic to study)
-    }
-  `;
-
+  const text = await requestText(buildRequest('analysis', {
+    score: stats.score,
+    total: stats.total,
+    accuracy: stats.accuracy,
+    subjectWise: stats.subjectWise
+  }));
+  let parsed: any;
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-      config: { responseMimeType: "application/json" }
-    });
-
-    const jsonStr = response.text?.replace(/```json/g, "").replace(/```/g, "").trim() || "";
-    const firstOpen = jsonStr.indexOf('{');
-    const lastClose = jsonStr.lastIndexOf('}');
-    
-    if (firstOpen !== -1 && lastClose !== -1) {
-       return JSON.parse(jsonStr.substring(firstOpen, lastClose + 1));
-    }
-    return fallback;
+    parsed = parseJsonObject(text);
   } catch (e) {
-    console.error(e);
-    return fallback;
+    throw new AIServiceError('INVALID_JSON', "Analysis response was not valid JSON", e);
+  }
+
+  if (
+    typeof parsed.predictedScore !== 'number' ||
+    !Array.isArray(parsed.strengthAreas) || !Array.isArray(parsed.weakAreas) ||
+    typeof parsed.timeManagementTip !== 'string' || typeof parsed.nextFocusTopic !== 'string'
+  ) {
+    throw new AIServiceError('NO_VALID_ITEMS', "Analysis response is missing fields");
   }
-};
\ No newline at end of file
+
+  return {
+    predictedScore: parsed.predictedScore,
+    strengthAreas: parsed.strengthAreas,
+    weakAreas: parsed.weakAreas,
+    timeManagementTip: parsed.timeManagementTip,
+    nextFocusTopic: parsed.nextFocusTopic,
+    improvementTrend: stats.improvementTrend
+  };
+};
@@ -0,0 +1,108 @@
+import type { Schema } from "@google/genai";
+import { Subject, Difficulty, AIFeature, TokenUsage } from "../types";
+import { configureScheduler, SchedulerLimits } from "./requestScheduler";
+import type { AIInput } from "./prompts";
+
+// What the prompt asks for, in structured form. Real models only read the prompt;
+// the fake provider answers from these so it never has to parse prose.
+export interface LLMRequestParams {
+  count?: number;
+  subjects?: Subject[];
+  topic?: string;
+  topics?: string[];
+  difficulty?: Difficulty;
+  accuracy?: number;
+  subjectScores?: Record<string, number>;
+}
+
+export interface LLMRequest {
+  feature: AIFeature;
+  prompt: string;
+  responseSchema?: Schema; // JSON output is requested when set
+  params?: LLMRequestParams;
+  input: AIInput; // what the prompt was built from; all the proxy server gets to see
+}
+
+export interface LLMResponse {
+  text: string;
+  usage?: TokenUsage; // absent when the backend reports none
+}
+
+export interface LLMProvider {
+  id: LLMProviderId;
+  model: string;
+  isConfigured: () => boolean;
+  limits: SchedulerLimits; // how hard the request scheduler may drive this backend
+  // Raw text of the answer; providers throw AIServiceError (with the HTTP status) on transport failures
+  generate: (request: LLMRequest, signal?: AbortSignal) => Promise<LLMResponse>;
+  // Backends behind the proxy server only know whether they are usable once they have asked it
+  checkStatus?: () => Promise<boolean>;
+}
+
+export type LLMProviderId = 'gemini' | 'openai' | 'fake';
+
+export interface LLMConfig {
+  provider: LLMProviderId;
+  model: string;
+  baseUrl?: string; // OpenAI-compatible servers only
+  apiKey?: string;
+  requestsPerMinute?: number; // overrides the provider's default rate limit
+}
+
+export const DEFAULT_MODELS: Record<LLMProviderId, string> = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'llama3.1',
+  fake: 'fake-deterministic'
+};
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server listens on :8080/v1 instead
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+// Unknown providers fall back to Gemini
+export const resolveProviderId = (requested: string | undefined): LLMProviderId =>
+  requested && requested in DEFAULT_MODELS ? requested as LLMProviderId : 'gemini';
+
+// Build-time settings from .env.local (see vite.config.ts). Keys and server URLs are not
+// built in: they stay with the proxy server (server/config.ts).
+export const getLLMConfig = (): LLMConfig => {
+  const provider = resolveProviderId(process.env.AI_PROVIDER);
+  return {
+    provider,
+    model: process.env.AI_MODEL || DEFAULT_MODELS[provider],
+    requestsPerMinute: Number(process.env.AI_REQUESTS_PER_MINUTE) || undefined
+  };
+};
+
+// The real backends, as the proxy server runs them. Each is loaded only when chosen,
+// so the Gemini SDK never reaches a bundle that doesn't use it.
+export const createProvider = async (config: LLMConfig): Promise<LLMProvider> => {
+  switch (config.provider) {
+    case 'openai': return (await import("./openAICompatibleProvider")).createOpenAICompatibleProvider(config);
+    case 'fake': return (await import("./fakeProvider")).createFakeProvider(config);
+    case 'gemini': return (await import("./geminiProvider")).createGeminiProvider(config);
+  }
+};
+
+let activeProvider: Promise<LLMProvider> | null = null;
+
+// The fake provider needs no key, so it runs in the browser; everything else goes through the proxy
+const createBrowserProvider = async (config: LLMConfig): Promise<LLMProvider> =>
+  config.provider === 'fake'
+    ? createProvider(config)
+    : (await import("./proxyProvider")).createProxyProvider(config);
+
+export const getProvider = (): Promise<LLMProvider> => {
+  if (!activeProvider) {
+    activeProvider = createBrowserProvider(getLLMConfig()).then(provider => {
+      configureScheduler(provider.limits);
+      return provider;
+    });
+  }
+  return activeProvider;
+};
+
+// Swaps the provider for the rest of the session, e.g. the fake one in tests and demos
+export const setProvider = (provider: LLMProvider | null) => {
+  activeProvider = provider ? Promise.resolve(provider) : null;
+  if (provider) configureScheduler(provider.limits);
+};
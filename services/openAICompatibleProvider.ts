@@ -0,0 +1,81 @@
+import type { Schema } from "@google/genai";
+import { AIServiceError } from "./aiErrors";
+import type { LLMProvider, LLMConfig } from "./llmProvider";
+
+// The response schemas are written for Gemini (upper-case types, string bounds, property
+// ordering); OpenAI-style servers expect plain JSON Schema
+const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = schema.type.toLowerCase();
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.minItems !== undefined) out.minItems = Number(schema.minItems);
+  if (schema.maxItems !== undefined) out.maxItems = Number(schema.maxItems);
+  if (schema.minimum !== undefined) out.minimum = schema.minimum;
+  if (schema.maximum !== undefined) out.maximum = schema.maximum;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+    out.required = schema.required || [];
+  }
+  return out;
+};
+
+// Chat completions against an OpenAI-compatible server, e.g. a local Ollama or llama.cpp
+export const createOpenAICompatibleProvider = (config: LLMConfig): LLMProvider => ({
+  id: 'openai',
+  model: config.model,
+  isConfigured: () => !!config.baseUrl,
+  // A local server works through one request at a time anyway
+  limits: { concurrency: 1, requestsPerMinute: config.requestsPerMinute ?? null },
+  generate: async ({ feature, prompt, responseSchema }, signal) => {
+    if (!config.baseUrl) throw new AIServiceError('NO_API_KEY', "No model server configured");
+
+    // Smaller local models follow the schema far better when it is also in the prompt
+    const jsonSchema = responseSchema ? toJsonSchema(responseSchema) : undefined;
+    const content = jsonSchema
+      ? `${prompt}\n\nRespond ONLY with JSON matching this JSON Schema:\n${JSON.stringify(jsonSchema)}`
+      : prompt;
+
+    let response: Response;
+    try {
+      response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+        method: 'POST',
+        signal,
+        headers: {
+          'Content-Type': 'application/json',
+          ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+        },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [{ role: 'user', content }],
+          response_format: jsonSchema
+            ? { type: 'json_schema', json_schema: { name: feature, schema: jsonSchema } }
+            : undefined
+        })
+      });
+    } catch (e) {
+      throw new AIServiceError('REQUEST_FAILED', "Model server request failed", e);
+    }
+    if (!response.ok) {
+      throw new AIServiceError('REQUEST_FAILED', `Model server returned HTTP ${response.status}`, await response.text().catch(() => ''), response.status);
+    }
+    let data: any;
+    try {
+      data = await response.json();
+    } catch (e) {
+      throw new AIServiceError('REQUEST_FAILED', "Model server sent an unreadable response", e);
+    }
+    const text = data?.choices?.[0]?.message?.content;
+    const usage = data?.usage;
+    return {
+      text: typeof text === 'string' ? text : '',
+      usage: usage ? {
+        promptTokens: usage.prompt_tokens || 0,
+        outputTokens: usage.completion_tokens || 0,
+        totalTokens: usage.total_tokens || 0
+      } : undefined
+    };
+  }
+});
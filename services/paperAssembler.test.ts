@@ -0,0 +1,65 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Question, TestConfig } from '../types';
+import { setProvider, LLMProvider } from './llmProvider';
+import { createFakeProvider } from './fakeProvider';
+import { buildBlueprint, generateForNextCell, mergeIntoPaper, isPaperComplete } from './paperAssembler';
+
+vi.mock('../utils/db', () => ({
+  addUsageRecord: vi.fn(() => Promise.resolve()),
+  queryQuestions: vi.fn(() => Promise.resolve([]))
+}));
+
+const topicConfig: TestConfig = {
+  mode: 'Topic',
+  totalQuestions: 6,
+  durationMinutes: 10,
+  selectedSubjects: ['Mathematics'],
+  selectedTopic: 'Profit & Loss',
+  difficultyMix: { Easy: 1, Medium: 0, Hard: 0 }
+};
+
+// A model that files every question under a neighbouring topic
+const mislabellingProvider = (): LLMProvider => {
+  const fake = createFakeProvider({ provider: 'fake', model: 'fake-test' });
+  return {
+    ...fake,
+    generate: async (request, signal) => {
+      const { text } = await fake.generate(request, signal);
+      return { text: text.split('"topic":"Profit & Loss"').join('"topic":"Percentage"') };
+    }
+  };
+};
+
+const question = (id: string, subject: Question['subject']): Question => ({
+  id,
+  text: `Question ${id}`,
+  options: ['1', '2', '3', '4'],
+  correctAnswer: 0,
+  subject,
+  topic: subject === 'Mathematics' ? 'Percentage' : 'Polity',
+  difficulty: 'Easy',
+  explanation: ''
+});
+
+describe('generateForNextCell', () => {
+  beforeEach(() => setProvider(mislabellingProvider()));
+
+  it('fills a topic paper even when the model labels the topic differently', async () => {
+    const blueprint = buildBlueprint(topicConfig);
+    let paper: Question[] = [];
+    for (let round = 0; round < 3 && !isPaperComplete(blueprint, paper); round++) {
+      paper = mergeIntoPaper(topicConfig, paper, await generateForNextCell(topicConfig, blueprint, paper));
+    }
+    expect(paper).toHaveLength(6);
+    expect(paper.every(q => q.topic === 'Profit & Loss' && q.difficulty === 'Easy')).toBe(true);
+  });
+});
+
+describe('mergeIntoPaper', () => {
+  it('keeps the whole paper in section order', () => {
+    const config: TestConfig = { ...topicConfig, mode: 'Full', selectedTopic: undefined, selectedSubjects: ['Mathematics', 'General Awareness'] };
+    const paper = mergeIntoPaper(config, [question('ga1', 'General Awareness')], [question('m1', 'Mathematics'), question('ga2', 'General Awareness')]);
+    expect(paper.map(q => q.id)).toEqual(['m1', 'ga1', 'ga2']);
+  });
+});
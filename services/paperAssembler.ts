@@ -0,0 +1,184 @@
+import { Question, Subject, Difficulty, TestConfig } from '../types';
+import { generateQuestions, generateQuestionGroup } from './geminiService';
+import { getSectionQuotas } from '../utils/examPatterns';
+import { queryQuestions } from '../utils/db';
+import { createDedupeIndex } from '../utils/dedupe';
+import { groupUnits, GROUP_TOPICS, MIN_GROUP_SIZE, MAX_GROUP_SIZE } from '../utils/questionGroups';
+
+export interface BlueprintCell {
+  subject: Subject;
+  difficulty: Difficulty;
+  count: number;
+}
+
+export interface PaperBlueprint {
+  topic?: string;
+  cells: BlueprintCell[];
+  // Questions from recent tests the paper must not repeat
+  avoid: Question[];
+}
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+export const DEFAULT_DIFFICULTY_MIX: Record<Difficulty, number> = { Easy: 0.3, Medium: 0.5, Hard: 0.2 };
+
+// Largest-remainder split so every section's difficulty counts add up to its quota exactly
+const splitByMix = (total: number, mix: Record<Difficulty, number>): Record<Difficulty, number> => {
+  const exact = DIFFICULTIES.map(d => ({ d, value: total * (mix[d] || 0) }));
+  const counts = Object.fromEntries(exact.map(e => [e.d, Math.floor(e.value)])) as Record<Difficulty, number>;
+  let leftover = total - DIFFICULTIES.reduce((acc, d) => acc + counts[d], 0);
+  [...exact]
+    .sort((a, b) => (b.value - Math.floor(b.value)) - (a.value - Math.floor(a.value)))
+    .forEach(({ d }) => {
+      if (leftover > 0) {
+        counts[d]++;
+        leftover--;
+      }
+    });
+  return counts;
+};
+
+export const buildBlueprint = (config: TestConfig, avoid: Question[] = []): PaperBlueprint => {
+  const mix = config.difficultyMix || DEFAULT_DIFFICULTY_MIX;
+  const cells: BlueprintCell[] = [];
+  getSectionQuotas(config).forEach(({ subject, questionCount }) => {
+    const split = splitByMix(questionCount, mix);
+    DIFFICULTIES.forEach(difficulty => {
+      if (split[difficulty] > 0) cells.push({ subject, difficulty, count: split[difficulty] });
+    });
+  });
+  return { topic: config.selectedTopic, cells, avoid };
+};
+
+// Cells that still need questions, with `count` reduced to what is missing
+export const getBlueprintDeficits = (blueprint: PaperBlueprint, questions: Question[]): BlueprintCell[] => {
+  return blueprint.cells
+    .map(cell => ({
+      ...cell,
+      count: cell.count - questions.filter(q => q.subject === cell.subject && q.difficulty === cell.difficulty).length
+    }))
+    .filter(cell => cell.count > 0);
+};
+
+const matchesBlueprint = (blueprint: PaperBlueprint, q: Question) =>
+  !blueprint.topic || q.topic === blueprint.topic;
+
+const cellKey = (q: Question) => `${q.subject}|${q.difficulty}`;
+
+// Keeps only the incoming questions that fill an open cell, never overfilling one.
+// Ids alone can't catch repeats (every generated question gets a fresh id), so
+// text fingerprints are checked against the paper and the blueprint's avoid list.
+// A shared-stem set is taken whole or not at all, and its members stay adjacent.
+export const fitToBlueprint = (blueprint: PaperBlueprint, existing: Question[], incoming: Question[]): Question[] => {
+  const open = new Map(getBlueprintDeficits(blueprint, existing).map(c => [`${c.subject}|${c.difficulty}`, c.count]));
+  const seen = new Set(existing.map(q => q.id));
+  const repeats = createDedupeIndex([...existing, ...blueprint.avoid]);
+  const fitted: Question[] = [];
+
+  groupUnits(incoming).forEach(unit => {
+    const needed = new Map<string, number>();
+    unit.forEach(q => needed.set(cellKey(q), (needed.get(cellKey(q)) || 0) + 1));
+    const fits = [...needed].every(([key, n]) => (open.get(key) || 0) >= n) &&
+      unit.every(q => !seen.has(q.id) && matchesBlueprint(blueprint, q) && !repeats.match(q));
+    if (!fits) return;
+
+    needed.forEach((n, key) => open.set(key, (open.get(key) || 0) - n));
+    unit.forEach(q => {
+      seen.add(q.id);
+      repeats.add(q);
+      fitted.push(q);
+    });
+  });
+  return fitted;
+};
+
+// Bank questions first: these start the paper instantly without an API call
+export const takeFromBank = (blueprint: PaperBlueprint, bank: Question[], existing: Question[] = []): Question[] =>
+  fitToBlueprint(blueprint, existing, bank);
+
+// Indexed lookup of cached questions for every cell, unseen ones first. Over-fetches
+// so questions later rejected as repeats can be replaced.
+export const queryBankForBlueprint = async (blueprint: PaperBlueprint): Promise<Question[]> => {
+  const perCell = await Promise.all(blueprint.cells.map(cell =>
+    queryQuestions({ subject: cell.subject, topic: blueprint.topic, difficulty: cell.difficulty, limit: cell.count * 3 })
+  ));
+  return perCell.flat();
+};
+
+// Keeps each section contiguous, in pattern order; the sort is stable, so sets stay together
+const sortBySection = (config: TestConfig, questions: Question[]): Question[] => {
+  const order = getSectionQuotas(config).map(s => s.subject);
+  return [...questions].sort((a, b) => order.indexOf(a.subject) - order.indexOf(b.subject));
+};
+
+// The paper so far plus a new batch, in section order: bank questions may already sit in a
+// later section when an earlier one is still being generated
+export const mergeIntoPaper = (config: TestConfig, existing: Question[], incoming: Question[]): Question[] =>
+  sortBySection(config, [...existing, ...incoming]);
+
+// Generates only what the largest open cell of the first unfinished section is missing,
+// so a streamed paper fills section by section like an offline one
+export const generateForNextCell = async (config: TestConfig, blueprint: PaperBlueprint, existing: Question[]): Promise<Question[]> => {
+  const deficits = getBlueprintDeficits(blueprint, existing);
+  if (deficits.length === 0) return [];
+
+  const section = deficits[0].subject;
+  const cell = deficits.filter(c => c.subject === section).reduce((a, b) => (b.count > a.count ? b : a));
+  const cellConfig = { ...config, selectedSubjects: [cell.subject] };
+  // Set topics are asked as sets, as long as the cell has room for one
+  const batch = blueprint.topic && GROUP_TOPICS.includes(blueprint.topic) && cell.count >= MIN_GROUP_SIZE
+    ? await generateQuestionGroup(cellConfig, Math.min(cell.count, MAX_GROUP_SIZE), cell.difficulty)
+    : await generateQuestions(cellConfig, Math.min(cell.count, 5), cell.difficulty);
+  // The prompt asked for this cell (and topic); a model that labels items differently must not leave it unfilled
+  const stamped = batch.map(q => ({
+    ...q,
+    subject: cell.subject,
+    difficulty: cell.difficulty,
+    topic: blueprint.topic || q.topic
+  }));
+  return fitToBlueprint(blueprint, existing, stamped);
+};
+
+export const isPaperComplete = (blueprint: PaperBlueprint, questions: Question[]): boolean =>
+  getBlueprintDeficits(blueprint, questions).length === 0 &&
+  questions.length === blueprint.cells.reduce((acc, c) => acc + c.count, 0);
+
+const shuffle = <T,>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+const lastSeen = (unit: Question[]) => Math.max(...unit.map(q => q.lastSeenAt || 0));
+
+// Offline papers come entirely from the local bank. Cells the bank can't fill at the
+// requested difficulty borrow from the same subject at any difficulty, so the result
+// may be shorter than the blueprint only when the subject itself runs dry.
+// Sets are shuffled and placed as units, so their members are never split up.
+export const assembleOfflinePaper = (config: TestConfig, bank: Question[], avoid: Question[] = []): Question[] => {
+  const blueprint = buildBlueprint(config, avoid);
+  const units = shuffle(groupUnits(bank.filter(q => matchesBlueprint(blueprint, q))))
+    .sort((a, b) => lastSeen(a) - lastSeen(b));
+  const paper = takeFromBank(blueprint, units.flat());
+  const used = new Set(paper.map(q => q.id));
+  const repeats = createDedupeIndex([...paper, ...avoid]);
+
+  getSectionQuotas(config).forEach(({ subject, questionCount }) => {
+    let missing = questionCount - paper.filter(q => q.subject === subject).length;
+    for (const unit of units) {
+      if (missing <= 0) break;
+      if (unit.length > missing || unit.some(q => q.subject !== subject || used.has(q.id) || repeats.match(q))) continue;
+      unit.forEach(q => {
+        paper.push(q);
+        used.add(q.id);
+        repeats.add(q);
+      });
+      missing -= unit.length;
+    }
+  });
+
+  return sortBySection(config, paper);
+};
@@ -0,0 +1,75 @@
+import { Question, TestConfig, Difficulty } from '../types';
+import { generateQuestions } from './geminiService';
+import { queryQuestions, cacheQuestions } from '../utils/db';
+import { createDedupeIndex } from '../utils/dedupe';
+import { PracticePlan } from '../utils/practice';
+
+export const PRACTICE_BATCH_SIZE = 5;
+
+// Practice sessions have no fixed length; this only bounds how far one can run
+export const PRACTICE_MAX_QUESTIONS = 200;
+
+// Where a batch looks next when nothing is left at the planned difficulty
+const ADJACENT_DIFFICULTIES: Record<Difficulty, Difficulty[]> = {
+  Easy: ['Medium'],
+  Medium: ['Easy', 'Hard'],
+  Hard: ['Medium']
+};
+
+// Next few practice questions as planned: least recently seen bank questions first,
+// topped up with generated ones when the model may be used. With neither at the planned
+// difficulty, the bank is asked for adjacent difficulties and then any, so practice never stalls.
+export const fetchPracticeBatch = async (
+  config: TestConfig,
+  existing: Question[],
+  plan: PracticePlan,
+  allowGenerate: boolean
+): Promise<Question[]> => {
+  const { difficulty } = plan;
+  // A planned topic narrows the session's scope for this batch only
+  const scope: TestConfig = plan.subject && plan.topic
+    ? { ...config, selectedSubjects: [plan.subject], selectedTopic: plan.topic }
+    : config;
+  const seen = new Set(existing.map(q => q.id));
+  const repeats = createDedupeIndex(existing);
+  const batch: Question[] = [];
+  const take = (candidates: Question[]) => {
+    for (const q of candidates) {
+      if (batch.length >= PRACTICE_BATCH_SIZE) break;
+      if (seen.has(q.id) || repeats.match(q)) continue;
+      batch.push(q);
+      seen.add(q.id);
+      repeats.add(q);
+    }
+  };
+
+  const takeFromBank = async (bankDifficulty?: Difficulty) => {
+    const perSubject = await Promise.all(scope.selectedSubjects.map(subject =>
+      queryQuestions({ subject, topic: scope.selectedTopic, difficulty: bankDifficulty, excludeIds: [...seen], limit: PRACTICE_BATCH_SIZE * 3 })
+    ));
+    take(perSubject.flat().sort((a, b) => (a.lastSeenAt || 0) - (b.lastSeenAt || 0)));
+  };
+
+  await takeFromBank(difficulty);
+
+  let generationError: unknown = null;
+  if (batch.length < PRACTICE_BATCH_SIZE && allowGenerate) {
+    try {
+      const before = batch.length;
+      take(await generateQuestions(scope, PRACTICE_BATCH_SIZE - batch.length, difficulty));
+      cacheQuestions(batch.slice(before).map(q => ({ ...q, lastSeenAt: Date.now() })))
+        .catch(e => console.warn("Failed to cache practice questions", e));
+    } catch (e) {
+      // Bank questions alone still keep the session going
+      generationError = e;
+      console.warn("Practice generation failed; continuing with bank questions", e);
+    }
+  }
+
+  if (batch.length === 0) {
+    for (const nearby of ADJACENT_DIFFICULTIES[difficulty]) await takeFromBank(nearby);
+    if (batch.length === 0) await takeFromBank();
+  }
+  if (batch.length === 0 && generationError) throw generationError;
+  return batch;
+};
@@ -0,0 +1,274 @@
+import type { Type, Schema } from "@google/genai";
+import { Subject, Difficulty, AIFeature, SUBJECT_TOPICS } from "../types";
+import type { LLMRequest } from "./llmProvider";
+
+// Prompts are built from these structured inputs, in the browser and again on the proxy
+// server, which only ever accepts the inputs - never a ready-made prompt
+
+export interface QuestionsInput {
+  subjects: Subject[];
+  topic?: string;
+  difficulty?: Difficulty;
+  count: number;
+}
+
+export interface QuestionGroupInput {
+  subjects: Subject[];
+  topic: string;
+  difficulty?: Difficulty;
+  size: number;
+}
+
+export interface FlashcardsInput {
+  topics: string[];
+}
+
+// What the tutor prompts see of a question; stem is the flattened shared data of a set
+export interface QuestionContext {
+  text: string;
+  options: string[];
+  topic: string;
+  stem?: string;
+}
+
+export interface HintInput {
+  question: QuestionContext;
+}
+
+export interface DoubtInput {
+  question: QuestionContext & { answer: string; explanation: string };
+  query: string;
+}
+
+export interface AnalysisInput {
+  score: number;
+  total: number;
+  accuracy: number;
+  subjectWise: Record<string, number>;
+}
+
+export interface AIInputs {
+  questions: QuestionsInput;
+  questionGroup: QuestionGroupInput;
+  flashcards: FlashcardsInput;
+  hint: HintInput;
+  doubt: DoubtInput;
+  analysis: AnalysisInput;
+}
+
+export type AIInput = AIInputs[AIFeature];
+
+// Truncation loses the trailing items, so batches stay small
+export const MAX_QUESTION_BATCH = 5;
+export const MAX_FLASHCARD_TOPICS = 3;
+
+// --- Response Schemas ---
+
+// The SDK's Type values, written out so the SDK itself stays out of the browser bundle
+const SchemaType = {
+  OBJECT: 'OBJECT' as Type.OBJECT,
+  ARRAY: 'ARRAY' as Type.ARRAY,
+  STRING: 'STRING' as Type.STRING,
+  INTEGER: 'INTEGER' as Type.INTEGER,
+  NUMBER: 'NUMBER' as Type.NUMBER
+};
+
+const TRANSLATION_SCHEMA: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    text: { type: SchemaType.STRING },
+    options: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING }, minItems: "4", maxItems: "4" },
+    explanation: { type: SchemaType.STRING }
+  },
+  required: ['text', 'options', 'explanation'],
+  propertyOrdering: ['text', 'options', 'explanation']
+};
+
+const TABLE_SCHEMA: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    caption: { type: SchemaType.STRING },
+    headers: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+    rows: { type: SchemaType.ARRAY, items: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } } }
+  },
+  required: ['headers', 'rows'],
+  propertyOrdering: ['caption', 'headers', 'rows']
+};
+
+const QUESTION_SCHEMA: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    text: { type: SchemaType.STRING },
+    options: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING }, minItems: "4", maxItems: "4" },
+    correctAnswer: { type: SchemaType.INTEGER, minimum: 0, maximum: 3 },
+    subject: { type: SchemaType.STRING, enum: Object.keys(SUBJECT_TOPICS) },
+    topic: { type: SchemaType.STRING },
+    difficulty: { type: SchemaType.STRING, enum: ['Easy', 'Medium', 'Hard'] },
+    explanation: { type: SchemaType.STRING },
+    pyqTag: { type: SchemaType.STRING },
+    table: TABLE_SCHEMA,
+    hindi: TRANSLATION_SCHEMA
+  },
+  required: ['text', 'options', 'correctAnswer', 'subject', 'topic', 'difficulty', 'explanation', 'hindi'],
+  propertyOrdering: ['text', 'options', 'correctAnswer', 'subject', 'topic', 'difficulty', 'explanation', 'pyqTag', 'table', 'hindi']
+};
+
+// One shared stem (and table) followed by the questions asked on it
+const GROUP_SCHEMA: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    stem: { type: SchemaType.STRING },
+    table: TABLE_SCHEMA,
+    hindiStem: { type: SchemaType.STRING },
+    questions: { type: SchemaType.ARRAY, items: QUESTION_SCHEMA }
+  },
+  required: ['stem', 'hindiStem', 'questions'],
+  propertyOrdering: ['stem', 'table', 'hindiStem', 'questions']
+};
+
+const FLASHCARD_SCHEMA: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    topic: { type: SchemaType.STRING },
+    content: { type: SchemaType.STRING },
+    keyPoint: { type: SchemaType.STRING }
+  },
+  required: ['topic', 'content', 'keyPoint'],
+  propertyOrdering: ['topic', 'content', 'keyPoint']
+};
+
+// improvementTrend is not part of the schema - it is computed from stored history
+const ANALYSIS_SCHEMA: Schema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    predictedScore: { type: SchemaType.NUMBER },
+    strengthAreas: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+    weakAreas: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+    timeManagementTip: { type: SchemaType.STRING },
+    nextFocusTopic: { type: SchemaType.STRING }
+  },
+  required: ['predictedScore', 'strengthAreas', 'weakAreas', 'timeManagementTip', 'nextFocusTopic'],
+  propertyOrdering: ['predictedScore', 'strengthAreas', 'weakAreas', 'timeManagementTip', 'nextFocusTopic']
+};
+
+// --- Prompts ---
+
+const allowedTopicsFor = (subjects: Subject[]) => subjects.flatMap(sub => SUBJECT_TOPICS[sub]).join(", ");
+
+const difficultyContextFor = (difficulty?: Difficulty) =>
+  difficulty ? `Every question MUST be of "${difficulty}" difficulty.` : "Mix Easy, Medium and Hard difficulty.";
+
+// Shared by single questions and sets, so both read the same to the model
+const questionRules = (allowedTopics: string) => `- Realism: Mimic RRB NTPC question style.
+    - Options: exactly 4; correctAnswer is the 0-based index of the right one.
+    - Topic: MUST be one of: ${allowedTopics}.
+    - Tag: Add "pyqTag" (e.g., "RRB NTPC 2021").
+    - Explanation MUST be under 20 words to save tokens.
+    - Math Explanations: ONLY the shortcut formula.
+    - Science Explanations: ONLY the mnemonic.
+    - Math: write formulas as LaTeX between $ signs, e.g. $\\frac{3}{4}$ or $x^2$.
+    - Language: write text, options and explanation in English, and the same question in Hindi (Devanagari) under "hindi", with options in the SAME order.`;
+
+const stemLine = (question: QuestionContext) => question.stem ? `Shared data: "${question.stem}"` : '';
+
+type RequestBody = Omit<LLMRequest, 'feature' | 'input'>;
+
+const BUILDERS: { [F in AIFeature]: (input: AIInputs[F]) => RequestBody } = {
+  questions: ({ subjects, topic, difficulty, count }) => ({
+    prompt: `
+    Act as a senior exam setter for the RRB NTPC Graduate Level Exam.
+    Generate ${count} UNIQUE multiple-choice questions.
+
+    Subjects: ${subjects.join(", ")}
+    Context: ${topic ? `Focus specifically on the topic: ${topic}.` : "Mix the topics based on standard RRB NTPC weightage."}
+    Difficulty: ${difficultyContextFor(difficulty)}
+
+    Rules:
+    ${questionRules(allowedTopicsFor(subjects))}
+    - Data Interpretation: give the data set as "table" (headers + rows) and refer to it in the text; omit "table" otherwise.
+  `,
+    responseSchema: { type: SchemaType.ARRAY, items: QUESTION_SCHEMA },
+    params: { count, subjects, topic, difficulty }
+  }),
+
+  questionGroup: ({ subjects, topic, difficulty, size }) => ({
+    prompt: `
+    Act as a senior exam setter for the RRB NTPC Graduate Level Exam.
+    Write ONE ${topic} set: a shared "stem" (the data or arrangement) followed by ${size} questions that can only be answered from it.
+
+    Subjects: ${subjects.join(", ")}
+    Difficulty: ${difficultyContextFor(difficulty)}
+
+    Rules:
+    ${questionRules(allowedTopicsFor(subjects))}
+    - Stem: put the data set in "table" (headers + rows) when it is tabular, and the Hindi stem under "hindiStem".
+    - Questions: do NOT repeat the stem or the table inside each question; every question has topic "${topic}".
+  `,
+    responseSchema: GROUP_SCHEMA,
+    params: { count: size, subjects, topic, difficulty }
+  }),
+
+  flashcards: ({ topics }) => ({
+    prompt: `
+    RRB NTPC Exam Prep.
+    Topics: ${topics.join(", ")}.
+    Create 3 concise Flashcards.
+    Fields: topic, content (max 15 words), keyPoint (max 10 words).
+  `,
+    responseSchema: { type: SchemaType.ARRAY, items: FLASHCARD_SCHEMA },
+    params: { topics }
+  }),
+
+  hint: ({ question }) => ({
+    prompt: `
+    ${stemLine(question)}
+    Question: "${question.text}"
+    Options: ${question.options.join(", ")}
+    Topic: ${question.topic}
+
+    Provide a STRATEGIC HINT to solve this.
+    Constraint: Do NOT reveal the answer.
+    Constraint: Keep it under 20 words.
+    Style: Coach whispering a clue.
+  `,
+    params: { topic: question.topic }
+  }),
+
+  doubt: ({ question, query }) => ({
+    prompt: `
+    You are an expert tutor for RRB NTPC exams.
+    ${stemLine(question)}
+    Context Question: "${question.text}"
+    Correct Answer: "${question.answer}"
+    Explanation: "${question.explanation}"
+
+    Student Doubt: "${query}"
+
+    Provide a clear, simple explanation in 50 words or less. Use an example if needed.
+  `,
+    params: { topic: question.topic }
+  }),
+
+  analysis: ({ score, total, accuracy, subjectWise }) => ({
+    prompt: `
+    Analyze this student's RRB NTPC mock test performance:
+    Score: ${score}/${total}
+    Accuracy: ${accuracy}%
+    Subject Scores: ${JSON.stringify(subjectWise)}
+
+    - predictedScore: predict final exam score out of 100 based on this
+    - strengthAreas: top 2 strengths
+    - weakAreas: top 2 weaknesses
+    - timeManagementTip: max 10 words
+    - nextFocusTopic: single most important topic to study
+  `,
+    responseSchema: ANALYSIS_SCHEMA,
+    params: { accuracy, subjectScores: subjectWise }
+  })
+};
+
+export const buildRequest = <F extends AIFeature>(feature: F, input: AIInputs[F]): LLMRequest => ({
+  ...BUILDERS[feature](input),
+  feature,
+  input
+});
@@ -0,0 +1,75 @@
+import { AIFeature } from "../types";
+import { AIServiceError, AIErrorCode } from "./aiErrors";
+import type { LLMProvider, LLMConfig } from "./llmProvider";
+
+// Routes of the proxy server (server/index.ts); both question kinds share /api/generate
+export const AI_ENDPOINTS: Record<AIFeature, string> = {
+  questions: '/api/generate',
+  questionGroup: '/api/generate',
+  hint: '/api/hint',
+  doubt: '/api/doubt',
+  analysis: '/api/analyze',
+  flashcards: '/api/flashcards'
+};
+
+export const HEALTH_ENDPOINT = '/api/health';
+
+// Error codes the server may answer with; anything else is a plain transport failure
+const SERVER_ERROR_CODES: AIErrorCode[] = ['NO_API_KEY', 'REQUEST_FAILED', 'RATE_LIMITED', 'BUDGET_EXCEEDED'];
+
+// Calls the app's own proxy server, which holds the key and runs the configured backend.
+// Only the structured input goes over the wire; the server rebuilds the prompt itself.
+export const createProxyProvider = (config: LLMConfig): LLMProvider => {
+  // Assumed usable until the health check says otherwise
+  let configured = true;
+
+  const provider: LLMProvider = {
+    id: config.provider,
+    model: config.model,
+    isConfigured: () => configured,
+    limits: { concurrency: 2, requestsPerMinute: config.requestsPerMinute ?? null },
+    checkStatus: async () => {
+      try {
+        const response = await fetch(HEALTH_ENDPOINT);
+        const data = await response.json();
+        configured = response.ok && data?.configured === true;
+        // The server's model is the one that gets billed
+        if (typeof data?.model === 'string') provider.model = data.model;
+      } catch (e) {
+        console.warn("AI proxy server is not reachable", e);
+        configured = false;
+      }
+      return configured;
+    },
+    generate: async ({ feature, input }, signal) => {
+      let response: Response;
+      try {
+        response = await fetch(AI_ENDPOINTS[feature], {
+          method: 'POST',
+          signal,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ feature, input })
+        });
+      } catch (e) {
+        throw new AIServiceError('REQUEST_FAILED', "AI proxy server request failed", e);
+      }
+      let data: any;
+      try {
+        data = await response.json();
+      } catch (e) {
+        throw new AIServiceError('REQUEST_FAILED', `AI proxy server sent an unreadable response (HTTP ${response.status})`, e);
+      }
+      if (!response.ok) {
+        const code: AIErrorCode = SERVER_ERROR_CODES.includes(data?.code) ? data.code : 'REQUEST_FAILED';
+        // Only the statuses the server uses for "busy, try later" are passed on, so the scheduler retries those alone
+        const status = response.status === 429 || response.status === 503 ? response.status : undefined;
+        throw new AIServiceError(code, data?.message || `AI proxy server returned HTTP ${response.status}`, undefined, status);
+      }
+      return {
+        text: typeof data?.text === 'string' ? data.text : '',
+        usage: data?.usage
+      };
+    }
+  };
+  return provider;
+};
@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { AIServiceError } from './aiErrors';
+import { configureScheduler, scheduleRequest, cancelRequests, getSchedulerStatus } from './requestScheduler';
+
+// A request that stays open until the test settles it
+const deferred = () => {
+  let resolve!: (value: string) => void;
+  let reject!: (e: unknown) => void;
+  const promise = new Promise<string>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+// One clock for the whole file: the scheduler is module state, and a backoff set by one
+// test must have run out for the next, not lie ahead of a clock that was reset
+beforeAll(() => vi.useFakeTimers());
+afterAll(() => vi.useRealTimers());
+
+describe('requestScheduler', () => {
+  it('runs no more requests at once than the concurrency limit', async () => {
+    configureScheduler({ concurrency: 1, requestsPerMinute: null });
+    const first = deferred();
+    const run = vi.fn(() => Promise.resolve('second'));
+    const results = [scheduleRequest('questions', () => first.promise), scheduleRequest('questions', run)];
+    expect(getSchedulerStatus()).toMatchObject({ active: 1, queued: 1 });
+    expect(run).not.toHaveBeenCalled();
+
+    first.resolve('first');
+    expect(await Promise.all(results)).toEqual(['first', 'second']);
+  });
+
+  it('holds requests back once the minute quota is used', async () => {
+    configureScheduler({ concurrency: 5, requestsPerMinute: 2 });
+    const run = vi.fn(() => Promise.resolve('ok'));
+    const results = [1, 2, 3].map(() => scheduleRequest('questions', run));
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(getSchedulerStatus().waitingForQuota).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(30_000);
+    expect(run).toHaveBeenCalledTimes(3);
+    await Promise.all(results);
+  });
+
+  it('retries a 429 after a backoff', async () => {
+    configureScheduler({ concurrency: 2, requestsPerMinute: null });
+    const run = vi.fn()
+      .mockRejectedValueOnce(new AIServiceError('RATE_LIMITED', 'busy', undefined, 429))
+      .mockResolvedValueOnce('ok');
+    const result = scheduleRequest('questions', run);
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(await result).toBe('ok');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up as RATE_LIMITED when every retry is rate limited', async () => {
+    configureScheduler({ concurrency: 2, requestsPerMinute: null });
+    const run = vi.fn(() => Promise.reject(new AIServiceError('REQUEST_FAILED', 'busy', undefined, 429)));
+    const result = scheduleRequest('questions', run);
+    const outcome = expect(result).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+    await vi.advanceTimersByTimeAsync(5 * 60_000);
+    await outcome;
+    expect(run).toHaveBeenCalledTimes(5);
+  });
+
+  it('does not retry other failures', async () => {
+    configureScheduler({ concurrency: 2, requestsPerMinute: null });
+    const run = vi.fn(() => Promise.reject(new AIServiceError('REQUEST_FAILED', 'bad request', undefined, 400)));
+    await expect(scheduleRequest('questions', run)).rejects.toMatchObject({ code: 'REQUEST_FAILED' });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels queued and running requests of the given features only', async () => {
+    configureScheduler({ concurrency: 1, requestsPerMinute: null });
+    const running = deferred();
+    let signal: AbortSignal | undefined;
+    // Like a real backend call, the running request ends when it is aborted
+    const hint = scheduleRequest('hint', s => {
+      signal = s;
+      s.addEventListener('abort', () => running.reject(new Error('aborted')));
+      return running.promise;
+    });
+    const queued = scheduleRequest('hint', () => Promise.resolve('never'));
+    const other = scheduleRequest('questions', () => Promise.resolve('kept'));
+
+    cancelRequests(['hint']);
+    await expect(hint).rejects.toMatchObject({ code: 'CANCELLED' });
+    await expect(queued).rejects.toMatchObject({ code: 'CANCELLED' });
+    expect(signal?.aborted).toBe(true);
+    expect(await other).toBe('kept');
+  });
+});
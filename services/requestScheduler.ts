@@ -0,0 +1,161 @@
+import { AIServiceError } from "./aiErrors";
+import { AIFeature } from "../types";
+
+export interface SchedulerLimits {
+  concurrency: number;
+  requestsPerMinute: number | null; // null: no rate limit, e.g. a local model server
+}
+
+export interface SchedulerStatus {
+  active: number;
+  queued: number;
+  waitingForQuota: boolean; // queued requests are held back by the rate limit or a 429/5xx backoff
+  resumeAt: number | null; // epoch ms when held-back requests go again
+}
+
+interface Job {
+  feature: AIFeature;
+  run: (signal: AbortSignal) => Promise<unknown>;
+  controller: AbortController;
+  retries: number;
+  settled: boolean;
+  resolve: (value: unknown) => void;
+  reject: (e: unknown) => void;
+}
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60000;
+
+let limits: SchedulerLimits = { concurrency: 2, requestsPerMinute: null };
+// Token bucket holding up to a minute's worth of requests
+let tokens = 0;
+let lastRefill = Date.now();
+// Set by a 429/5xx: nothing new starts before this, whichever request hit it
+let blockedUntil = 0;
+let resumeAt: number | null = null;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+const queue: Job[] = [];
+const active = new Set<Job>();
+const listeners = new Set<(status: SchedulerStatus) => void>();
+
+export const getSchedulerStatus = (): SchedulerStatus => ({
+  active: active.size,
+  queued: queue.length,
+  waitingForQuota: resumeAt !== null && queue.length > 0,
+  resumeAt
+});
+
+const notify = () => {
+  const status = getSchedulerStatus();
+  listeners.forEach(listener => listener(status));
+};
+
+// Called with the current status straight away, then on every change
+export const subscribeScheduler = (listener: (status: SchedulerStatus) => void): (() => void) => {
+  listeners.add(listener);
+  listener(getSchedulerStatus());
+  return () => { listeners.delete(listener); };
+};
+
+const refill = (now: number) => {
+  if (limits.requestsPerMinute === null) return;
+  tokens = Math.min(limits.requestsPerMinute, tokens + ((now - lastRefill) * limits.requestsPerMinute) / 60000);
+  lastRefill = now;
+};
+
+const wakeAt = (at: number) => {
+  resumeAt = at;
+  wakeTimer = setTimeout(pump, Math.max(0, at - Date.now()));
+};
+
+const settle = (job: Job, outcome: { value: unknown } | { error: unknown }) => {
+  if (job.settled) return;
+  job.settled = true;
+  if ('value' in outcome) job.resolve(outcome.value);
+  else job.reject(outcome.error);
+};
+
+const isRetryable = (e: unknown) =>
+  e instanceof AIServiceError && e.status !== undefined && (e.status === 429 || e.status >= 500);
+
+const start = (job: Job) => {
+  active.add(job);
+  job.run(job.controller.signal)
+    .then(value => settle(job, { value }))
+    .catch(e => {
+      if (job.settled) return;
+      if (job.controller.signal.aborted) {
+        settle(job, { error: new AIServiceError('CANCELLED', "Request cancelled", e) });
+      } else if (isRetryable(e) && job.retries < MAX_RETRIES) {
+        // Exponential backoff with jitter, applied to the whole queue: the quota is shared
+        const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** job.retries) + Math.random() * 1000;
+        job.retries++;
+        blockedUntil = Math.max(blockedUntil, Date.now() + delay);
+        queue.unshift(job);
+      } else if (isRetryable(e) && (e as AIServiceError).status === 429) {
+        settle(job, { error: new AIServiceError('RATE_LIMITED', "Still rate limited after retries", e, 429) });
+      } else {
+        settle(job, { error: e });
+      }
+    })
+    .finally(() => {
+      active.delete(job);
+      pump();
+    });
+};
+
+function pump() {
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeTimer = null;
+  resumeAt = null;
+
+  while (queue.length > 0 && active.size < limits.concurrency) {
+    const now = Date.now();
+    if (now < blockedUntil) {
+      wakeAt(blockedUntil);
+      break;
+    }
+    refill(now);
+    if (limits.requestsPerMinute !== null) {
+      if (tokens < 1) {
+        wakeAt(now + ((1 - tokens) * 60000) / limits.requestsPerMinute);
+        break;
+      }
+      tokens -= 1;
+    }
+    start(queue.shift()!);
+  }
+  notify();
+}
+
+// Applies from the next request on; a new provider starts with a full bucket
+export const configureScheduler = (next: SchedulerLimits) => {
+  limits = next;
+  tokens = next.requestsPerMinute ?? 0;
+  lastRefill = Date.now();
+  pump();
+};
+
+export const scheduleRequest = <T,>(feature: AIFeature, run: (signal: AbortSignal) => Promise<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    queue.push({ feature, run, controller: new AbortController(), retries: 0, settled: false, resolve: resolve as (value: unknown) => void, reject });
+    pump();
+  });
+
+// Drops queued requests for these features and aborts the ones in flight
+export const cancelRequests = (features: AIFeature[]) => {
+  const cancelled = (job: Job) => features.includes(job.feature);
+  for (let i = queue.length - 1; i >= 0; i--) {
+    if (!cancelled(queue[i])) continue;
+    const [job] = queue.splice(i, 1);
+    settle(job, { error: new AIServiceError('CANCELLED', "Request cancelled") });
+  }
+  active.forEach(job => {
+    if (!cancelled(job)) return;
+    job.controller.abort();
+    settle(job, { error: new AIServiceError('CANCELLED', "Request cancelled") });
+  });
+  pump();
+};
@@ -0,0 +1,31 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { setDailyBudgetPreference, setDailyTokenBudgetPreference } from '../utils/usage';
+import { recordUsage, isOverDailyBudget, getTodayTokens } from './usageTracker';
+
+vi.mock('../utils/db', () => ({
+  addUsageRecord: vi.fn(() => Promise.resolve()),
+  getUsageRecords: vi.fn(() => Promise.resolve([]))
+}));
+
+const call = (model: string) => ({ feature: 'hint' as const, provider: 'openai', model });
+
+describe('daily budget', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('stops a model without a listed price once the token cap is reached', () => {
+    setDailyBudgetPreference(0.01);
+    setDailyTokenBudgetPreference(getTodayTokens() + 1000);
+    recordUsage(call('llama3.1'), { promptTokens: 400, outputTokens: 500, totalTokens: 900 }, false);
+    expect(isOverDailyBudget()).toBe(false);
+    recordUsage(call('llama3.1'), { promptTokens: 100, outputTokens: 100, totalTokens: 200 }, false);
+    expect(isOverDailyBudget()).toBe(true);
+  });
+
+  it('stops a priced model once the USD budget is reached', () => {
+    setDailyBudgetPreference(0.001);
+    expect(isOverDailyBudget()).toBe(false);
+    recordUsage(call('gemini-2.5-flash'), { promptTokens: 1000, outputTokens: 1000, totalTokens: 2000 }, false);
+    expect(isOverDailyBudget()).toBe(true);
+  });
+});
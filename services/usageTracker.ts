@@ -0,0 +1,63 @@
+import { AIFeature, AIUsageRecord, TokenUsage } from "../types";
+import { addUsageRecord, getUsageRecords } from "../utils/db";
+import { estimateCost, dayKey, startOfToday, getDailyBudgetPreference, getDailyTokenBudgetPreference } from "../utils/usage";
+
+// Today's spend is kept in memory so the budget can be checked before every call without a DB read
+let today = dayKey(Date.now());
+let todaySpend = 0;
+let todayTokens = 0;
+// Calls logged by this session, which are already counted in todaySpend
+const sessionIds = new Set<string>();
+
+const rollOver = () => {
+  const now = dayKey(Date.now());
+  if (now === today) return;
+  today = now;
+  todaySpend = 0;
+  todayTokens = 0;
+};
+
+// Called once at startup, to count what earlier sessions spent today
+export const loadTodayUsage = async (): Promise<void> => {
+  const records = await getUsageRecords(startOfToday());
+  rollOver();
+  const earlier = records.filter(r => !sessionIds.has(r.id));
+  todaySpend += earlier.reduce((acc, r) => acc + estimateCost(r), 0);
+  todayTokens += earlier.reduce((acc, r) => acc + r.totalTokens, 0);
+};
+
+export const recordUsage = (
+  call: { feature: AIFeature; provider: string; model: string },
+  usage: TokenUsage,
+  estimated: boolean
+) => {
+  const record: AIUsageRecord = {
+    ...call,
+    ...usage,
+    id: `use-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    at: Date.now(),
+    estimated: estimated || undefined
+  };
+  rollOver();
+  todaySpend += estimateCost(record);
+  todayTokens += record.totalTokens;
+  sessionIds.add(record.id);
+  addUsageRecord(record).catch(e => console.warn("Failed to log AI usage", e));
+};
+
+export const getTodaySpend = (): number => {
+  rollOver();
+  return todaySpend;
+};
+
+export const getTodayTokens = (): number => {
+  rollOver();
+  return todayTokens;
+};
+
+// Either cap ends the day's optional AI use
+export const isOverDailyBudget = (): boolean => {
+  const budget = getDailyBudgetPreference();
+  const tokenBudget = getDailyTokenBudgetPreference();
+  return (budget > 0 && getTodaySpend() >= budget) || (tokenBudget > 0 && getTodayTokens() >= tokenBudget);
+};
@@ -1,3 +1,38 @@
+export type Language = 'en' | 'hi';
+
+export interface QuestionTranslation {
+  text: string;
+  options: string[]; // same order as the English options, so correctAnswer still applies
+  explanation: string;
+}
+
+// Text fields carry LaTeX inline as $...$ (or $$...$$ for display math);
+// tables and figures travel alongside as blocks
+export interface ContentTable {
+  type: 'table';
+  caption?: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ContentFigure {
+  type: 'figure';
+  svg: string; // sanitised before rendering
+  alt: string;
+  caption?: string;
+}
+
+export type ContentBlock = ContentTable | ContentFigure;
+
+// Shared stem for a DI table or puzzle set. Each member question carries its own
+// copy, so stored papers, review cards and exports stay self-contained.
+export interface QuestionGroup {
+  id: string;
+  stem: string;
+  media?: ContentBlock[];
+  translations?: Partial<Record<Language, string>>; // translated stem; base is English
+}
+
 export type Difficulty = 'Easy' | 'Medium' | 'Hard';
 
 export type Subject = 'Mathematics' | 'General Intelligence & Reasoning' | 'General Awareness';
@@ -13,23 +48,89 @@ export interface Question {
   explanation: string;
   pyqTag?: string; // e.g., "RRB NTPC 28 Dec 2020 Shift-1"
   cachedHint?: string; // Store hint to avoid re-fetching
+  media?: ContentBlock[]; // tables/figures shown under the question text
+  explanationMedia?: ContentBlock[];
+  translations?: Partial<Record<Language, QuestionTranslation>>; // base fields are English
+  lastSeenAt?: number; // Epoch ms this question was last served in a test; unset = unseen
+  group?: QuestionGroup; // set for members of a DI/puzzle set; members sit together in a paper
+}
+
+export interface MarkingRule {
+  marksPerCorrect: number;
+  negativeMarks: number; // deducted per wrong answer, unanswered questions score 0
+}
+
+export interface MarkingScheme extends MarkingRule {
+  id: string;
+  name: string;
+  sectionOverrides?: Partial<Record<Subject, MarkingRule>>;
+}
+
+export interface ExamSection {
+  subject: Subject;
+  questionCount: number;
+}
+
+export interface ExamPattern {
+  id: string;
+  name: string;
+  description: string;
+  durationMinutes: number;
+  sections: ExamSection[];
+  markingScheme: MarkingScheme;
 }
 
 export interface TestConfig {
-  mode: 'Full' | 'Subject' | 'Topic' | 'Custom';
+  mode: 'Full' | 'Subject' | 'Topic' | 'Custom' | 'Review' | 'Practice';
   totalQuestions: number;
   durationMinutes: number;
   selectedSubjects: Subject[];
   selectedTopic?: string;
+  markingScheme?: MarkingScheme; // defaults to NTPC CBT-1 marking
+  examPatternId?: string;
+  sections?: ExamSection[]; // fixed per-subject question counts, in paper order
+  difficultyMix?: Record<Difficulty, number>; // share of each difficulty within a section, sums to 1
+  strictMode?: boolean; // exam simulation: no hints, doubt chat or pause, and leaving the tab is warned
+  targetAccuracy?: number; // adaptive practice: % correct to aim for; difficulty follows estimated ability
+}
+
+// One stretch of a question being on screen, in epoch ms. Pauses and hidden tabs end a visit.
+export interface VisitSpan {
+  enteredAt: number;
+  exitedAt: number;
 }
 
 export interface UserResponse {
   questionId: string;
   selectedOption: number | null; // null if not answered
   status: 'Answered' | 'Not Answered' | 'Marked For Review' | 'Not Visited' | 'Answered & Marked';
-  timeSpentSeconds: number;
+  timeSpentSeconds: number; // sum of visits, rounded
   visited: boolean;
   isBookmarked?: boolean;
+  visits?: VisitSpan[];
+}
+
+export type AttemptEventType =
+  | 'navigate' | 'select' | 'clear' | 'mark' | 'bookmark'
+  | 'pause' | 'resume' | 'hint' | 'doubt' | 'leave' | 'submit';
+
+// One thing the candidate did during a test, in order; replayed step by step after it
+export interface AttemptEvent {
+  type: AttemptEventType;
+  at: number; // epoch ms
+  questionId?: string; // the question acted on; for 'navigate', the one moved to
+  option?: number; // 'select' only
+  on?: boolean; // 'bookmark' only: whether the bookmark was set or removed
+}
+
+export interface TestSession {
+  config: TestConfig;
+  questions: Question[];
+  responses: Record<string, UserResponse>;
+  timeLeft: number;
+  currentQuestionIndex: number;
+  timestamp: number;
+  events?: AttemptEvent[];
 }
 
 export interface TestResult {
@@ -43,6 +144,31 @@ export interface TestResult {
   responses: Record<string, UserResponse>;
   date: string;
   aiAnalysis?: AIAnalysis;
+  aiFlashcards?: Flashcard[]; // generated once for the wrong answers, shown again on reopen
+  events?: AttemptEvent[]; // absent on attempts saved before the log existed
+}
+
+// A completed test as stored in history: the result plus the paper it was scored against
+export interface TestAttempt {
+  id: string;
+  config: TestConfig;
+  questions: Question[];
+  result: TestResult;
+}
+
+export type ReviewReason = 'wrong' | 'skipped' | 'bookmarked';
+
+// A question in the spaced-repetition deck, scheduled SM-2 style
+export interface ReviewCard {
+  id: string; // same as question.id
+  question: Question;
+  reasons: ReviewReason[];
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  dueAt: number; // epoch ms
+  addedAt: number;
+  lastReviewedAt?: number;
 }
 
 export interface AIAnalysis {
@@ -60,6 +186,40 @@ export interface Flashcard {
   keyPoint: string;
 }
 
+export type FlashcardSource = 'ai' | 'user' | 'question';
+export type FlashcardRating = 'got-it' | 'again';
+
+// A flashcard kept in the local deck, with its study history
+export interface SavedFlashcard extends Flashcard {
+  id: string;
+  source: FlashcardSource;
+  questionId?: string; // set when made from a question's explanation
+  createdAt: number;
+  gotItCount: number;
+  againCount: number;
+  lastRating?: FlashcardRating;
+  lastStudiedAt?: number;
+}
+
+// What an AI call was made for; usage is reported and budgeted per feature
+export type AIFeature = 'questions' | 'questionGroup' | 'hint' | 'doubt' | 'flashcards' | 'analysis';
+
+export interface TokenUsage {
+  promptTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// One provider call, as reported in the response's usage metadata
+export interface AIUsageRecord extends TokenUsage {
+  id: string;
+  at: number; // epoch ms
+  feature: AIFeature;
+  provider: string;
+  model: string;
+  estimated?: boolean; // the provider reported no counts, so they were estimated from text length
+}
+
 export const SUBJECT_TOPICS: Record<Subject, string[]> = {
   'Mathematics': [
     'Number System', 'HCF & LCM', 'Decimals & Fractions', 'Percentage', 
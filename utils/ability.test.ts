@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { Question, UserResponse, TestAttempt } from '../types';
+import { applyResponses, estimateAbilities, expectedAccuracy, difficultyForTarget, rankWeakestTopics, getAbility, BASE_RATING } from './ability';
+
+const question = (id: string, topic: string, difficulty: Question['difficulty'] = 'Medium'): Question => ({
+  id,
+  text: `Question ${id}`,
+  options: ['1', '2', '3', '4'],
+  correctAnswer: 0,
+  subject: 'Mathematics',
+  topic,
+  difficulty,
+  explanation: ''
+});
+
+const answer = (selectedOption: number | null): UserResponse => ({
+  questionId: 'q',
+  selectedOption,
+  status: selectedOption === null ? 'Not Answered' : 'Answered',
+  timeSpentSeconds: 10,
+  visited: true
+});
+
+describe('topic ability', () => {
+  it('expects half right at an equal rating and more on easier questions', () => {
+    expect(expectedAccuracy(1500, 'Medium')).toBeCloseTo(0.5);
+    expect(expectedAccuracy(1500, 'Easy')).toBeGreaterThan(0.5);
+    expect(expectedAccuracy(1500, 'Hard')).toBeLessThan(0.5);
+  });
+
+  it('moves further on a surprising outcome and ignores skipped questions', () => {
+    const abilities = applyResponses({}, [question('e', 'Percentage', 'Easy'), question('h', 'Algebra', 'Hard'), question('s', 'Geometry')], {
+      e: answer(1), h: answer(1), s: answer(null)
+    });
+    const missedEasy = BASE_RATING - getAbility(abilities, 'Mathematics', 'Percentage').rating;
+    const missedHard = BASE_RATING - getAbility(abilities, 'Mathematics', 'Algebra').rating;
+    expect(missedEasy).toBeGreaterThan(missedHard);
+    expect(getAbility(abilities, 'Mathematics', 'Geometry')).toMatchObject({ rating: BASE_RATING, answered: 0 });
+  });
+
+  it('replays history oldest first', () => {
+    const attempt = (date: string, selectedOption: number): TestAttempt => ({
+      id: date,
+      config: { mode: 'Topic', totalQuestions: 1, durationMinutes: 1, selectedSubjects: ['Mathematics'] },
+      questions: [question('q', 'Percentage')],
+      result: { totalQuestions: 1, attempted: 1, correct: 0, wrong: 0, score: 0, accuracy: 0, timeTakenSeconds: 1, date, responses: { q: answer(selectedOption) } }
+    });
+    const older = attempt('2026-01-01T00:00:00Z', 1);
+    const newer = attempt('2026-02-01T00:00:00Z', 0);
+    expect(estimateAbilities([newer, older])).toEqual(estimateAbilities([older, newer]));
+  });
+
+  it('picks the difficulty closest to the target accuracy', () => {
+    expect(difficultyForTarget(1500, 50)).toBe('Medium');
+    expect(difficultyForTarget(1500, 90)).toBe('Easy');
+    expect(difficultyForTarget(1900, 50)).toBe('Hard');
+  });
+
+  it('ranks the lowest rated topics first, untried ones before tried ones at the same rating', () => {
+    const abilities = applyResponses({}, [question('a', 'Algebra')], { a: answer(1) });
+    const ranked = rankWeakestTopics(abilities, ['Mathematics'], { 'Mathematics': ['Percentage', 'Algebra'], 'General Awareness': [], 'General Intelligence & Reasoning': [] });
+    expect(ranked.map(t => t.topic)).toEqual(['Algebra', 'Percentage']);
+  });
+});
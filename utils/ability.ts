@@ -0,0 +1,76 @@
+import { Question, UserResponse, TestAttempt, Subject, Difficulty } from '../types';
+
+// Elo-style ability per topic: each answer moves the topic rating towards the outcome,
+// by more when the outcome was unexpected for the question's difficulty
+export interface TopicAbility {
+  subject: Subject;
+  topic: string;
+  rating: number;
+  answered: number;
+}
+
+export type AbilityMap = Record<string, TopicAbility>;
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+export const BASE_RATING = 1500;
+
+// Questions carry a difficulty label, not a calibrated rating, so each label is one fixed rating
+const DIFFICULTY_RATINGS: Record<Difficulty, number> = { Easy: 1300, Medium: 1500, Hard: 1700 };
+
+// Large steps while a topic has few answers, settling once the estimate has some support
+const MAX_K = 64;
+const MIN_K = 16;
+const K_SETTLE_ANSWERS = 20;
+
+export const abilityKey = (subject: Subject, topic: string) => `${subject}::${topic}`;
+
+// Chance of a correct answer, in 0..1
+export const expectedAccuracy = (rating: number, difficulty: Difficulty): number =>
+  1 / (1 + Math.pow(10, (DIFFICULTY_RATINGS[difficulty] - rating) / 400));
+
+const kFactor = (answered: number) =>
+  Math.max(MIN_K, MAX_K - ((MAX_K - MIN_K) * answered) / K_SETTLE_ANSWERS);
+
+export const getAbility = (abilities: AbilityMap, subject: Subject, topic: string): TopicAbility =>
+  abilities[abilityKey(subject, topic)] || { subject, topic, rating: BASE_RATING, answered: 0 };
+
+// Folds answered questions into the map in order; skipped questions say nothing about ability
+export const applyResponses = (
+  abilities: AbilityMap,
+  questions: Question[],
+  responses: Record<string, UserResponse>
+): AbilityMap => {
+  const next = { ...abilities };
+  questions.forEach(q => {
+    const selected = responses[q.id]?.selectedOption;
+    if (selected === null || selected === undefined) return;
+    const current = getAbility(next, q.subject, q.topic);
+    const outcome = selected === q.correctAnswer ? 1 : 0;
+    next[abilityKey(q.subject, q.topic)] = {
+      ...current,
+      rating: current.rating + kFactor(current.answered) * (outcome - expectedAccuracy(current.rating, q.difficulty)),
+      answered: current.answered + 1
+    };
+  });
+  return next;
+};
+
+export const estimateAbilities = (history: TestAttempt[]): AbilityMap =>
+  [...history]
+    .sort((a, b) => a.result.date.localeCompare(b.result.date))
+    .reduce((abilities, attempt) => applyResponses(abilities, attempt.questions, attempt.result.responses), {} as AbilityMap);
+
+// The level whose expected accuracy is closest to the target (a %, as in TestConfig)
+export const difficultyForTarget = (rating: number, targetAccuracy: number): Difficulty => {
+  const target = targetAccuracy / 100;
+  return DIFFICULTIES.reduce((best, d) =>
+    Math.abs(expectedAccuracy(rating, d) - target) < Math.abs(expectedAccuracy(rating, best) - target) ? d : best
+  );
+};
+
+// Lowest rated first; among equals, the topic with less evidence first
+export const rankWeakestTopics = (abilities: AbilityMap, subjects: Subject[], topicsBySubject: Record<Subject, string[]>): TopicAbility[] =>
+  subjects
+    .flatMap(subject => topicsBySubject[subject].map(topic => getAbility(abilities, subject, topic)))
+    .sort((a, b) => a.rating - b.rating || a.answered - b.answered);
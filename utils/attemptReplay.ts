@@ -0,0 +1,105 @@
+import { Question, AttemptEvent } from '../types';
+
+// What the candidate was looking at and had answered right after one event
+export interface ReplayFrame {
+  event: AttemptEvent;
+  elapsedSeconds: number; // since the first event
+  questionId: string | null;
+  selections: Record<string, number | null>;
+  marked: Record<string, boolean>;
+  bookmarked: Record<string, boolean>;
+  paused: boolean;
+}
+
+export interface AnswerChangeStats {
+  changes: number; // a new option picked over a different earlier one
+  rightToWrong: number;
+  wrongToRight: number;
+  wrongToWrong: number;
+  revisits: number; // returns to a question already seen
+  hints: number;
+  doubts: number;
+  pauses: number;
+  leaves: number; // times the candidate switched away from the test tab
+}
+
+// Frames carry their own copies of the maps, so any step can be shown without re-folding
+export const buildReplay = (questions: Question[], events: AttemptEvent[]): ReplayFrame[] => {
+  const startedAt = events[0]?.at ?? 0;
+  let questionId: string | null = questions[0]?.id ?? null;
+  let selections: Record<string, number | null> = {};
+  let marked: Record<string, boolean> = {};
+  let bookmarked: Record<string, boolean> = {};
+  let paused = false;
+
+  return events.map(event => {
+    const id = event.questionId;
+    switch (event.type) {
+      case 'navigate':
+        if (id) questionId = id;
+        break;
+      case 'select':
+        if (id) selections = { ...selections, [id]: event.option ?? null };
+        break;
+      case 'clear':
+        if (id) selections = { ...selections, [id]: null };
+        break;
+      case 'mark':
+        if (id) marked = { ...marked, [id]: true };
+        break;
+      case 'bookmark':
+        if (id) bookmarked = { ...bookmarked, [id]: !!event.on };
+        break;
+      case 'pause':
+        paused = true;
+        break;
+      case 'resume':
+        paused = false;
+        break;
+    }
+    return {
+      event,
+      elapsedSeconds: Math.max(0, Math.round((event.at - startedAt) / 1000)),
+      questionId,
+      selections,
+      marked,
+      bookmarked,
+      paused
+    };
+  });
+};
+
+export const computeAnswerChanges = (questions: Question[], events: AttemptEvent[]): AnswerChangeStats => {
+  const correct = new Map(questions.map(q => [q.id, q.correctAnswer]));
+  // Last option picked per question; a clear doesn't reset it, so "B, clear, C" is a change
+  const lastPicked = new Map<string, number>();
+  const seen = new Set<string>(questions[0] ? [questions[0].id] : []);
+  const stats: AnswerChangeStats = { changes: 0, rightToWrong: 0, wrongToRight: 0, wrongToWrong: 0, revisits: 0, hints: 0, doubts: 0, pauses: 0, leaves: 0 };
+
+  events.forEach(event => {
+    const id = event.questionId;
+    if (event.type === 'navigate' && id) {
+      if (seen.has(id)) stats.revisits++;
+      seen.add(id);
+    } else if (event.type === 'select' && id && event.option !== undefined) {
+      const previous = lastPicked.get(id);
+      lastPicked.set(id, event.option);
+      if (previous === undefined || previous === event.option) return;
+      stats.changes++;
+      const wasRight = previous === correct.get(id);
+      const isRight = event.option === correct.get(id);
+      if (wasRight && !isRight) stats.rightToWrong++;
+      else if (!wasRight && isRight) stats.wrongToRight++;
+      else if (!wasRight && !isRight) stats.wrongToWrong++;
+    } else if (event.type === 'hint') {
+      stats.hints++;
+    } else if (event.type === 'doubt') {
+      stats.doubts++;
+    } else if (event.type === 'pause') {
+      stats.pauses++;
+    } else if (event.type === 'leave') {
+      stats.leaves++;
+    }
+  });
+  return stats;
+};
@@ -0,0 +1,51 @@
+import { Question, Subject, SUBJECT_TOPICS } from '../types';
+import { CORPUS_VERSION, QUESTION_CORPUS } from '../data/questionCorpus';
+import { cacheQuestions } from './db';
+
+const CORPUS_VERSION_KEY = 'rrb_corpus_version';
+const OFFLINE_MODE_KEY = 'rrb_offline_mode';
+const REPEAT_WINDOW_KEY = 'rrb_repeat_window';
+
+export const REPEAT_WINDOW_OPTIONS = [0, 3, 5, 10];
+
+export type BankCounts = Record<Subject, Record<string, number>>;
+
+// Loads the bundled corpus into the questions store once per corpus version
+export const ensureCorpusSeeded = async (): Promise<boolean> => {
+  const seeded = parseInt(localStorage.getItem(CORPUS_VERSION_KEY) || '0', 10);
+  if (seeded >= CORPUS_VERSION) return false;
+
+  await cacheQuestions(QUESTION_CORPUS);
+  localStorage.setItem(CORPUS_VERSION_KEY, String(CORPUS_VERSION));
+  return true;
+};
+
+export const countBankQuestions = (questions: Question[]): BankCounts => {
+  const counts = Object.fromEntries(
+    (Object.keys(SUBJECT_TOPICS) as Subject[]).map(subject => [
+      subject,
+      Object.fromEntries(SUBJECT_TOPICS[subject].map(topic => [topic, 0]))
+    ])
+  ) as BankCounts;
+
+  questions.forEach(q => {
+    if (counts[q.subject] && q.topic in counts[q.subject]) counts[q.subject][q.topic]++;
+  });
+  return counts;
+};
+
+export const getOfflinePreference = (): boolean => localStorage.getItem(OFFLINE_MODE_KEY) === 'true';
+
+export const setOfflinePreference = (enabled: boolean) => {
+  localStorage.setItem(OFFLINE_MODE_KEY, String(enabled));
+};
+
+// Number of recent tests whose questions new papers must not repeat (0 = only within a test)
+export const getRepeatWindowPreference = (): number => {
+  const value = parseInt(localStorage.getItem(REPEAT_WINDOW_KEY) || '0', 10);
+  return REPEAT_WINDOW_OPTIONS.includes(value) ? value : 0;
+};
+
+export const setRepeatWindowPreference = (tests: number) => {
+  localStorage.setItem(REPEAT_WINDOW_KEY, String(tests));
+};
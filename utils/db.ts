@@ -1,8 +1,15 @@
-import { Question } from '../types';
+import { Question, TestAttempt, Subject, Difficulty, ReviewCard, SavedFlashcard, AIUsageRecord } from '../types';
+import { dedupeQuestions, fingerprintText } from './dedupe';
 
 const DB_NAME = 'RRB_NTPC_PREP_DB';
 const STORE_NAME = 'questions';
-const VERSION = 1;
+const RESULTS_STORE = 'results';
+const REVIEW_STORE = 'review';
+const FLASHCARD_STORE = 'flashcards';
+const USAGE_STORE = 'usage';
+const VERSION = 6;
+
+const QUESTION_INDEXES = ['subject', 'topic', 'difficulty', 'lastSeenAt'];
 
 export const initDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -13,31 +20,111 @@ export const initDB = (): Promise<IDBDatabase> => {
 
     request.onupgradeneeded = (event) => {
       const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      const upgradeTx = (event.target as IDBOpenDBRequest).transaction!;
+      const questions = db.objectStoreNames.contains(STORE_NAME)
+        ? upgradeTx.objectStore(STORE_NAME)
+        : db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      QUESTION_INDEXES.forEach(field => {
+        if (!questions.indexNames.contains(field)) questions.createIndex(field, field);
+      });
+      if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+        db.createObjectStore(RESULTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(REVIEW_STORE)) {
+        db.createObjectStore(REVIEW_STORE, { keyPath: 'id' }).createIndex('dueAt', 'dueAt');
+      }
+      if (!db.objectStoreNames.contains(FLASHCARD_STORE)) {
+        db.createObjectStore(FLASHCARD_STORE, { keyPath: 'id' }).createIndex('topic', 'topic');
+      }
+      if (!db.objectStoreNames.contains(USAGE_STORE)) {
+        db.createObjectStore(USAGE_STORE, { keyPath: 'id' }).createIndex('at', 'at');
       }
     };
   });
 };
 
-export const cacheQuestions = async (questions: Question[]) => {
+// Re-putting a stored id is an update; anything else that repeats a stored question is skipped
+export const cacheQuestions = async (questions: Question[]): Promise<void> => {
+  const incomingIds = new Set(questions.map(q => q.id));
+  const stored = (await getAllQuestions()).filter(q => !incomingIds.has(q.id));
+  const { questions: fresh, exact, near } = dedupeQuestions(questions, stored);
+  if (exact + near > 0) {
+    console.warn(`Skipped caching ${exact} duplicate and ${near} near-duplicate question(s)`);
+  }
+
   const db = await initDB();
-  const tx = db.transaction(STORE_NAME, 'readwrite');
-  const store = tx.objectStore(STORE_NAME);
-  questions.forEach(q => store.put(q));
-  return tx.oncomplete;
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    fresh.forEach(q => store.put(q));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
 };
 
-export const getCachedQuestions = async (limit: number = 20): Promise<Question[]> => {
+export interface QuestionQuery {
+  subject?: Subject;
+  topic?: string;
+  difficulty?: Difficulty;
+  unseenOnly?: boolean;
+  excludeIds?: string[];
+  limit?: number;
+}
+
+// e.g. queryQuestions({ topic: 'Percentage', difficulty: 'Hard', unseenOnly: true, limit: 10 }).
+// Walks the most selective index available and returns unseen questions first,
+// then the least recently seen.
+export const queryQuestions = async (query: QuestionQuery): Promise<Question[]> => {
+  const { subject, topic, difficulty, unseenOnly = false, excludeIds = [], limit = 20 } = query;
+  const excluded = new Set(excludeIds);
   const db = await initDB();
-  return new Promise((resolve) => {
+
+  return new Promise((resolve, reject) => {
     const tx = db.transaction(STORE_NAME, 'readonly');
     const store = tx.objectStore(STORE_NAME);
-    const request = store.getAll(undefined, limit);
-    
+    const [indexName, key] = topic !== undefined ? ['topic', topic]
+      : subject !== undefined ? ['subject', subject]
+      : difficulty !== undefined ? ['difficulty', difficulty]
+      : [null, null];
+    const request = indexName ? store.index(indexName).getAll(IDBKeyRange.only(key)) : store.getAll();
+
     request.onsuccess = () => {
-      resolve(request.result as Question[]);
+      const matches = (request.result as Question[]).filter(q =>
+        (subject === undefined || q.subject === subject) &&
+        (difficulty === undefined || q.difficulty === difficulty) &&
+        (!unseenOnly || !q.lastSeenAt) &&
+        !excluded.has(q.id)
+      );
+      matches.sort((a, b) => (a.lastSeenAt || 0) - (b.lastSeenAt || 0));
+      resolve(matches.slice(0, limit));
     };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const markQuestionsSeen = async (ids: string[], seenAt: number = Date.now()): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    ids.forEach(id => {
+      const request = store.get(id);
+      request.onsuccess = () => {
+        if (request.result) store.put({ ...request.result, lastSeenAt: seenAt });
+      };
+    });
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const getAllQuestions = async (): Promise<Question[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const request = tx.objectStore(STORE_NAME).getAll();
+    request.onsuccess = () => resolve(request.result as Question[]);
+    request.onerror = () => reject(request.error);
   });
 };
 
@@ -45,4 +132,152 @@ export const clearCache = async () => {
   const db = await initDB();
   const tx = db.transaction(STORE_NAME, 'readwrite');
   tx.objectStore(STORE_NAME).clear();
-};
\ No newline at end of file
+};
+
+// --- Test History ---
+
+export const saveTestAttempt = async (attempt: TestAttempt): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RESULTS_STORE, 'readwrite');
+    tx.objectStore(RESULTS_STORE).put(attempt);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Newest first
+export const getTestHistory = async (): Promise<TestAttempt[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RESULTS_STORE, 'readonly');
+    const request = tx.objectStore(RESULTS_STORE).getAll();
+
+    request.onsuccess = () => {
+      const attempts = request.result as TestAttempt[];
+      resolve(attempts.sort((a, b) => b.result.date.localeCompare(a.result.date)));
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const deleteTestAttempt = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(RESULTS_STORE, 'readwrite');
+    tx.objectStore(RESULTS_STORE).delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- Review Deck ---
+
+export const getReviewDeck = async (): Promise<ReviewCard[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(REVIEW_STORE, 'readonly');
+    const request = tx.objectStore(REVIEW_STORE).getAll();
+    request.onsuccess = () => resolve(request.result as ReviewCard[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Most overdue first
+export const getDueReviewCards = async (now: number = Date.now(), limit?: number): Promise<ReviewCard[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(REVIEW_STORE, 'readonly');
+    const request = tx.objectStore(REVIEW_STORE).index('dueAt').getAll(IDBKeyRange.upperBound(now), limit);
+    request.onsuccess = () => resolve(request.result as ReviewCard[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveReviewCards = async (cards: ReviewCard[]): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(REVIEW_STORE, 'readwrite');
+    const store = tx.objectStore(REVIEW_STORE);
+    cards.forEach(card => store.put(card));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- Flashcards ---
+
+export const getFlashcards = async (topic?: string): Promise<SavedFlashcard[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(FLASHCARD_STORE, 'readonly');
+    const store = tx.objectStore(FLASHCARD_STORE);
+    const request = topic ? store.index('topic').getAll(IDBKeyRange.only(topic)) : store.getAll();
+    request.onsuccess = () => resolve(request.result as SavedFlashcard[]);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Cards whose topic, front and back match a stored card are skipped; resolves to the cards added
+export const addFlashcards = async (cards: SavedFlashcard[]): Promise<SavedFlashcard[]> => {
+  const key = (c: SavedFlashcard) => fingerprintText(c.topic, c.content, c.keyPoint);
+  const known = new Set((await getFlashcards()).map(key));
+  const fresh = cards.filter(c => {
+    const k = key(c);
+    if (known.has(k)) return false;
+    known.add(k);
+    return true;
+  });
+
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(FLASHCARD_STORE, 'readwrite');
+    const store = tx.objectStore(FLASHCARD_STORE);
+    fresh.forEach(card => store.put(card));
+    tx.oncomplete = () => resolve(fresh);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const updateFlashcard = async (card: SavedFlashcard): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(FLASHCARD_STORE, 'readwrite');
+    tx.objectStore(FLASHCARD_STORE).put(card);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const deleteFlashcard = async (id: string): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(FLASHCARD_STORE, 'readwrite');
+    tx.objectStore(FLASHCARD_STORE).delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// --- AI usage log ---
+
+export const addUsageRecord = async (record: AIUsageRecord): Promise<void> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(USAGE_STORE, 'readwrite');
+    tx.objectStore(USAGE_STORE).put(record);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+// Oldest first; `since` is epoch ms
+export const getUsageRecords = async (since: number = 0): Promise<AIUsageRecord[]> => {
+  const db = await initDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(USAGE_STORE, 'readonly');
+    const request = tx.objectStore(USAGE_STORE).index('at').getAll(IDBKeyRange.lowerBound(since));
+    request.onsuccess = () => resolve(request.result as AIUsageRecord[]);
+    request.onerror = () => reject(request.error);
+  });
+};
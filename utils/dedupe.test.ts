@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { Question } from '../types';
+import { QUESTION_CORPUS } from '../data/questionCorpus';
+import { dedupeQuestions } from './dedupe';
+
+const question = (id: string, text: string, options: string[]): Question => ({
+  id,
+  text,
+  options,
+  correctAnswer: 0,
+  subject: 'Mathematics',
+  topic: 'Number System',
+  difficulty: 'Easy',
+  explanation: ''
+});
+
+describe('dedupeQuestions', () => {
+  it('keeps every question of the bundled corpus', () => {
+    const report = dedupeQuestions(QUESTION_CORPUS);
+    expect(report.questions.map(q => q.id)).toEqual(QUESTION_CORPUS.map(q => q.id));
+  });
+
+  it('keeps distinct series and ratio questions with the same wording', () => {
+    const report = dedupeQuestions([
+      question('s1', 'Find the next term: 2, 6, 12, 20, 30, ?', ['42', '40', '36', '44']),
+      question('s2', 'Find the next term: 3, 7, 15, 31, 63, ?', ['127', '125', '126', '95']),
+      question('r1', 'If A:B = 2:3 and B:C = 4:5, find A:C.', ['8:15', '2:5', '4:5', '6:5']),
+      question('r2', 'If A:B = 3:4 and B:C = 2:7, find A:C.', ['3:14', '6:7', '3:7', '2:7'])
+    ]);
+    expect(report.questions.map(q => q.id)).toEqual(['s1', 's2', 'r1', 'r2']);
+    expect(report.near).toBe(0);
+  });
+
+  it('keeps generated sums that differ only in their numbers', () => {
+    const report = dedupeQuestions([
+      question('g1', '[Demo] Number System: what is 594 + 652?', ['1246', '1247', '1245', '1256']),
+      question('g2', '[Demo] Number System: what is 120 + 305?', ['425', '426', '424', '435'])
+    ]);
+    expect(report.questions).toHaveLength(2);
+  });
+
+  it('still catches a wordy question reworded only in its numbers', () => {
+    const report = dedupeQuestions([
+      question('i1', 'A sum of Rs 500 amounts to Rs 600 in 2 years at simple interest. Find the rate of interest per annum.', ['10%', '5%', '8%', '12%']),
+      question('i2', 'A sum of Rs 800 amounts to Rs 960 in 4 years at simple interest. Find the rate of interest per annum.', ['5%', '4%', '6%', '8%'])
+    ]);
+    expect(report.questions.map(q => q.id)).toEqual(['i1']);
+    expect(report.near).toBe(1);
+  });
+
+  it('catches an exact repeat with shuffled options', () => {
+    const report = dedupeQuestions([
+      question('e1', 'Find the next term: 2, 6, 12, 20, 30, ?', ['42', '40', '36', '44']),
+      question('e2', 'Find the next term: 2, 6, 12, 20, 30, ?', ['44', '36', '40', '42'])
+    ]);
+    expect(report.exact).toBe(1);
+  });
+});
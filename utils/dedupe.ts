@@ -0,0 +1,106 @@
+import { Question } from '../types';
+
+export type DuplicateKind = 'exact' | 'near';
+
+export interface QuestionFingerprint {
+  exact: string;
+  near: string;
+}
+
+export interface DedupeIndex {
+  match: (q: Question) => DuplicateKind | null;
+  add: (q: Question) => void;
+}
+
+export interface DedupeReport {
+  questions: Question[];
+  exact: number;
+  near: number;
+}
+
+const normaliseText = (s: string) =>
+  s
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Numbers become a placeholder, so "A sum of Rs 500 at 5%" matches "A sum of Rs 800 at 4%"
+const stripNumbers = (s: string) => s.replace(/\d+(\s\d+)*/g, '#');
+
+// Only wordy questions are matched with their numbers stripped. In "2, 6, 12, 20, 30, ?"
+// or "what is 594 + 652?" the numbers are the question, not a variation of it.
+const MIN_WORDS_FOR_NEAR = 8;
+
+const isWordingDriven = (normalised: string) => {
+  const words = normalised.match(/\p{L}+/gu) || [];
+  const numbers = normalised.match(/\d+/g) || [];
+  return words.length >= MIN_WORDS_FOR_NEAR && words.length >= 3 * numbers.length;
+};
+
+// 32-bit FNV-1a; fingerprints only need to be stable and short, not secure
+const hash = (s: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+};
+
+export const fingerprintText = (...parts: string[]): string => hash(parts.map(normaliseText).join('|'));
+
+// Options are sorted so a shuffled copy of the same question still collides.
+// Set members include their stem, and keep their own numbers in the near fingerprint:
+// "production in 2019?" and "production in 2021?" are different questions on one table.
+export const fingerprintQuestion = (q: Pick<Question, 'text' | 'options' | 'group'>): QuestionFingerprint => {
+  const text = normaliseText(q.text);
+  const options = q.options.map(normaliseText).sort();
+  const stem = q.group ? normaliseText(q.group.stem) : '';
+  const stripText = !q.group && isWordingDriven(text);
+  const nearStem = isWordingDriven(stem) ? stripNumbers(stem) : stem;
+  const nearText = stripText ? stripNumbers(text) : text;
+  const nearOptions = stripText ? options.map(stripNumbers).sort() : options;
+  return {
+    exact: hash([stem, text, ...options].join('|')),
+    near: hash([nearStem, nearText, ...nearOptions].join('|'))
+  };
+};
+
+export const createDedupeIndex = (questions: Question[] = []): DedupeIndex => {
+  const exact = new Set<string>();
+  const near = new Set<string>();
+
+  const match = (q: Question): DuplicateKind | null => {
+    const f = fingerprintQuestion(q);
+    if (exact.has(f.exact)) return 'exact';
+    if (near.has(f.near)) return 'near';
+    return null;
+  };
+  const add = (q: Question) => {
+    const f = fingerprintQuestion(q);
+    exact.add(f.exact);
+    near.add(f.near);
+  };
+
+  questions.forEach(add);
+  return { match, add };
+};
+
+// Drops incoming questions that repeat `existing` or an earlier incoming question
+export const dedupeQuestions = (incoming: Question[], existing: Question[] = []): DedupeReport => {
+  const index = createDedupeIndex(existing);
+  const report: DedupeReport = { questions: [], exact: 0, near: 0 };
+
+  incoming.forEach(q => {
+    const kind = index.match(q);
+    if (kind) {
+      report[kind]++;
+      return;
+    }
+    index.add(q);
+    report.questions.push(q);
+  });
+  return report;
+};
@@ -0,0 +1,80 @@
+import { ExamPattern, ExamSection, Subject, TestConfig } from '../types';
+import { MARKING_SCHEMES } from './scoring';
+
+export const SUBJECT_SHORT_NAMES: Record<Subject, string> = {
+  'Mathematics': 'Maths',
+  'General Intelligence & Reasoning': 'GIR',
+  'General Awareness': 'GA'
+};
+
+export const EXAM_PATTERNS: ExamPattern[] = [
+  {
+    id: 'ntpc-cbt1',
+    name: 'RRB NTPC CBT-1',
+    description: 'Graduate Level • First Stage',
+    durationMinutes: 90,
+    sections: [
+      { subject: 'General Awareness', questionCount: 40 },
+      { subject: 'Mathematics', questionCount: 30 },
+      { subject: 'General Intelligence & Reasoning', questionCount: 30 }
+    ],
+    markingScheme: MARKING_SCHEMES.NTPC_CBT1
+  },
+  {
+    id: 'ntpc-cbt2',
+    name: 'RRB NTPC CBT-2',
+    description: 'Graduate Level • Second Stage',
+    durationMinutes: 90,
+    sections: [
+      { subject: 'General Awareness', questionCount: 50 },
+      { subject: 'Mathematics', questionCount: 35 },
+      { subject: 'General Intelligence & Reasoning', questionCount: 35 }
+    ],
+    markingScheme: MARKING_SCHEMES.NTPC_CBT2
+  },
+  {
+    id: 'group-d',
+    name: 'RRB Group D',
+    description: 'Level 1 Posts • CBT',
+    durationMinutes: 90,
+    // The 25 General Science questions are counted under General Awareness,
+    // whose taxonomy carries the General Science topic.
+    sections: [
+      { subject: 'Mathematics', questionCount: 25 },
+      { subject: 'General Intelligence & Reasoning', questionCount: 30 },
+      { subject: 'General Awareness', questionCount: 45 }
+    ],
+    markingScheme: MARKING_SCHEMES.GROUP_D
+  }
+];
+
+export const getExamPattern = (id?: string): ExamPattern | undefined =>
+  EXAM_PATTERNS.find(p => p.id === id);
+
+export const getPatternTotal = (pattern: ExamPattern): number =>
+  pattern.sections.reduce((acc, s) => acc + s.questionCount, 0);
+
+export const buildPatternConfig = (pattern: ExamPattern): TestConfig => ({
+  mode: 'Full',
+  totalQuestions: getPatternTotal(pattern),
+  durationMinutes: pattern.durationMinutes,
+  selectedSubjects: pattern.sections.map(s => s.subject),
+  markingScheme: pattern.markingScheme,
+  examPatternId: pattern.id,
+  sections: pattern.sections,
+  strictMode: true
+});
+
+export const describeSections = (sections: ExamSection[]): string =>
+  sections.map(s => `${s.questionCount} ${SUBJECT_SHORT_NAMES[s.subject]}`).join(' • ');
+
+// Per-subject question targets for a config. Pattern-driven configs use their
+// sections; anything else spreads the total evenly across the selected subjects.
+export const getSectionQuotas = (config: TestConfig): ExamSection[] => {
+  if (config.sections && config.sections.length > 0) return config.sections;
+
+  const subjects = config.selectedSubjects;
+  const base = Math.floor(config.totalQuestions / subjects.length);
+  const extra = config.totalQuestions % subjects.length;
+  return subjects.map((subject, i) => ({ subject, questionCount: base + (i < extra ? 1 : 0) }));
+};
@@ -0,0 +1,52 @@
+import { Flashcard, FlashcardRating, FlashcardSource, Question, SavedFlashcard } from '../types';
+
+export interface TopicProgress {
+  topic: string;
+  total: number;
+  mastered: number; // last rated "got it"
+  studied: number;
+}
+
+export const createSavedFlashcard = (card: Flashcard, source: FlashcardSource, questionId?: string): SavedFlashcard => ({
+  ...card,
+  id: `card-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  source,
+  questionId,
+  createdAt: Date.now(),
+  gotItCount: 0,
+  againCount: 0
+});
+
+// Front is the question itself; back is the answer plus its explanation
+export const flashcardFromQuestion = (question: Question): SavedFlashcard =>
+  createSavedFlashcard({
+    topic: question.topic,
+    content: question.text,
+    keyPoint: `${question.options[question.correctAnswer]}. ${question.explanation}`
+  }, 'question', question.id);
+
+export const rateFlashcard = (card: SavedFlashcard, rating: FlashcardRating, now: number = Date.now()): SavedFlashcard => ({
+  ...card,
+  lastRating: rating,
+  lastStudiedAt: now,
+  gotItCount: card.gotItCount + (rating === 'got-it' ? 1 : 0),
+  againCount: card.againCount + (rating === 'again' ? 1 : 0)
+});
+
+// Unstudied and "again" cards come first, then the longest-unseen mastered ones
+export const buildStudyQueue = (cards: SavedFlashcard[]): SavedFlashcard[] => {
+  const rank = (c: SavedFlashcard) => (c.lastRating === 'got-it' ? 2 : c.lastRating === 'again' ? 1 : 0);
+  return [...cards].sort((a, b) => rank(a) - rank(b) || (a.lastStudiedAt || 0) - (b.lastStudiedAt || 0));
+};
+
+export const computeTopicProgress = (cards: SavedFlashcard[]): TopicProgress[] => {
+  const byTopic = new Map<string, TopicProgress>();
+  cards.forEach(card => {
+    const entry = byTopic.get(card.topic) || { topic: card.topic, total: 0, mastered: 0, studied: 0 };
+    entry.total++;
+    if (card.lastRating) entry.studied++;
+    if (card.lastRating === 'got-it') entry.mastered++;
+    byTopic.set(card.topic, entry);
+  });
+  return Array.from(byTopic.values()).sort((a, b) => a.topic.localeCompare(b.topic));
+};
@@ -0,0 +1,422 @@
+import { Language, Question, QuestionGroup, QuestionTranslation, Subject } from '../types';
+
+const LANGUAGE_KEY = 'rrb_language';
+
+export const LANGUAGES: { code: Language; label: string }[] = [
+  { code: 'en', label: 'English' },
+  { code: 'hi', label: 'हिन्दी' }
+];
+
+export const getLanguagePreference = (): Language =>
+  localStorage.getItem(LANGUAGE_KEY) === 'hi' ? 'hi' : 'en';
+
+export const setLanguagePreference = (language: Language) => {
+  localStorage.setItem(LANGUAGE_KEY, language);
+};
+
+// --- Question Content ---
+
+// The base fields are English; other languages live in `translations`
+export const hasTranslation = (question: Question, language: Language): boolean =>
+  language === 'en' || !!question.translations?.[language];
+
+export const localizeQuestion = (question: Question, language: Language): QuestionTranslation =>
+  (language !== 'en' && question.translations?.[language]) || {
+    text: question.text,
+    options: question.options,
+    explanation: question.explanation
+  };
+
+export const localizeGroupStem = (group: QuestionGroup, language: Language): string =>
+  (language !== 'en' && group.translations?.[language]) || group.stem;
+
+// --- UI Strings ---
+
+const EN = {
+  'common.questions': 'Questions',
+  'common.minutes': '{minutes} Minutes',
+  'common.backToDashboard': 'Back to Dashboard',
+  'common.correct': 'Correct',
+  'common.incorrect': 'Incorrect',
+  'common.wrong': 'Wrong',
+  'common.skipped': 'Skipped',
+
+  'dashboard.welcome': 'Welcome, Aspirant!',
+  'dashboard.intro': 'Prepare for RRB NTPC with our AI-powered mock tests. Practice subject-wise, take full mocks, or create your own challenge.',
+  'dashboard.language': 'Language',
+  'dashboard.resumeFailed': 'Your previous test could not be resumed',
+  'dashboard.startNewPrompt': 'Please start a new test.',
+  'dashboard.resumeTitle': 'Resume test',
+  'dashboard.resumeSummary': '{mode} Test • {count} Questions',
+  'dashboard.resumeProgress': '{answered} answered • at Question {question} • {minutes}m {seconds}s left',
+  'dashboard.discard': 'Discard',
+  'dashboard.resume': 'Resume',
+  'dashboard.overallAccuracy': 'Overall Accuracy',
+  'dashboard.testsAttempted': 'Tests Attempted',
+  'dashboard.questionsSolved': 'Questions Solved',
+  'dashboard.averageScore': 'Average Score',
+  'dashboard.startNew': 'Start a New Test',
+  'dashboard.cardSummary': '{questions} Questions • {minutes} Minutes',
+  'dashboard.fullMockTitle': 'Full Mock: {name}',
+  'dashboard.badgeFullMock': 'FULL MOCK',
+  'dashboard.badgeRecommended': 'RECOMMENDED',
+  'dashboard.mathsCard': 'Mathematics Speed Test',
+  'dashboard.reasoningCard': 'Reasoning & Intelligence',
+  'dashboard.awarenessCard': 'General Awareness Booster',
+  'dashboard.revisionTitle': 'Due for Revision',
+  'dashboard.revisionBadge': '{count} DUE',
+  'dashboard.revisionDesc': 'Wrong, skipped & bookmarked questions, spaced for recall',
+  'dashboard.revisionEmpty': 'Nothing due. Missed and bookmarked questions will come back here.',
+  'dashboard.flashcardsTitle': 'Flashcards',
+  'dashboard.flashcardsBadge': 'STUDY',
+  'dashboard.flashcardsDesc': 'Study saved cards by topic or write your own',
+  'dashboard.customBadge': 'CUSTOM',
+  'dashboard.customTitle': 'Custom Test Generator',
+  'dashboard.customDesc': 'Select subject, topic & count',
+  'dashboard.bankTitle': 'Question Bank',
+  'dashboard.avoidRepeats': 'Avoid repeats from',
+  'dashboard.repeatThisTest': 'this test only',
+  'dashboard.repeatLastTests': 'last {count} tests',
+  'dashboard.offlineMode': 'Offline mode',
+  'dashboard.aiUsage': 'AI usage & budget',
+  'dashboard.bankOffline': 'Papers are built only from questions stored on this device. No AI calls are made.',
+  'dashboard.bankOnline': 'Stored questions start tests instantly; AI generates the rest in the background.',
+  'dashboard.bankNoKey': 'No API key is configured, so every paper is built from questions stored on this device.',
+  'dashboard.bankCount': '{count} questions',
+  'dashboard.loading': 'Loading…',
+  'dashboard.historyTitle': 'Test History',
+  'dashboard.showRecent': 'Show Recent',
+  'dashboard.viewAll': 'View All ({count})',
+  'dashboard.viewProgress': 'View Progress',
+  'dashboard.historyAttempted': '{attempted}/{total} attempted',
+  'dashboard.historyAccuracy': '{accuracy}% acc.',
+  'dashboard.customModalTitle': 'Configure Custom Test',
+  'dashboard.subject': 'Subject',
+  'dashboard.topicOptional': 'Topic (Optional)',
+  'dashboard.mixedTopics': 'Mixed Topics',
+  'dashboard.negativeMarking': 'Negative marking (1/3 per wrong answer)',
+  'dashboard.startCustom': 'Start Custom Test',
+  'dashboard.practiceMode': 'Practice mode',
+  'dashboard.practiceModeHint': 'Untimed. See the answer and explanation as soon as you choose; questions adapt to how you are doing.',
+  'dashboard.startPractice': 'Start Practice',
+  'dashboard.targetAccuracy': 'Target accuracy',
+  'dashboard.targetAccuracyHint': 'Difficulty is set from your estimated ability in this topic so you get about this share right.',
+  'dashboard.targetAccuracyMixedHint': 'Your weakest topics come first, each at the difficulty where you get about this share right.',
+
+  'instructions.title': 'General Instructions',
+  'instructions.examMock': '{exam} Mock Test',
+  'instructions.defaultExam': 'RRB NTPC Graduate Level Mock Test',
+  'instructions.duration': 'Duration',
+  'instructions.mcqs': '{count} MCQs',
+  'instructions.sections': 'Sections',
+  'instructions.sectionCount': '{count} Qs',
+  'instructions.rules': 'Exam Rules',
+  'instructions.ruleClock': 'The clock will be set at the server. The countdown timer at the top right corner of the screen will display the remaining time available for you to complete the examination.',
+  'instructions.ruleScheme': 'Marking scheme: {scheme}.',
+  'instructions.ruleMarks': 'Each question carries {marks}.',
+  'instructions.mark': '{count} mark',
+  'instructions.marks': '{count} marks',
+  'instructions.ruleNegative': 'There is negative marking of {marks} for every wrong answer.',
+  'instructions.ruleNoNegative': 'There is {none} in this test.',
+  'instructions.noNegative': 'no negative marking',
+  'instructions.ruleOverride': '{subject}: +{plus} / -{minus} per question.',
+  'instructions.ruleMarkForReview': 'You can click on {button} to revisit a question later.',
+  'instructions.markForReview': '"Mark for Review"',
+  'instructions.ruleReviewNotEvaluated': 'Questions marked for review will NOT be considered for evaluation unless answered.',
+  'instructions.rulePause': 'You can pause the test, but it is recommended to take it in one sitting for a realistic experience.',
+  'instructions.ruleStrict': 'Exam simulation is on: hints, the AI doubt chat and pausing are disabled, and the test is submitted automatically when time runs out.',
+  'instructions.ruleTabSwitch': 'Switching to another tab or app is recorded and warned, as it would be flagged in the real CBT.',
+  'instructions.strictToggle': 'Strict exam simulation',
+  'instructions.strictToggleHint': 'Turn off to allow hints, the doubt chat and pausing.',
+  'instructions.noteLabel': 'Note:',
+  'instructions.note': 'Do not close the browser window during the test. Your progress is saved locally, but for the best experience, maintain a stable connection.',
+  'instructions.agree': 'I have read and understood the instructions.',
+  'instructions.cancel': 'Cancel',
+  'instructions.start': 'Start Test',
+
+  'result.title': 'Test Performance Analysis',
+  'result.subtitle': 'Detailed breakdown of your RRB NTPC mock test.',
+  'result.totalScore': 'Total Score',
+  'result.outOf': 'out of {max} • {scheme}',
+  'result.accuracy': 'Accuracy',
+  'result.attempted': 'Attempted',
+  'result.timeTaken': 'Time Taken',
+  'result.predictor': 'AI Predictor',
+  'result.projected': 'Projected Final Exam Score',
+  'result.trend': 'Trend: {trend}',
+  'result.strategy': 'Exam Strategy Analysis',
+  'result.topStrength': 'Top Strength',
+  'result.needsImprovement': 'Needs Improvement',
+  'result.nextFocus': 'Next Focus Topic',
+  'result.timeManagement': 'Time Management',
+  'result.analysisUnavailable': 'AI analysis unavailable: {error}',
+  'result.attemptDistribution': 'Attempt Distribution',
+  'result.subjectPerformance': 'Subject Performance',
+  'result.totalAttempted': 'Total Attempted',
+  'result.revisionCards': 'Smart Revision Cards',
+  'result.solutions': 'Detailed Solutions',
+  'result.filterAll': 'All Questions',
+  'result.filterIncorrect': 'Incorrect Only',
+  'result.filterSkipped': 'Skipped Only',
+  'result.explanation': 'Explanation & Short Trick:',
+  'result.saveFlashcard': 'Save as flashcard',
+  'result.savedFlashcard': 'Saved to flashcards',
+  'result.noneForFilter': 'No questions found for this filter.',
+  'result.export': 'Export',
+  'result.timeAnalysis': 'Time Analysis',
+  'result.avgPace': 'Average {time} per visited question',
+  'result.timePerQuestion': 'Time per Question',
+  'result.timeSpent': 'Time spent',
+  'result.bySubject': 'By Subject',
+  'result.byDifficulty': 'By Difficulty',
+  'result.avgTime': 'Avg',
+  'result.totalTime': 'Total',
+  'result.timeSinks': 'Time Sinks',
+  'result.timeSinksHint': 'Answered wrong after {time} or more.',
+  'result.quickWins': 'Quick Wins',
+  'result.quickWinsHint': 'Answered right within {time}.',
+  'result.noneInTest': 'None in this test.',
+
+  'replay.title': 'Attempt Replay',
+  'replay.changes': 'Answers changed',
+  'replay.rightToWrong': 'Right → wrong',
+  'replay.wrongToRight': 'Wrong → right',
+  'replay.wrongToWrong': 'Wrong → wrong',
+  'replay.revisits': 'Revisits',
+  'replay.hints': 'Hints & doubts',
+  'replay.pauses': 'Pauses',
+  'replay.leaves': 'Tab switches',
+  'replay.step': 'Step {step} of {total}',
+  'replay.paused': 'Test paused',
+  'replay.noQuestion': 'No question on screen yet.',
+  'replay.navigate': 'Went to Q{n}',
+  'replay.select': 'Chose option {option} on Q{n}',
+  'replay.clear': 'Cleared the answer to Q{n}',
+  'replay.mark': 'Marked Q{n} for review',
+  'replay.bookmark': 'Bookmarked Q{n}',
+  'replay.unbookmark': 'Removed the bookmark on Q{n}',
+  'replay.pause': 'Paused the test',
+  'replay.resume': 'Resumed the test',
+  'replay.hint': 'Asked for a hint on Q{n}',
+  'replay.doubt': 'Asked a doubt on Q{n}',
+  'replay.leave': 'Switched away from the test',
+  'replay.submit': 'Submitted the test',
+
+  'test.viewIn': 'View in',
+  'test.notTranslated': 'This question is not available in {language}; showing English.',
+  'test.groupStem': 'Read the following and answer questions {from} to {to}.'
+};
+
+export type StringKey = keyof typeof EN;
+
+const HI: Record<StringKey, string> = {
+  'common.questions': 'प्रश्न',
+  'common.minutes': '{minutes} मिनट',
+  'common.backToDashboard': 'डैशबोर्ड पर लौटें',
+  'common.correct': 'सही',
+  'common.incorrect': 'गलत',
+  'common.wrong': 'गलत',
+  'common.skipped': 'छोड़े गए',
+
+  'dashboard.welcome': 'स्वागत है, अभ्यर्थी!',
+  'dashboard.intro': 'AI आधारित मॉक टेस्ट के साथ RRB NTPC की तैयारी करें। विषयवार अभ्यास करें, पूर्ण मॉक दें या अपनी चुनौती स्वयं बनाएं।',
+  'dashboard.language': 'भाषा',
+  'dashboard.resumeFailed': 'आपका पिछला टेस्ट फिर से शुरू नहीं हो सका',
+  'dashboard.startNewPrompt': 'कृपया नया टेस्ट शुरू करें।',
+  'dashboard.resumeTitle': 'टेस्ट जारी रखें',
+  'dashboard.resumeSummary': '{mode} टेस्ट • {count} प्रश्न',
+  'dashboard.resumeProgress': '{answered} उत्तर दिए • प्रश्न {question} पर • {minutes} मि {seconds} से शेष',
+  'dashboard.discard': 'हटाएं',
+  'dashboard.resume': 'जारी रखें',
+  'dashboard.overallAccuracy': 'कुल सटीकता',
+  'dashboard.testsAttempted': 'दिए गए टेस्ट',
+  'dashboard.questionsSolved': 'हल किए गए प्रश्न',
+  'dashboard.averageScore': 'औसत स्कोर',
+  'dashboard.startNew': 'नया टेस्ट शुरू करें',
+  'dashboard.cardSummary': '{questions} प्रश्न • {minutes} मिनट',
+  'dashboard.fullMockTitle': 'पूर्ण मॉक: {name}',
+  'dashboard.badgeFullMock': 'पूर्ण मॉक',
+  'dashboard.badgeRecommended': 'अनुशंसित',
+  'dashboard.mathsCard': 'गणित स्पीड टेस्ट',
+  'dashboard.reasoningCard': 'तर्क एवं बुद्धि',
+  'dashboard.awarenessCard': 'सामान्य जागरूकता बूस्टर',
+  'dashboard.revisionTitle': 'दोहराने के लिए',
+  'dashboard.revisionBadge': '{count} बाकी',
+  'dashboard.revisionDesc': 'गलत, छोड़े गए और बुकमार्क किए गए प्रश्न, अंतराल पर दोहराने के लिए',
+  'dashboard.revisionEmpty': 'अभी कुछ बाकी नहीं। छूटे और बुकमार्क किए गए प्रश्न यहाँ लौटेंगे।',
+  'dashboard.flashcardsTitle': 'फ्लैशकार्ड',
+  'dashboard.flashcardsBadge': 'अध्ययन',
+  'dashboard.flashcardsDesc': 'टॉपिक अनुसार सहेजे गए कार्ड पढ़ें या अपने कार्ड बनाएं',
+  'dashboard.customBadge': 'कस्टम',
+  'dashboard.customTitle': 'कस्टम टेस्ट जनरेटर',
+  'dashboard.customDesc': 'विषय, टॉपिक और प्रश्न संख्या चुनें',
+  'dashboard.bankTitle': 'प्रश्न बैंक',
+  'dashboard.avoidRepeats': 'दोहराव से बचें',
+  'dashboard.repeatThisTest': 'केवल इस टेस्ट में',
+  'dashboard.repeatLastTests': 'पिछले {count} टेस्ट से',
+  'dashboard.offlineMode': 'ऑफ़लाइन मोड',
+  'dashboard.aiUsage': 'AI उपयोग और बजट',
+  'dashboard.bankOffline': 'प्रश्न पत्र केवल इस डिवाइस पर सहेजे गए प्रश्नों से बनते हैं। कोई AI कॉल नहीं होती।',
+  'dashboard.bankOnline': 'सहेजे गए प्रश्नों से टेस्ट तुरंत शुरू होता है; बाकी प्रश्न AI पृष्ठभूमि में बनाता है।',
+  'dashboard.bankNoKey': 'कोई API कुंजी सेट नहीं है, इसलिए हर प्रश्न पत्र इस डिवाइस पर सहेजे गए प्रश्नों से बनता है।',
+  'dashboard.bankCount': '{count} प्रश्न',
+  'dashboard.loading': 'लोड हो रहा है…',
+  'dashboard.historyTitle': 'टेस्ट इतिहास',
+  'dashboard.showRecent': 'हाल के दिखाएं',
+  'dashboard.viewAll': 'सभी देखें ({count})',
+  'dashboard.viewProgress': 'प्रगति देखें',
+  'dashboard.historyAttempted': '{attempted}/{total} प्रयास किए',
+  'dashboard.historyAccuracy': '{accuracy}% सटीकता',
+  'dashboard.customModalTitle': 'कस्टम टेस्ट सेट करें',
+  'dashboard.subject': 'विषय',
+  'dashboard.topicOptional': 'टॉपिक (वैकल्पिक)',
+  'dashboard.mixedTopics': 'मिश्रित टॉपिक',
+  'dashboard.negativeMarking': 'नकारात्मक अंकन (प्रति गलत उत्तर 1/3)',
+  'dashboard.startCustom': 'कस्टम टेस्ट शुरू करें',
+  'dashboard.practiceMode': 'अभ्यास मोड',
+  'dashboard.practiceModeHint': 'बिना समय सीमा। विकल्प चुनते ही उत्तर और व्याख्या देखें; प्रश्न आपके प्रदर्शन के अनुसार बदलते हैं।',
+  'dashboard.startPractice': 'अभ्यास शुरू करें',
+  'dashboard.targetAccuracy': 'लक्षित सटीकता',
+  'dashboard.targetAccuracyHint': 'इस टॉपिक में आपकी अनुमानित क्षमता के अनुसार कठिनाई तय होती है, ताकि लगभग इतने प्रश्न सही हों।',
+  'dashboard.targetAccuracyMixedHint': 'आपके सबसे कमज़ोर टॉपिक पहले आते हैं, ऐसी कठिनाई पर जहाँ लगभग इतने प्रश्न सही हों।',
+
+  'instructions.title': 'सामान्य निर्देश',
+  'instructions.examMock': '{exam} मॉक टेस्ट',
+  'instructions.defaultExam': 'RRB NTPC स्नातक स्तर मॉक टेस्ट',
+  'instructions.duration': 'अवधि',
+  'instructions.mcqs': '{count} बहुविकल्पीय प्रश्न',
+  'instructions.sections': 'खंड',
+  'instructions.sectionCount': '{count} प्रश्न',
+  'instructions.rules': 'परीक्षा नियम',
+  'instructions.ruleClock': 'घड़ी सर्वर पर सेट की जाएगी। स्क्रीन के ऊपरी दाएँ कोने में उलटी गिनती वाला टाइमर परीक्षा पूरी करने के लिए शेष समय दिखाएगा।',
+  'instructions.ruleScheme': 'अंकन योजना: {scheme}।',
+  'instructions.ruleMarks': 'प्रत्येक प्रश्न {marks} का है।',
+  'instructions.mark': '{count} अंक',
+  'instructions.marks': '{count} अंक',
+  'instructions.ruleNegative': 'प्रत्येक गलत उत्तर के लिए {marks} का नकारात्मक अंकन है।',
+  'instructions.ruleNoNegative': 'इस टेस्ट में {none} है।',
+  'instructions.noNegative': 'कोई नकारात्मक अंकन नहीं',
+  'instructions.ruleOverride': '{subject}: प्रति प्रश्न +{plus} / -{minus}।',
+  'instructions.ruleMarkForReview': 'किसी प्रश्न पर बाद में लौटने के लिए {button} पर क्लिक करें।',
+  'instructions.markForReview': '"समीक्षा हेतु चिह्नित करें"',
+  'instructions.ruleReviewNotEvaluated': 'समीक्षा हेतु चिह्नित प्रश्नों का मूल्यांकन तभी होगा जब उनका उत्तर दिया गया हो।',
+  'instructions.rulePause': 'आप टेस्ट रोक सकते हैं, लेकिन वास्तविक अनुभव के लिए इसे एक ही बार में पूरा करने की सलाह दी जाती है।',
+  'instructions.ruleStrict': 'परीक्षा सिमुलेशन चालू है: संकेत, AI शंका चैट और विराम बंद हैं, और समय समाप्त होने पर टेस्ट अपने आप जमा हो जाएगा।',
+  'instructions.ruleTabSwitch': 'किसी अन्य टैब या ऐप पर जाना दर्ज किया जाएगा और चेतावनी दी जाएगी, जैसा वास्तविक CBT में होता है।',
+  'instructions.strictToggle': 'सख्त परीक्षा सिमुलेशन',
+  'instructions.strictToggleHint': 'संकेत, शंका चैट और विराम की अनुमति के लिए बंद करें।',
+  'instructions.noteLabel': 'ध्यान दें:',
+  'instructions.note': 'टेस्ट के दौरान ब्राउज़र विंडो बंद न करें। आपकी प्रगति स्थानीय रूप से सहेजी जाती है, फिर भी बेहतर अनुभव के लिए स्थिर कनेक्शन रखें।',
+  'instructions.agree': 'मैंने निर्देश पढ़ और समझ लिए हैं।',
+  'instructions.cancel': 'रद्द करें',
+  'instructions.start': 'टेस्ट शुरू करें',
+
+  'result.title': 'टेस्ट प्रदर्शन विश्लेषण',
+  'result.subtitle': 'आपके RRB NTPC मॉक टेस्ट का विस्तृत विवरण।',
+  'result.totalScore': 'कुल स्कोर',
+  'result.outOf': '{max} में से • {scheme}',
+  'result.accuracy': 'सटीकता',
+  'result.attempted': 'प्रयास किए',
+  'result.timeTaken': 'लिया गया समय',
+  'result.predictor': 'AI अनुमान',
+  'result.projected': 'अंतिम परीक्षा का अनुमानित स्कोर',
+  'result.trend': 'रुझान: {trend}',
+  'result.strategy': 'परीक्षा रणनीति विश्लेषण',
+  'result.topStrength': 'सबसे मज़बूत पक्ष',
+  'result.needsImprovement': 'सुधार की ज़रूरत',
+  'result.nextFocus': 'अगला फोकस टॉपिक',
+  'result.timeManagement': 'समय प्रबंधन',
+  'result.analysisUnavailable': 'AI विश्लेषण उपलब्ध नहीं: {error}',
+  'result.attemptDistribution': 'प्रयास वितरण',
+  'result.subjectPerformance': 'विषयवार प्रदर्शन',
+  'result.totalAttempted': 'कुल प्रयास',
+  'result.revisionCards': 'स्मार्ट रिवीज़न कार्ड',
+  'result.solutions': 'विस्तृत हल',
+  'result.filterAll': 'सभी प्रश्न',
+  'result.filterIncorrect': 'केवल गलत',
+  'result.filterSkipped': 'केवल छोड़े गए',
+  'result.explanation': 'व्याख्या और शॉर्ट ट्रिक:',
+  'result.saveFlashcard': 'फ्लैशकार्ड के रूप में सहेजें',
+  'result.savedFlashcard': 'फ्लैशकार्ड में सहेजा गया',
+  'result.noneForFilter': 'इस फ़िल्टर के लिए कोई प्रश्न नहीं मिला।',
+  'result.export': 'डाउनलोड करें',
+  'result.timeAnalysis': 'समय विश्लेषण',
+  'result.avgPace': 'प्रति देखे गए प्रश्न औसत {time}',
+  'result.timePerQuestion': 'प्रति प्रश्न समय',
+  'result.timeSpent': 'लगा समय',
+  'result.bySubject': 'विषयवार',
+  'result.byDifficulty': 'कठिनाई के अनुसार',
+  'result.avgTime': 'औसत',
+  'result.totalTime': 'कुल',
+  'result.timeSinks': 'समय की बर्बादी',
+  'result.timeSinksHint': '{time} या अधिक लगाकर गलत उत्तर दिया।',
+  'result.quickWins': 'त्वरित सफलताएँ',
+  'result.quickWinsHint': '{time} के भीतर सही उत्तर दिया।',
+  'result.noneInTest': 'इस टेस्ट में कोई नहीं।',
+
+  'replay.title': 'प्रयास का पुनरावलोकन',
+  'replay.changes': 'बदले गए उत्तर',
+  'replay.rightToWrong': 'सही → गलत',
+  'replay.wrongToRight': 'गलत → सही',
+  'replay.wrongToWrong': 'गलत → गलत',
+  'replay.revisits': 'दोबारा देखे गए',
+  'replay.hints': 'संकेत और शंकाएँ',
+  'replay.pauses': 'विराम',
+  'replay.leaves': 'टैब बदले',
+  'replay.step': 'चरण {step} / {total}',
+  'replay.paused': 'टेस्ट रुका हुआ',
+  'replay.noQuestion': 'अभी स्क्रीन पर कोई प्रश्न नहीं।',
+  'replay.navigate': 'प्र{n} पर गए',
+  'replay.select': 'प्र{n} में विकल्प {option} चुना',
+  'replay.clear': 'प्र{n} का उत्तर हटाया',
+  'replay.mark': 'प्र{n} को समीक्षा हेतु चिह्नित किया',
+  'replay.bookmark': 'प्र{n} को बुकमार्क किया',
+  'replay.unbookmark': 'प्र{n} का बुकमार्क हटाया',
+  'replay.pause': 'टेस्ट रोका',
+  'replay.resume': 'टेस्ट फिर शुरू किया',
+  'replay.hint': 'प्र{n} पर संकेत माँगा',
+  'replay.doubt': 'प्र{n} पर शंका पूछी',
+  'replay.leave': 'टेस्ट से दूसरी ओर गए',
+  'replay.submit': 'टेस्ट जमा किया',
+
+  'test.viewIn': 'भाषा चुनें',
+  'test.notTranslated': 'यह प्रश्न {language} में उपलब्ध नहीं है; अंग्रेज़ी में दिखाया जा रहा है।',
+  'test.groupStem': 'निम्नलिखित को पढ़ें और प्रश्न {from} से {to} के उत्तर दें।'
+};
+
+const STRINGS: Record<Language, Record<StringKey, string>> = { en: EN, hi: HI };
+
+const SUBJECT_LABELS: Record<Language, Record<Subject, string>> = {
+  en: {
+    'Mathematics': 'Mathematics',
+    'General Intelligence & Reasoning': 'General Intelligence & Reasoning',
+    'General Awareness': 'General Awareness'
+  },
+  hi: {
+    'Mathematics': 'गणित',
+    'General Intelligence & Reasoning': 'सामान्य बुद्धि एवं तर्क',
+    'General Awareness': 'सामान्य जागरूकता'
+  }
+};
+
+export const subjectLabel = (language: Language, subject: Subject): string =>
+  SUBJECT_LABELS[language][subject] || subject;
+
+export type Translator = (key: StringKey, vars?: Record<string, string | number>) => string;
+
+export const getTemplate = (language: Language, key: StringKey): string => STRINGS[language][key] || EN[key];
+
+// "{name}" placeholders are filled from vars; unknown ones are left as written
+export const getTranslator = (language: Language): Translator => (key, vars) =>
+  getTemplate(language, key).replace(/\{(\w+)\}/g, (match, name) =>
+    vars && name in vars ? String(vars[name]) : match
+  );
+
+// Splits a template around its placeholders so callers can style the filled-in values
+export const splitTemplate = (template: string): { text: string; placeholder: boolean }[] =>
+  template
+    .split(/(\{\w+\})/)
+    .filter(Boolean)
+    .map(part => /^\{\w+\}$/.test(part)
+      ? { text: part.slice(1, -1), placeholder: true }
+      : { text: part, placeholder: false });
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { parseJsonArrayLenient, parseJsonObject } from './partialJson';
+
+describe('parseJsonArrayLenient', () => {
+  it('parses a complete array inside code fences', () => {
+    expect(parseJsonArrayLenient('```json\n[{"a":1},{"b":[2,3]}]\n```')).toEqual({ items: [{ a: 1 }, { b: [2, 3] }], truncated: false });
+  });
+
+  it('keeps the complete elements of a cut-off response', () => {
+    expect(parseJsonArrayLenient('[{"a":1},{"b":2},{"c":"unfini')).toEqual({ items: [{ a: 1 }, { b: 2 }], truncated: true });
+  });
+
+  it('ignores brackets and escaped quotes inside strings', () => {
+    expect(parseJsonArrayLenient('[{"text":"f(x] = \\"}{\\""},{"n":1}]')?.items).toEqual([{ text: 'f(x] = "}{"' }, { n: 1 }]);
+  });
+
+  it('skips a malformed element and keeps its siblings', () => {
+    expect(parseJsonArrayLenient('[{"a":1},{"b":},{"c":3}]')?.items).toEqual([{ a: 1 }, { c: 3 }]);
+  });
+
+  it('returns null when there is no array at all', () => {
+    expect(parseJsonArrayLenient('Sorry, I cannot help with that.')).toBeNull();
+  });
+});
+
+describe('parseJsonObject', () => {
+  it('parses the object around surrounding prose', () => {
+    expect(parseJsonObject('Here you go:\n{"score": 42}\nGood luck!')).toEqual({ score: 42 });
+  });
+
+  it('throws when there is no object', () => {
+    expect(() => parseJsonObject('[1, 2]')).toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,60 @@
+const stripFences = (text: string) => text.replace(/```json/g, "").replace(/```/g, "").trim();
+
+export interface PartialArrayResult {
+  items: unknown[];
+  truncated: boolean; // the closing ']' was never reached
+}
+
+// Returns every complete element of a JSON array, even when the response was cut off
+// mid-way through a later element. Strings are tracked so brackets inside them are ignored.
+export const parseJsonArrayLenient = (raw: string): PartialArrayResult | null => {
+  const text = stripFences(raw);
+  const start = text.indexOf('[');
+  if (start === -1) return null;
+
+  const items: unknown[] = [];
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      depth++;
+      if (depth === 2) elementStart = i;
+    } else if (ch === '}' || ch === ']') {
+      depth--;
+      if (depth === 1 && elementStart !== -1) {
+        try {
+          items.push(JSON.parse(text.slice(elementStart, i + 1)));
+        } catch {
+          // A malformed element is skipped; its siblings are still usable
+        }
+        elementStart = -1;
+      } else if (depth === 0) {
+        return { items, truncated: false };
+      }
+    }
+  }
+
+  return { items, truncated: true };
+};
+
+export const parseJsonObject = (raw: string): unknown => {
+  const text = stripFences(raw);
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new SyntaxError("No JSON object found");
+  return JSON.parse(text.slice(start, end + 1));
+};
@@ -0,0 +1,102 @@
+import { Question, UserResponse, Difficulty, Subject, TestConfig, TestAttempt, SUBJECT_TOPICS } from '../types';
+import { applyResponses, estimateAbilities, getAbility, difficultyForTarget, rankWeakestTopics } from './ability';
+
+export interface PracticeStats {
+  answered: number;
+  correct: number;
+  accuracy: number; // % of answered, 0 before the first answer
+  streak: number; // consecutive correct answers ending with the latest one
+  bestStreak: number;
+}
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+// Recent answers that decide the next batch's difficulty
+const ADAPT_WINDOW = 5;
+const STEP_UP_ACCURACY = 0.8;
+const STEP_DOWN_ACCURACY = 0.4;
+
+export const PRACTICE_START_DIFFICULTY: Difficulty = 'Medium';
+
+export const TARGET_ACCURACY_OPTIONS = [60, 70, 80, 90];
+export const DEFAULT_TARGET_ACCURACY = 70;
+
+// What the next practice batch should be; subject and topic are set only when
+// the adaptive engine chose where to practise
+export interface PracticePlan {
+  difficulty: Difficulty;
+  subject?: Subject;
+  topic?: string;
+}
+
+// Practice answers lock on first choice and questions are taken in order,
+// so paper order is answer order
+const answeredInOrder = (questions: Question[], responses: Record<string, UserResponse>) =>
+  questions.filter(q => {
+    const selected = responses[q.id]?.selectedOption;
+    return selected !== null && selected !== undefined;
+  });
+
+export const computePracticeStats = (questions: Question[], responses: Record<string, UserResponse>): PracticeStats => {
+  const answered = answeredInOrder(questions, responses);
+  let correct = 0;
+  let streak = 0;
+  let bestStreak = 0;
+  answered.forEach(q => {
+    if (responses[q.id].selectedOption === q.correctAnswer) {
+      correct++;
+      streak++;
+      bestStreak = Math.max(bestStreak, streak);
+    } else {
+      streak = 0;
+    }
+  });
+  return {
+    answered: answered.length,
+    correct,
+    accuracy: answered.length > 0 ? Math.round((correct / answered.length) * 100) : 0,
+    streak,
+    bestStreak
+  };
+};
+
+// Steps one level up after a strong run and one level down after a weak one
+export const nextPracticeDifficulty = (questions: Question[], responses: Record<string, UserResponse>): Difficulty => {
+  const recent = answeredInOrder(questions, responses).slice(-ADAPT_WINDOW);
+  const last = recent[recent.length - 1]?.difficulty || PRACTICE_START_DIFFICULTY;
+  if (recent.length < ADAPT_WINDOW) return last;
+
+  const accuracy = recent.filter(q => responses[q.id].selectedOption === q.correctAnswer).length / recent.length;
+  const level = DIFFICULTIES.indexOf(last);
+  if (accuracy >= STEP_UP_ACCURACY) return DIFFICULTIES[Math.min(level + 1, DIFFICULTIES.length - 1)];
+  if (accuracy <= STEP_DOWN_ACCURACY) return DIFFICULTIES[Math.max(level - 1, 0)];
+  return last;
+};
+
+// With a target accuracy, difficulty (and, for mixed practice, the topic) comes from per-topic
+// ability over all past attempts plus this session; without one, from the recent streak
+export const planPracticeBatch = (
+  config: TestConfig,
+  history: TestAttempt[],
+  questions: Question[],
+  responses: Record<string, UserResponse>
+): PracticePlan => {
+  if (config.targetAccuracy === undefined) return { difficulty: nextPracticeDifficulty(questions, responses) };
+
+  const abilities = applyResponses(estimateAbilities(history), questions, responses);
+  if (config.selectedTopic) {
+    const ability = getAbility(abilities, config.selectedSubjects[0], config.selectedTopic);
+    return { difficulty: difficultyForTarget(ability.rating, config.targetAccuracy) };
+  }
+
+  // Weakest topic first, but not the one just served while another is available,
+  // so a single weak spot can't take over the whole session
+  const ranked = rankWeakestTopics(abilities, config.selectedSubjects, SUBJECT_TOPICS);
+  const lastTopic = questions[questions.length - 1]?.topic;
+  const focus = ranked.find(a => a.topic !== lastTopic) || ranked[0];
+  return {
+    difficulty: difficultyForTarget(focus.rating, config.targetAccuracy),
+    subject: focus.subject,
+    topic: focus.topic
+  };
+};
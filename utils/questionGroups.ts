@@ -0,0 +1,46 @@
+import { Question } from '../types';
+
+// Topics the exam asks as sets: one table or arrangement followed by several questions
+export const GROUP_TOPICS = ['Data Interpretation', 'Puzzles', 'Seating Arrangement'];
+
+export const MIN_GROUP_SIZE = 2;
+export const MAX_GROUP_SIZE = 5;
+
+export interface GroupSpan {
+  start: number; // inclusive paper indices
+  end: number;
+}
+
+// Splits questions into units that must stay together: a whole set, or a single question.
+// Units keep the order of their first member.
+export const groupUnits = (questions: Question[]): Question[][] => {
+  const units: Question[][] = [];
+  const byGroup = new Map<string, Question[]>();
+  questions.forEach(q => {
+    const groupId = q.group?.id;
+    if (!groupId) {
+      units.push([q]);
+      return;
+    }
+    const unit = byGroup.get(groupId);
+    if (unit) {
+      unit.push(q);
+      return;
+    }
+    const fresh = [q];
+    byGroup.set(groupId, fresh);
+    units.push(fresh);
+  });
+  return units;
+};
+
+// Members of a set are contiguous in a paper, so the span is found by walking outwards
+export const getGroupSpan = (questions: Question[], index: number): GroupSpan | null => {
+  const groupId = questions[index]?.group?.id;
+  if (!groupId) return null;
+  let start = index;
+  let end = index;
+  while (start > 0 && questions[start - 1]?.group?.id === groupId) start--;
+  while (end < questions.length - 1 && questions[end + 1]?.group?.id === groupId) end++;
+  return { start, end };
+};
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { validateQuestion, validateQuestionBatch } from './questionValidation';
+
+const raw = (overrides: Record<string, unknown> = {}) => ({
+  text: 'Who was the eleventh President of India?',
+  options: ['A. P. J. Abdul Kalam', 'K. R. Narayanan', 'Pratibha Patil', 'C. V. Raman'],
+  correctAnswer: 0,
+  subject: 'General Awareness',
+  topic: 'Polity',
+  difficulty: 'Easy',
+  explanation: 'Kalam served from 2002 to 2007.',
+  ...overrides
+});
+
+const optionsOf = (input: Record<string, unknown>) => {
+  const result = validateQuestion(input);
+  if (result.ok === false) throw new Error(result.reason);
+  return result.question.options;
+};
+
+describe('validateQuestion', () => {
+  it('keeps initials at the start of options', () => {
+    expect(optionsOf(raw())).toEqual(['A. P. J. Abdul Kalam', 'K. R. Narayanan', 'Pratibha Patil', 'C. V. Raman']);
+  });
+
+  it('strips option labels only when all four carry them in order', () => {
+    expect(optionsOf(raw({ options: ['A) 12', 'B) 15', '(c) 18', 'D. 21'] }))).toEqual(['12', '15', '18', '21']);
+    expect(optionsOf(raw({ options: ['A) A. P. J. Abdul Kalam', 'B) K. R. Narayanan', 'C) Pratibha Patil', 'D) C. V. Raman'] })))
+      .toEqual(['A. P. J. Abdul Kalam', 'K. R. Narayanan', 'Pratibha Patil', 'C. V. Raman']);
+  });
+
+  it('treats Hindi options the same way', () => {
+    const result = validateQuestion(raw({
+      hindi: { text: 'भारत के ग्यारहवें राष्ट्रपति कौन थे?', options: ['ए. पी. जे. अब्दुल कलाम', 'के. आर. नारायणन', 'प्रतिभा पाटिल', 'C. V. Raman'] }
+    }));
+    expect(result.ok === true && result.question.translations?.hi?.options[3]).toBe('C. V. Raman');
+  });
+
+  it('accepts an option letter or a numeric string as the answer', () => {
+    expect(validateQuestion(raw({ correctAnswer: 'b' }))).toMatchObject({ ok: true, question: { correctAnswer: 1 } });
+    expect(validateQuestion(raw({ correctAnswer: '3' }))).toMatchObject({ ok: true, question: { correctAnswer: 3 } });
+    expect(validateQuestion(raw({ correctAnswer: 4 }))).toMatchObject({ ok: false });
+  });
+
+  it('resolves subject aliases and rejects topics outside the syllabus', () => {
+    expect(validateQuestion(raw({ subject: 'maths', topic: 'percentage' }))).toMatchObject({ ok: true, question: { subject: 'Mathematics', topic: 'Percentage' } });
+    expect(validateQuestion(raw({ topic: 'Astrology' }))).toMatchObject({ ok: false });
+  });
+
+  it('stores an empty explanation when the model leaves it out', () => {
+    expect(validateQuestion(raw({ explanation: undefined }))).toMatchObject({ ok: true, question: { explanation: '' } });
+  });
+});
+
+describe('validateQuestionBatch', () => {
+  it('keeps the valid items and reports why the rest were dropped', () => {
+    const report = validateQuestionBatch([raw(), raw({ options: ['1', '1', '2', '3'] }), 'not a question']);
+    expect(report.questions).toHaveLength(1);
+    expect(report.dropped).toBe(2);
+    expect(report.reasons).toEqual(['duplicate options', 'not an object']);
+  });
+});
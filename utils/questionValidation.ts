@@ -0,0 +1,206 @@
+import { Question, QuestionGroup, Subject, Difficulty, QuestionTranslation, SUBJECT_TOPICS } from '../types';
+import { resolveContentBlocks } from './richContent';
+import { MIN_GROUP_SIZE } from './questionGroups';
+
+export type ValidationResult =
+  | { ok: true; question: Omit<Question, 'id'> }
+  | { ok: false; reason: string };
+
+export interface BatchValidationReport {
+  questions: Omit<Question, 'id'>[];
+  dropped: number;
+  reasons: string[];
+}
+
+export type GroupValidationResult =
+  | { ok: true; group: Omit<QuestionGroup, 'id'>; report: BatchValidationReport }
+  | { ok: false; reason: string };
+
+const SUBJECTS = Object.keys(SUBJECT_TOPICS) as Subject[];
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+// Keys are compared after normalise(), so casing/punctuation variants are covered already
+const SUBJECT_ALIASES: Record<string, Subject> = {
+  'maths': 'Mathematics',
+  'math': 'Mathematics',
+  'quantitative aptitude': 'Mathematics',
+  'reasoning': 'General Intelligence & Reasoning',
+  'general intelligence': 'General Intelligence & Reasoning',
+  'general intelligence and reasoning': 'General Intelligence & Reasoning',
+  'gir': 'General Intelligence & Reasoning',
+  'ga': 'General Awareness',
+  'general knowledge': 'General Awareness',
+  'gk': 'General Awareness'
+};
+
+const TOPIC_ALIASES: Record<string, string> = {
+  'lcm and hcf': 'HCF & LCM',
+  'hcf lcm': 'HCF & LCM',
+  'fractions': 'Decimals & Fractions',
+  'percentages': 'Percentage',
+  'ratio': 'Ratio & Proportion',
+  'time speed and distance': 'Time & Distance',
+  'speed time and distance': 'Time & Distance',
+  'simple interest': 'Simple & Compound Interest',
+  'compound interest': 'Simple & Compound Interest',
+  'si and ci': 'Simple & Compound Interest',
+  'di': 'Data Interpretation',
+  'analogy': 'Analogies',
+  'odd one out': 'Classification',
+  'number series': 'Series',
+  'alphabet series': 'Series',
+  'coding decoding': 'Coding-Decoding',
+  'blood relation': 'Blood Relations',
+  'directions': 'Direction Sense',
+  'venn diagram': 'Venn Diagrams',
+  'history': 'Indian History',
+  'indian polity': 'Polity',
+  'economy': 'Economics',
+  'indian economy': 'Economics',
+  'science': 'General Science',
+  'railways': 'Indian Railways',
+  'static gk': 'Books & Authors'
+};
+
+const normalise = (s: string) =>
+  s.toLowerCase().replace(/&/g, ' and ').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const resolveSubject = (raw: unknown): Subject | null => {
+  if (typeof raw !== 'string') return null;
+  const key = normalise(raw);
+  return SUBJECTS.find(s => normalise(s) === key) || SUBJECT_ALIASES[key] || null;
+};
+
+const resolveTopic = (raw: unknown, subject: Subject): string | null => {
+  if (typeof raw !== 'string') return null;
+  const key = normalise(raw);
+  const topics = SUBJECT_TOPICS[subject];
+  const direct = topics.find(t => normalise(t) === key);
+  if (direct) return direct;
+  const alias = TOPIC_ALIASES[key];
+  return alias && topics.includes(alias) ? alias : null;
+};
+
+const resolveDifficulty = (raw: unknown): Difficulty | null => {
+  if (typeof raw !== 'string') return null;
+  const key = raw.trim().toLowerCase();
+  return DIFFICULTIES.find(d => d.toLowerCase() === key) || null;
+};
+
+const OPTION_LABEL = /^\s*\(?([A-Da-d])[).:]\s+/;
+
+// Drops "A)", "(b)", "C." style prefixes the model sometimes adds to options - only when all
+// four carry them in order, so initials such as "C. V. Raman" are left alone
+const cleanOptions = (options: string[]): string[] => {
+  const labelled = options.every((opt, i) => OPTION_LABEL.exec(opt)?.[1].toUpperCase() === String.fromCharCode(65 + i));
+  return options.map(opt => (labelled ? opt.replace(OPTION_LABEL, '') : opt).trim());
+};
+
+// Accepts 0-3, "2", or an option letter; anything else is ambiguous and rejected
+const resolveCorrectAnswer = (raw: unknown): number | null => {
+  if (typeof raw === 'number') return Number.isInteger(raw) && raw >= 0 && raw <= 3 ? raw : null;
+  if (typeof raw !== 'string') return null;
+  const s = raw.trim();
+  if (/^[0-3]$/.test(s)) return parseInt(s, 10);
+  if (/^[A-Da-d]$/.test(s)) return s.toUpperCase().charCodeAt(0) - 65;
+  return null;
+};
+
+// A broken translation is dropped rather than failing the question: English is always shown
+const resolveTranslation = (raw: any): QuestionTranslation | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const text = typeof raw.text === 'string' ? raw.text.trim() : '';
+  if (!text || !Array.isArray(raw.options) || raw.options.length !== 4) return undefined;
+  const options = cleanOptions(raw.options.map((o: unknown) => String(o ?? '')));
+  if (options.some((o: string) => !o)) return undefined;
+  return { text, options, explanation: typeof raw.explanation === 'string' ? raw.explanation.trim() : '' };
+};
+
+// Generated items send a single "table"; stored content already uses media blocks
+const resolveMedia = (raw: any) =>
+  resolveContentBlocks(raw.table && typeof raw.table === 'object' ? [{ ...raw.table, type: 'table' }] : raw.media);
+
+export const validateQuestion = (raw: any): ValidationResult => {
+  if (!raw || typeof raw !== 'object') return { ok: false, reason: 'not an object' };
+
+  const text = typeof raw.text === 'string' ? raw.text.trim() : '';
+  if (!text) return { ok: false, reason: 'missing question text' };
+
+  if (!Array.isArray(raw.options) || raw.options.length !== 4) {
+    return { ok: false, reason: `expected 4 options, got ${Array.isArray(raw.options) ? raw.options.length : 'none'}` };
+  }
+  if (!raw.options.every((o: unknown) => typeof o === 'string' || typeof o === 'number')) {
+    return { ok: false, reason: 'non-text option' };
+  }
+  const options = cleanOptions(raw.options.map((o: string | number) => String(o)));
+  if (options.some((o: string) => !o)) return { ok: false, reason: 'empty option' };
+  if (new Set(options.map(normalise)).size !== 4) return { ok: false, reason: 'duplicate options' };
+
+  const correctAnswer = resolveCorrectAnswer(raw.correctAnswer);
+  if (correctAnswer === null) return { ok: false, reason: `invalid correctAnswer "${raw.correctAnswer}"` };
+
+  const subject = resolveSubject(raw.subject);
+  if (!subject) return { ok: false, reason: `unknown subject "${raw.subject}"` };
+
+  const topic = resolveTopic(raw.topic, subject);
+  if (!topic) return { ok: false, reason: `topic "${raw.topic}" is not in the ${subject} syllabus` };
+
+  const difficulty = resolveDifficulty(raw.difficulty);
+  if (!difficulty) return { ok: false, reason: `invalid difficulty "${raw.difficulty}"` };
+
+  const hindi = resolveTranslation(raw.hindi);
+  const media = resolveMedia(raw);
+
+  return {
+    ok: true,
+    question: {
+      text,
+      options,
+      correctAnswer,
+      subject,
+      topic,
+      difficulty,
+      explanation: typeof raw.explanation === 'string' ? raw.explanation.trim() : '',
+      pyqTag: typeof raw.pyqTag === 'string' && raw.pyqTag.trim() ? raw.pyqTag.trim() : undefined,
+      media,
+      translations: hindi ? { hi: hindi } : undefined
+    }
+  };
+};
+
+export const validateQuestionBatch = (raws: unknown): BatchValidationReport => {
+  if (!Array.isArray(raws)) return { questions: [], dropped: 0, reasons: ['response is not an array'] };
+
+  const report: BatchValidationReport = { questions: [], dropped: 0, reasons: [] };
+  raws.forEach(raw => {
+    const result = validateQuestion(raw);
+    if (result.ok === true) {
+      report.questions.push(result.question);
+    } else {
+      report.dropped++;
+      report.reasons.push(result.reason);
+    }
+  });
+  return report;
+};
+
+// A set survives as long as its stem is usable and enough members pass on their own
+export const validateQuestionGroup = (raw: any): GroupValidationResult => {
+  if (!raw || typeof raw !== 'object') return { ok: false, reason: 'not an object' };
+
+  const stem = typeof raw.stem === 'string' ? raw.stem.trim() : '';
+  if (!stem) return { ok: false, reason: 'missing shared stem' };
+
+  const report = validateQuestionBatch(raw.questions);
+  if (report.questions.length < MIN_GROUP_SIZE) {
+    return { ok: false, reason: `only ${report.questions.length} usable question(s) in the set (${report.reasons.join('; ') || 'none sent'})` };
+  }
+  if (new Set(report.questions.map(q => q.subject)).size > 1) return { ok: false, reason: 'set mixes subjects' };
+
+  const hindiStem = typeof raw.hindiStem === 'string' ? raw.hindiStem.trim() : '';
+  return {
+    ok: true,
+    group: { stem, media: resolveMedia(raw), translations: hindiStem ? { hi: hindiStem } : undefined },
+    report
+  };
+};
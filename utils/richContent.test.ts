@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { sanitizeSvg, svgDataUrl } from './richContent';
+
+const wrap = (body: string) => `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 100 100">${body}</svg>`;
+
+// Nothing that can navigate, run script or pull in other content may survive
+const expectInert = (output: string | null) => {
+  expect(output).not.toBeNull();
+  expect(output).not.toMatch(/<(script|a|set|animate|animateTransform|animateMotion|foreignObject|iframe|object|embed|style|use|image)\b/i);
+  expect(output).not.toMatch(/javascript:|\bon\w+\s*=|href|<!\[CDATA\[/i);
+};
+
+describe('sanitizeSvg', () => {
+  it('keeps a plain figure intact', () => {
+    const output = sanitizeSvg(wrap('<circle cx="50" cy="50" r="40" fill="none" stroke="#334155" stroke-width="2"/><text x="10" y="20" font-size="12">A</text>'));
+    expect(output).toContain('<circle cx="50" cy="50" r="40" fill="none" stroke="#334155" stroke-width="2"/>');
+    expect(output).toContain('>A</text>');
+  });
+
+  it('drops scripts and event handlers', () => {
+    expectInert(sanitizeSvg(wrap('<script>alert(1)</script><rect width="10" height="10" onclick="alert(1)"/>')));
+    expectInert(sanitizeSvg('<svg xmlns="http://www.w3.org/2000/svg" onload="alert(1)"><g/></svg>'));
+  });
+
+  it('drops links animated to javascript: URLs', () => {
+    expectInert(sanitizeSvg(wrap('<a><set attributeName="href" to="javascript:alert(1)"/><text x="0" y="10">click</text></a>')));
+    expectInert(sanitizeSvg(wrap('<a xlink:href="#x"><animate attributeName="xlink:href" values="javascript:alert(1)"/><rect width="10" height="10"/></a>')));
+    expectInert(sanitizeSvg(wrap('<a href="javascript:alert(1)"><circle r="5"/></a>')));
+  });
+
+  it('drops foreign content and external references', () => {
+    expectInert(sanitizeSvg(wrap('<foreignObject><iframe xmlns="http://www.w3.org/1999/xhtml" src="javascript:alert(1)"/></foreignObject>')));
+    expectInert(sanitizeSvg(wrap('<use href="data:image/svg+xml;base64,PHN2Zz48L3N2Zz4=#x"/><image href="https://example.com/x.png"/>')));
+    expectInert(sanitizeSvg(wrap('<style>@import url(https://example.com/x.css);</style>')));
+    expect(sanitizeSvg(wrap('<rect width="10" height="10" fill="url(https://example.com/x#y)"/>'))).not.toContain('example.com');
+  });
+
+  it('turns CDATA into plain text instead of markup', () => {
+    const output = sanitizeSvg(wrap('<text x="0" y="10"><![CDATA[</text><script>alert(1)</script>]]></text>'));
+    expectInert(output);
+    expect(output).toContain('&lt;script&gt;');
+  });
+
+  it('ignores elements smuggled in from other namespaces', () => {
+    expectInert(sanitizeSvg(wrap('<html:script xmlns:html="http://www.w3.org/1999/xhtml">alert(1)</html:script><x:svg xmlns:x="urn:evil"><x:circle onload="alert(1)"/></x:svg>')));
+  });
+
+  it('rejects documents that are not SVG', () => {
+    expect(sanitizeSvg('<html><script>alert(1)</script></html>')).toBeNull();
+    expect(sanitizeSvg('<svg><unclosed></svg>')).toBeNull();
+  });
+
+  it('encodes figures as image data URLs', () => {
+    expect(svgDataUrl('<svg/>')).toBe('data:image/svg+xml;charset=utf-8,%3Csvg%2F%3E');
+  });
+});
@@ -0,0 +1,125 @@
+import katex from 'katex';
+import { ContentBlock, ContentFigure, ContentTable } from '../types';
+
+export type TextSegment =
+  | { kind: 'text'; value: string }
+  | { kind: 'math'; value: string; display: boolean };
+
+// Splits "Area = $\pi r^2$" into text and math runs. "\$" stays a literal dollar sign.
+export const parseMathText = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  const pattern = /\$\$([\s\S]+?)\$\$|(?<!\\)\$((?:\\\$|[^$])+?)\$/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  const pushText = (value: string) => {
+    if (value) segments.push({ kind: 'text', value: value.replace(/\\\$/g, '$') });
+  };
+
+  while ((match = pattern.exec(text)) !== null) {
+    pushText(text.slice(last, match.index));
+    segments.push(match[1] !== undefined
+      ? { kind: 'math', value: match[1].trim(), display: true }
+      : { kind: 'math', value: match[2].trim(), display: false });
+    last = pattern.lastIndex;
+  }
+  pushText(text.slice(last));
+  return segments;
+};
+
+// Malformed LaTeX renders as red source text instead of throwing mid-test
+export const renderMath = (latex: string, display: boolean): string =>
+  katex.renderToString(latex, { displayMode: display, throwOnError: false, output: 'html' });
+
+// Plain-text form for prompts, dedupe and anywhere markup can't render
+export const stripMathMarkup = (text: string): string =>
+  parseMathText(text).map(s => s.value).join('');
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Static drawing only: no scripts, links, animation, foreign content or CSS
+const SVG_ALLOWED_TAGS = new Set([
+  'svg', 'g', 'defs', 'title', 'desc', 'path', 'rect', 'circle', 'ellipse', 'line', 'polyline', 'polygon',
+  'text', 'tspan', 'marker', 'linearGradient', 'radialGradient', 'stop'
+]);
+
+const SVG_ALLOWED_ATTRIBUTES = new Set([
+  'id', 'viewBox', 'width', 'height', 'preserveAspectRatio', 'transform',
+  'x', 'y', 'x1', 'y1', 'x2', 'y2', 'cx', 'cy', 'r', 'rx', 'ry', 'fx', 'fy', 'd', 'points', 'dx', 'dy', 'rotate',
+  'fill', 'fill-opacity', 'fill-rule', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+  'stroke-dashoffset', 'stroke-linecap', 'stroke-linejoin', 'opacity',
+  'font-family', 'font-size', 'font-weight', 'font-style', 'text-anchor', 'dominant-baseline', 'letter-spacing',
+  'marker-start', 'marker-mid', 'marker-end', 'markerWidth', 'markerHeight', 'markerUnits', 'refX', 'refY', 'orient',
+  'offset', 'stop-color', 'stop-opacity', 'gradientUnits', 'gradientTransform'
+]);
+
+// Attribute values may point at a gradient or marker in the same figure, nothing else
+const isSafeSvgValue = (value: string) => {
+  const urls = value.match(/url\s*\(/gi) || [];
+  return urls.length === 0 || /^url\(#[\w-]+\)$/.test(value.trim());
+};
+
+// Figures can come from generated content, so they are rebuilt from an allowlist: only known
+// drawing tags and plain presentation attributes are copied into a fresh document, and text
+// (CDATA included) comes across as text. Anything else is dropped with its children.
+export const sanitizeSvg = (svg: string): string | null => {
+  const source = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  const root = source.documentElement;
+  if (!root || root.namespaceURI !== SVG_NS || root.localName !== 'svg' || source.getElementsByTagName('parsererror').length > 0) return null;
+
+  const doc = document.implementation.createDocument(SVG_NS, null, null);
+  const copy = (el: Element): Element | null => {
+    if (el.namespaceURI !== SVG_NS || !SVG_ALLOWED_TAGS.has(el.localName)) return null;
+    const clean = doc.createElementNS(SVG_NS, el.localName);
+    Array.from(el.attributes).forEach(attr => {
+      if (attr.namespaceURI === null && SVG_ALLOWED_ATTRIBUTES.has(attr.localName) && isSafeSvgValue(attr.value)) {
+        clean.setAttribute(attr.localName, attr.value);
+      }
+    });
+    el.childNodes.forEach(child => {
+      if (child.nodeType === Node.ELEMENT_NODE) {
+        const cleanChild = copy(child as Element);
+        if (cleanChild) clean.appendChild(cleanChild);
+      } else if (child.nodeType === Node.TEXT_NODE || child.nodeType === Node.CDATA_SECTION_NODE) {
+        clean.appendChild(doc.createTextNode(child.nodeValue || ''));
+      }
+    });
+    return clean;
+  };
+  return new XMLSerializer().serializeToString(copy(root)!);
+};
+
+// Figures are drawn as images as well, so even markup that got past the sanitiser never runs
+export const svgDataUrl = (svg: string): string => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(v => typeof v === 'string' || typeof v === 'number');
+
+const resolveTable = (raw: any): ContentTable | null => {
+  if (!isStringArray(raw.headers) || raw.headers.length === 0 || !Array.isArray(raw.rows)) return null;
+  const headers = raw.headers.map(String);
+  const rows = raw.rows.filter(isStringArray).map((row: (string | number)[]) => row.map(String));
+  if (rows.length === 0 || rows.some((row: string[]) => row.length !== headers.length)) return null;
+  return { type: 'table', headers, rows, caption: typeof raw.caption === 'string' ? raw.caption : undefined };
+};
+
+const resolveFigure = (raw: any): ContentFigure | null => {
+  if (typeof raw.svg !== 'string') return null;
+  const svg = sanitizeSvg(raw.svg);
+  if (!svg) return null;
+  return {
+    type: 'figure',
+    svg,
+    alt: typeof raw.alt === 'string' ? raw.alt : '',
+    caption: typeof raw.caption === 'string' ? raw.caption : undefined
+  };
+};
+
+// Keeps the well-formed blocks; a ragged table or broken SVG is dropped on its own
+export const resolveContentBlocks = (raw: unknown): ContentBlock[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  const blocks = raw
+    .map((b: any) => (b?.type === 'table' ? resolveTable(b) : b?.type === 'figure' ? resolveFigure(b) : null))
+    .filter((b): b is ContentBlock => b !== null);
+  return blocks.length > 0 ? blocks : undefined;
+};
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { Question, UserResponse, MarkingScheme } from '../types';
+import { scoreTest, formatMarks, getMarkingRule, MARKING_SCHEMES } from './scoring';
+
+const question = (id: string, subject: Question['subject']): Question => ({
+  id,
+  text: `Question ${id}`,
+  options: ['1', '2', '3', '4'],
+  correctAnswer: 0,
+  subject,
+  topic: subject === 'Mathematics' ? 'Percentage' : 'Polity',
+  difficulty: 'Easy',
+  explanation: ''
+});
+
+const answer = (questionId: string, selectedOption: number | null): UserResponse => ({
+  questionId,
+  selectedOption,
+  status: selectedOption === null ? 'Not Answered' : 'Answered',
+  timeSpentSeconds: 10,
+  visited: true
+});
+
+const questions = [question('m1', 'Mathematics'), question('m2', 'Mathematics'), question('g1', 'General Awareness'), question('g2', 'General Awareness')];
+const responses = { m1: answer('m1', 0), m2: answer('m2', 2), g1: answer('g1', null), g2: answer('g2', 1) };
+
+describe('scoreTest', () => {
+  it('deducts a third of a mark per wrong answer under NTPC marking', () => {
+    const result = scoreTest(questions, responses);
+    expect(result).toMatchObject({ total: 4, attempted: 3, correct: 1, wrong: 2, score: 0.33, maxScore: 4 });
+    expect(result.bySubject['Mathematics']).toMatchObject({ attempted: 2, correct: 1, wrong: 1, score: 0.67 });
+    expect(result.bySubject['General Awareness']).toMatchObject({ attempted: 1, correct: 0, wrong: 1, score: -0.33 });
+  });
+
+  it('applies no penalty in practice marking', () => {
+    expect(scoreTest(questions, responses, MARKING_SCHEMES.PRACTICE).score).toBe(1);
+  });
+
+  it('uses a section override for its subject only', () => {
+    const scheme: MarkingScheme = { ...MARKING_SCHEMES.NTPC_CBT1, sectionOverrides: { 'General Awareness': { marksPerCorrect: 2, negativeMarks: 0.5 } } };
+    expect(getMarkingRule(scheme, 'Mathematics').marksPerCorrect).toBe(1);
+    const result = scoreTest(questions, responses, scheme);
+    expect(result.maxScore).toBe(6);
+    expect(result.bySubject['General Awareness']?.score).toBe(-0.5);
+  });
+});
+
+describe('formatMarks', () => {
+  it('writes fractional marks as fractions', () => {
+    expect(formatMarks(1)).toBe('1');
+    expect(formatMarks(1 / 3)).toBe('1/3');
+    expect(formatMarks(0.25)).toBe('1/4');
+    expect(formatMarks(Math.PI)).toBe('3.14');
+  });
+});
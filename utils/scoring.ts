@@ -0,0 +1,73 @@
+import { Question, UserResponse, Subject, MarkingScheme, MarkingRule, TestConfig } from '../types';
+
+export const MARKING_SCHEMES: Record<'NTPC_CBT1' | 'NTPC_CBT2' | 'GROUP_D' | 'PRACTICE', MarkingScheme> = {
+  NTPC_CBT1: { id: 'ntpc-cbt1', name: 'RRB NTPC CBT-1', marksPerCorrect: 1, negativeMarks: 1 / 3 },
+  NTPC_CBT2: { id: 'ntpc-cbt2', name: 'RRB NTPC CBT-2', marksPerCorrect: 1, negativeMarks: 1 / 3 },
+  GROUP_D: { id: 'group-d', name: 'RRB Group D', marksPerCorrect: 1, negativeMarks: 1 / 3 },
+  PRACTICE: { id: 'practice', name: 'Practice (No Negative Marking)', marksPerCorrect: 1, negativeMarks: 0 }
+};
+
+export const DEFAULT_MARKING_SCHEME = MARKING_SCHEMES.NTPC_CBT1;
+
+export const getMarkingScheme = (config?: TestConfig | null): MarkingScheme =>
+  config?.markingScheme || DEFAULT_MARKING_SCHEME;
+
+export const getMarkingRule = (scheme: MarkingScheme, subject: Subject): MarkingRule =>
+  scheme.sectionOverrides?.[subject] || scheme;
+
+// Renders 1/3 as "1/3" rather than 0.333..
+export const formatMarks = (marks: number): string => {
+  if (Number.isInteger(marks)) return `${marks}`;
+  for (let d = 2; d <= 10; d++) {
+    const n = marks * d;
+    if (Math.abs(n - Math.round(n)) < 1e-9) return `${Math.round(n)}/${d}`;
+  }
+  return marks.toFixed(2);
+};
+
+export interface ScoreBreakdown {
+  total: number;
+  attempted: number;
+  correct: number;
+  wrong: number;
+  score: number;
+  maxScore: number;
+}
+
+const emptyBreakdown = (): ScoreBreakdown => ({ total: 0, attempted: 0, correct: 0, wrong: 0, score: 0, maxScore: 0 });
+
+const round2 = (n: number) => parseFloat(n.toFixed(2));
+
+export const scoreTest = (
+  questions: Question[],
+  responses: Record<string, UserResponse>,
+  scheme: MarkingScheme = DEFAULT_MARKING_SCHEME
+): ScoreBreakdown & { bySubject: Partial<Record<Subject, ScoreBreakdown>> } => {
+  const overall = emptyBreakdown();
+  const bySubject: Partial<Record<Subject, ScoreBreakdown>> = {};
+
+  questions.forEach(q => {
+    const rule = getMarkingRule(scheme, q.subject);
+    const section = bySubject[q.subject] || (bySubject[q.subject] = emptyBreakdown());
+    const selected = responses[q.id]?.selectedOption;
+
+    [overall, section].forEach(b => {
+      b.total++;
+      b.maxScore += rule.marksPerCorrect;
+      if (selected === null || selected === undefined) return;
+      b.attempted++;
+      if (selected === q.correctAnswer) {
+        b.correct++;
+        b.score += rule.marksPerCorrect;
+      } else {
+        b.wrong++;
+        b.score -= rule.negativeMarks;
+      }
+    });
+  });
+
+  overall.score = round2(overall.score);
+  Object.values(bySubject).forEach(b => { b.score = round2(b.score); });
+
+  return { ...overall, bySubject };
+};
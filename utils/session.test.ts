@@ -0,0 +1,53 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Question, TestConfig } from '../types';
+import { saveSessionPaper, saveSessionProgress, saveSessionEvents, loadSession, clearSession } from './session';
+
+const config: TestConfig = { mode: 'Full', totalQuestions: 1, durationMinutes: 1, selectedSubjects: ['Mathematics'] };
+
+const questions: Question[] = [{
+  id: 'q1',
+  text: 'What is 2 + 2?',
+  options: ['3', '4', '5', '6'],
+  correctAnswer: 1,
+  subject: 'Mathematics',
+  topic: 'Number System',
+  difficulty: 'Easy',
+  explanation: ''
+}];
+
+describe('session storage', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('restores the paper, the progress and the event log from their own keys', () => {
+    saveSessionPaper({ config, questions });
+    saveSessionEvents([{ type: 'select', questionId: 'q1', option: 1, at: 1 }]);
+    saveSessionProgress({ responses: {}, timeLeft: 30, currentQuestionIndex: 0 });
+
+    const result = loadSession();
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.session.questions).toEqual(questions);
+    expect(result.session.timeLeft).toBe(30);
+    expect(result.session.events).toHaveLength(1);
+  });
+
+  it('does not write the event log with the progress', () => {
+    saveSessionProgress({ responses: {}, timeLeft: 30, currentQuestionIndex: 0 });
+    expect(JSON.parse(localStorage.getItem('rrb_current_session')!)).not.toHaveProperty('events');
+  });
+
+  it('reports a session whose paper was never saved as unrecoverable', () => {
+    saveSessionProgress({ responses: {}, timeLeft: 30, currentQuestionIndex: 0 });
+    expect(loadSession().status).toBe('unrecoverable');
+  });
+
+  it('clears every key', () => {
+    saveSessionPaper({ config, questions });
+    saveSessionEvents([]);
+    saveSessionProgress({ responses: {}, timeLeft: 30, currentQuestionIndex: 0 });
+    clearSession();
+    expect(loadSession().status).toBe('none');
+    expect(localStorage.length).toBe(0);
+  });
+});
@@ -0,0 +1,114 @@
+import { Question, TestSession } from '../types';
+
+const SESSION_KEY = 'rrb_current_session';
+// The paper is stored apart from the progress, so timer ticks don't rewrite every question
+const PAPER_KEY = 'rrb_current_session_paper';
+// The attempt log grows with the test, so it too is only written when it changes
+const EVENTS_KEY = 'rrb_current_session_events';
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export type SessionLoadResult =
+  | { status: 'none' }
+  | { status: 'ok'; session: TestSession }
+  | { status: 'unrecoverable'; reason: string };
+
+const isValidQuestion = (q: any): q is Question =>
+  !!q &&
+  typeof q.id === 'string' &&
+  typeof q.text === 'string' &&
+  Array.isArray(q.options) && q.options.length === 4 &&
+  typeof q.correctAnswer === 'number' &&
+  typeof q.subject === 'string';
+
+const writeItem = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    // Quota exceeded or storage disabled - the test can continue, it just won't be resumable
+    console.warn("Session save failed", e);
+  }
+};
+
+// Once per paper, and again whenever questions are added to it
+export const saveSessionPaper = (paper: Pick<TestSession, 'config' | 'questions'>) => {
+  writeItem(PAPER_KEY, paper);
+};
+
+// Small enough to write on every tick
+export const saveSessionProgress = (progress: Omit<TestSession, 'timestamp' | 'config' | 'questions' | 'events'>) => {
+  writeItem(SESSION_KEY, { ...progress, timestamp: Date.now() });
+};
+
+export const saveSessionEvents = (events: TestSession['events']) => {
+  writeItem(EVENTS_KEY, events);
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(SESSION_KEY);
+  localStorage.removeItem(PAPER_KEY);
+  localStorage.removeItem(EVENTS_KEY);
+};
+
+export const loadSession = (): SessionLoadResult => {
+  const saved = localStorage.getItem(SESSION_KEY);
+  if (!saved) return { status: 'none' };
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(saved);
+    // The paper and the log have keys of their own; sessions saved before the split
+    // carry both inline, and those copies are kept
+    if (parsed && !Array.isArray(parsed.questions)) {
+      const paper = JSON.parse(localStorage.getItem(PAPER_KEY) || 'null');
+      if (paper) parsed = { ...parsed, config: paper.config, questions: paper.questions };
+    }
+    if (parsed && !Array.isArray(parsed.events)) {
+      const events = JSON.parse(localStorage.getItem(EVENTS_KEY) || 'null');
+      if (Array.isArray(events)) parsed = { ...parsed, events };
+    }
+  } catch (e) {
+    clearSession();
+    return { status: 'unrecoverable', reason: 'The saved session data is corrupted.' };
+  }
+
+  if (!parsed || typeof parsed.timestamp !== 'number' || Date.now() - parsed.timestamp > SESSION_TTL_MS) {
+    clearSession();
+    return { status: 'none' };
+  }
+
+  // Sessions written before questions were persisted only carry responses + timer
+  if (!parsed.config || !Array.isArray(parsed.questions)) {
+    clearSession();
+    return { status: 'unrecoverable', reason: 'The question paper of your last test was not saved.' };
+  }
+
+  if (parsed.questions.length === 0 || !parsed.questions.every(isValidQuestion)) {
+    clearSession();
+    return { status: 'unrecoverable', reason: 'Some questions of your last test could not be restored.' };
+  }
+
+  const ids = new Set((parsed.questions as Question[]).map(q => q.id));
+  const responses = parsed.responses || {};
+  if (Object.keys(responses).some(id => !ids.has(id))) {
+    clearSession();
+    return { status: 'unrecoverable', reason: 'Your saved answers do not match the saved questions.' };
+  }
+
+  const currentQuestionIndex = Math.min(
+    Math.max(0, Number(parsed.currentQuestionIndex) || 0),
+    parsed.questions.length - 1
+  );
+
+  return {
+    status: 'ok',
+    session: {
+      config: parsed.config,
+      questions: parsed.questions,
+      responses,
+      timeLeft: Math.max(0, Number(parsed.timeLeft) || 0),
+      currentQuestionIndex,
+      timestamp: parsed.timestamp,
+      events: Array.isArray(parsed.events) ? parsed.events : []
+    }
+  };
+};
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { Question, UserResponse } from '../types';
+import { gradeResponse, getReviewReasons, createReviewCard, scheduleReview, applyReviewOutcomes, buildReviewOutcomes } from './spacedRepetition';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+const question = (id: string): Question => ({
+  id,
+  text: `Question ${id}`,
+  options: ['1', '2', '3', '4'],
+  correctAnswer: 2,
+  subject: 'Mathematics',
+  topic: 'Percentage',
+  difficulty: 'Medium',
+  explanation: ''
+});
+
+const answer = (selectedOption: number | null, isBookmarked = false): UserResponse => ({
+  questionId: 'q',
+  selectedOption,
+  status: selectedOption === null ? 'Not Answered' : 'Answered',
+  timeSpentSeconds: 10,
+  visited: true,
+  isBookmarked
+});
+
+describe('grading a test response', () => {
+  it('grades skipped, wrong and correct answers', () => {
+    expect(gradeResponse(question('q'), undefined)).toBe(0);
+    expect(gradeResponse(question('q'), answer(1))).toBe(1);
+    expect(gradeResponse(question('q'), answer(2))).toBe(4);
+  });
+
+  it('lists why a question belongs in the deck', () => {
+    expect(getReviewReasons(question('q'), answer(null))).toEqual(['skipped']);
+    expect(getReviewReasons(question('q'), answer(0, true))).toEqual(['wrong', 'bookmarked']);
+    expect(getReviewReasons(question('q'), answer(2))).toEqual([]);
+  });
+});
+
+describe('scheduleReview', () => {
+  it('grows the interval 1, 6, then by the ease factor on passing grades', () => {
+    let card = createReviewCard(question('q'), ['wrong'], NOW);
+    card = scheduleReview(card, 5, NOW);
+    expect(card.intervalDays).toBe(1);
+    card = scheduleReview(card, 5, NOW);
+    expect(card.intervalDays).toBe(6);
+    card = scheduleReview(card, 5, NOW);
+    expect(card.intervalDays).toBe(Math.round(6 * card.easeFactor));
+    expect(card.dueAt).toBe(NOW + card.intervalDays * DAY_MS);
+  });
+
+  it('restarts a failed card at one day without letting the ease drop below 1.3', () => {
+    let card = createReviewCard(question('q'), ['wrong'], NOW);
+    for (let i = 0; i < 10; i++) card = scheduleReview(card, 0, NOW);
+    expect(card).toMatchObject({ repetitions: 0, intervalDays: 1, easeFactor: 1.3 });
+  });
+});
+
+describe('applyReviewOutcomes', () => {
+  it('adds new wrong questions due now and reschedules cards already in the deck', () => {
+    const existing = createReviewCard(question('old'), ['bookmarked'], NOW - DAY_MS);
+    const deck = new Map([[existing.id, existing]]);
+    const outcomes = buildReviewOutcomes(
+      [question('old'), question('new'), question('right')],
+      { old: answer(0), new: answer(1), right: answer(2) }
+    );
+    const changed = applyReviewOutcomes(deck, outcomes, NOW);
+    expect(changed.map(c => c.id)).toEqual(['old', 'new']);
+    expect(changed[0]).toMatchObject({ reasons: ['bookmarked', 'wrong'], intervalDays: 1, lastReviewedAt: NOW });
+    expect(changed[1]).toMatchObject({ reasons: ['wrong'], dueAt: NOW, repetitions: 0 });
+  });
+});
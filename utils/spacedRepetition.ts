@@ -0,0 +1,79 @@
+import { Question, UserResponse, ReviewCard, ReviewReason } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+const INITIAL_EASE = 2.5;
+
+export interface ReviewOutcome {
+  question: Question;
+  reasons: ReviewReason[];
+  quality: number; // SM-2 recall grade, 0 (blackout) .. 5 (perfect)
+}
+
+// Maps a test response to an SM-2 grade: skipped 0, wrong 1, correct 4
+export const gradeResponse = (question: Question, response?: UserResponse): number => {
+  if (!response || response.selectedOption === null) return 0;
+  return response.selectedOption === question.correctAnswer ? 4 : 1;
+};
+
+// Why a question belongs in the deck, if at all
+export const getReviewReasons = (question: Question, response?: UserResponse): ReviewReason[] => {
+  const reasons: ReviewReason[] = [];
+  if (!response || response.selectedOption === null) reasons.push('skipped');
+  else if (response.selectedOption !== question.correctAnswer) reasons.push('wrong');
+  if (response?.isBookmarked) reasons.push('bookmarked');
+  return reasons;
+};
+
+export const createReviewCard = (question: Question, reasons: ReviewReason[], now: number = Date.now()): ReviewCard => ({
+  id: question.id,
+  question,
+  reasons,
+  easeFactor: INITIAL_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  dueAt: now,
+  addedAt: now
+});
+
+// SM-2: a failed recall (grade < 3) restarts the card at one day; a pass grows
+// the interval 1 → 6 → interval × ease, and the grade nudges the ease factor
+export const scheduleReview = (card: ReviewCard, quality: number, now: number = Date.now()): ReviewCard => {
+  const q = Math.max(0, Math.min(5, quality));
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)));
+
+  let repetitions: number;
+  let intervalDays: number;
+  if (q < 3) {
+    repetitions = 0;
+    intervalDays = 1;
+  } else {
+    repetitions = card.repetitions + 1;
+    intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.intervalDays * easeFactor);
+  }
+
+  return { ...card, easeFactor, repetitions, intervalDays, dueAt: now + intervalDays * DAY_MS, lastReviewedAt: now };
+};
+
+// Folds one finished test into the deck: cards already in it are rescheduled by
+// how they were answered, new wrong/skipped/bookmarked questions are added due now
+export const applyReviewOutcomes = (deck: Map<string, ReviewCard>, outcomes: ReviewOutcome[], now: number = Date.now()): ReviewCard[] => {
+  const changed: ReviewCard[] = [];
+  outcomes.forEach(({ question, reasons, quality }) => {
+    const existing = deck.get(question.id);
+    if (existing) {
+      const merged = Array.from(new Set([...existing.reasons, ...reasons]));
+      changed.push(scheduleReview({ ...existing, reasons: merged }, quality, now));
+    } else if (reasons.length > 0) {
+      changed.push(createReviewCard(question, reasons, now));
+    }
+  });
+  return changed;
+};
+
+export const buildReviewOutcomes = (questions: Question[], responses: Record<string, UserResponse>): ReviewOutcome[] =>
+  questions.map(question => ({
+    question,
+    reasons: getReviewReasons(question, responses[question.id]),
+    quality: gradeResponse(question, responses[question.id])
+  }));
@@ -0,0 +1,172 @@
+import { TestAttempt, Subject, Difficulty, AIAnalysis, SUBJECT_TOPICS } from '../types';
+import { scoreTest, getMarkingScheme } from './scoring';
+import { getExamPattern } from './examPatterns';
+
+// Score as % of the maximum marks available under the attempt's own marking scheme
+const scorePercent = ({ config, questions, result }: TestAttempt) => {
+  const { maxScore } = scoreTest(questions, result.responses, getMarkingScheme(config));
+  return maxScore > 0 ? (result.score / maxScore) * 100 : 0;
+};
+
+export interface HistoryStats {
+  testsAttempted: number;
+  questionsSolved: number;
+  questionsCorrect: number;
+  overallAccuracy: number; // % of attempted questions answered correctly, across all tests
+  averageScorePercent: number;
+}
+
+export const computeHistoryStats = (history: TestAttempt[]): HistoryStats => {
+  const totals = history.reduce((acc, attempt) => ({
+    attempted: acc.attempted + attempt.result.attempted,
+    correct: acc.correct + attempt.result.correct,
+    scorePercent: acc.scorePercent + scorePercent(attempt)
+  }), { attempted: 0, correct: 0, scorePercent: 0 });
+
+  return {
+    testsAttempted: history.length,
+    questionsSolved: totals.attempted,
+    questionsCorrect: totals.correct,
+    overallAccuracy: totals.attempted > 0 ? parseFloat(((totals.correct / totals.attempted) * 100).toFixed(1)) : 0,
+    averageScorePercent: history.length > 0 ? parseFloat((totals.scorePercent / history.length).toFixed(1)) : 0
+  };
+};
+
+export const describeTestConfig = (attempt: TestAttempt): string => {
+  const { config } = attempt;
+  if (config.mode === 'Review') return 'Revision Session';
+  if (config.mode === 'Practice') return `${config.selectedTopic || config.selectedSubjects[0]} Practice`;
+  if (config.selectedTopic) return `${config.selectedTopic} Test`;
+  const pattern = getExamPattern(config.examPatternId);
+  if (pattern) return `${pattern.name} Full Mock`;
+  if (config.mode === 'Full') return 'Full Mock Test';
+  if (config.selectedSubjects.length === 1) return `${config.selectedSubjects[0]} Test`;
+  return `${config.mode} Test`;
+};
+
+// --- Cross-test progress ---
+
+const SUBJECTS = Object.keys(SUBJECT_TOPICS) as Subject[];
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+const byDateAsc = (a: TestAttempt, b: TestAttempt) => a.result.date.localeCompare(b.result.date);
+
+export interface SubjectTrendPoint {
+  attemptId: string;
+  label: string;
+  // Keyed by Subject; missing when the attempt had no questions from that subject
+  score: Partial<Record<Subject, number>>;    // % of max marks
+  accuracy: Partial<Record<Subject, number>>; // % of attempted that were correct
+}
+
+export const computeSubjectTrends = (history: TestAttempt[]): SubjectTrendPoint[] => {
+  return [...history].sort(byDateAsc).map(({ id, config, questions, result }) => {
+    const point: SubjectTrendPoint = {
+      attemptId: id,
+      label: new Date(result.date).toLocaleDateString(undefined, { day: 'numeric', month: 'short' }),
+      score: {},
+      accuracy: {}
+    };
+
+    const { bySubject } = scoreTest(questions, result.responses, getMarkingScheme(config));
+    SUBJECTS.forEach(subject => {
+      const section = bySubject[subject];
+      if (!section) return;
+      point.score[subject] = parseFloat(((section.score / section.maxScore) * 100).toFixed(1));
+      point.accuracy[subject] = section.attempted > 0 ? parseFloat(((section.correct / section.attempted) * 100).toFixed(1)) : 0;
+    });
+
+    return point;
+  });
+};
+
+export interface TopicMastery {
+  subject: Subject;
+  topic: string;
+  seen: number;
+  attempted: number;
+  correct: number;
+  mastery: number | null; // accuracy %, null until the topic has been attempted
+}
+
+export const computeTopicMastery = (history: TestAttempt[]): TopicMastery[] => {
+  const cells = new Map<string, TopicMastery>();
+  SUBJECTS.forEach(subject => {
+    SUBJECT_TOPICS[subject].forEach(topic => {
+      cells.set(`${subject}|${topic}`, { subject, topic, seen: 0, attempted: 0, correct: 0, mastery: null });
+    });
+  });
+
+  history.forEach(({ questions, result }) => {
+    questions.forEach(q => {
+      // Topics outside the taxonomy (model drift) are ignored rather than growing the grid
+      const cell = cells.get(`${q.subject}|${q.topic}`);
+      const res = result.responses[q.id];
+      if (!cell || !res) return;
+      cell.seen++;
+      if (res.selectedOption !== null) {
+        cell.attempted++;
+        if (res.selectedOption === q.correctAnswer) cell.correct++;
+      }
+    });
+  });
+
+  return Array.from(cells.values()).map(cell => ({
+    ...cell,
+    mastery: cell.attempted > 0 ? Math.round((cell.correct / cell.attempted) * 100) : null
+  }));
+};
+
+export interface DifficultyTiming {
+  difficulty: Difficulty;
+  questions: number;
+  avgSeconds: number;
+}
+
+export const computeDifficultyTiming = (history: TestAttempt[]): DifficultyTiming[] => {
+  const totals: Record<Difficulty, { count: number; seconds: number }> = {
+    Easy: { count: 0, seconds: 0 },
+    Medium: { count: 0, seconds: 0 },
+    Hard: { count: 0, seconds: 0 }
+  };
+
+  history.forEach(({ questions, result }) => {
+    questions.forEach(q => {
+      const res = result.responses[q.id];
+      if (!res?.visited || !totals[q.difficulty]) return;
+      totals[q.difficulty].count++;
+      totals[q.difficulty].seconds += res.timeSpentSeconds;
+    });
+  });
+
+  return DIFFICULTIES.map(difficulty => ({
+    difficulty,
+    questions: totals[difficulty].count,
+    avgSeconds: totals[difficulty].count > 0 ? Math.round(totals[difficulty].seconds / totals[difficulty].count) : 0
+  }));
+};
+
+const TREND_WINDOW = 3;
+const TREND_THRESHOLD = 3; // percentage points
+
+// Compares the average score % of the latest attempts against the ones before them.
+// Pass `uptoAttemptId` to evaluate the trend as it stood when that attempt was taken.
+export const computeImprovementTrend = (history: TestAttempt[], uptoAttemptId?: string): AIAnalysis['improvementTrend'] => {
+  let sorted = [...history].sort(byDateAsc);
+  if (uptoAttemptId) {
+    const idx = sorted.findIndex(a => a.id === uptoAttemptId);
+    if (idx !== -1) sorted = sorted.slice(0, idx + 1);
+  }
+  if (sorted.length < 2) return 'Stable';
+
+  const average = (xs: TestAttempt[]) => xs.reduce((acc, a) => acc + scorePercent(a), 0) / xs.length;
+
+  const windowSize = Math.min(TREND_WINDOW, Math.floor(sorted.length / 2));
+  const recent = sorted.slice(-windowSize);
+  const previous = sorted.slice(-windowSize * 2, -windowSize);
+  const delta = average(recent) - average(previous);
+
+  if (delta > TREND_THRESHOLD) return 'Up';
+  if (delta < -TREND_THRESHOLD) return 'Down';
+  return 'Stable';
+};
@@ -0,0 +1,103 @@
+import { Question, UserResponse, Subject, Difficulty } from '../types';
+
+export type QuestionOutcome = 'correct' | 'wrong' | 'skipped';
+
+export interface QuestionTiming {
+  questionId: string;
+  index: number; // position in the paper, 0-based
+  subject: Subject;
+  difficulty: Difficulty;
+  seconds: number;
+  visits: number;
+  outcome: QuestionOutcome;
+}
+
+export interface TimeBucket<K> {
+  key: K;
+  questions: number; // visited questions only
+  totalSeconds: number;
+  avgSeconds: number;
+  accuracy: number | null; // % of attempted answered correctly; null when none attempted
+}
+
+export interface TimeAnalysis {
+  perQuestion: QuestionTiming[];
+  bySubject: TimeBucket<Subject>[];
+  byDifficulty: TimeBucket<Difficulty>[];
+  avgSeconds: number; // the paper's own pace, over visited questions
+  sinkThreshold: number;
+  quickThreshold: number;
+  timeSinks: QuestionTiming[]; // slow and wrong, slowest first
+  quickWins: QuestionTiming[]; // fast and correct, fastest first
+}
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+// Thresholds are relative to the candidate's pace in this paper, with floors so a
+// very fast paper doesn't flag 20-second answers as sinks
+const SINK_FACTOR = 1.5;
+const MIN_SINK_SECONDS = 45;
+const QUICK_FACTOR = 0.5;
+const MIN_QUICK_SECONDS = 5;
+
+const outcomeOf = (q: Question, res?: UserResponse): QuestionOutcome => {
+  if (res?.selectedOption === null || res?.selectedOption === undefined) return 'skipped';
+  return res.selectedOption === q.correctAnswer ? 'correct' : 'wrong';
+};
+
+const bucket = <K,>(key: K, timings: QuestionTiming[]): TimeBucket<K> => {
+  const visited = timings.filter(t => t.visits > 0 || t.seconds > 0);
+  const attempted = timings.filter(t => t.outcome !== 'skipped');
+  const totalSeconds = visited.reduce((acc, t) => acc + t.seconds, 0);
+  return {
+    key,
+    questions: visited.length,
+    totalSeconds,
+    avgSeconds: visited.length > 0 ? Math.round(totalSeconds / visited.length) : 0,
+    accuracy: attempted.length > 0
+      ? Math.round((attempted.filter(t => t.outcome === 'correct').length / attempted.length) * 100)
+      : null
+  };
+};
+
+export const analyzeTime = (questions: Question[], responses: Record<string, UserResponse>): TimeAnalysis => {
+  const perQuestion: QuestionTiming[] = questions.map((q, index) => {
+    const res = responses[q.id];
+    return {
+      questionId: q.id,
+      index,
+      subject: q.subject,
+      difficulty: q.difficulty,
+      seconds: res?.timeSpentSeconds || 0,
+      // Attempts saved before visits were recorded still count as one visit if seen
+      visits: res?.visits?.length ?? (res?.visited ? 1 : 0),
+      outcome: outcomeOf(q, res)
+    };
+  });
+
+  const overall = bucket(null, perQuestion);
+  const sinkThreshold = Math.max(MIN_SINK_SECONDS, Math.round(overall.avgSeconds * SINK_FACTOR));
+  const quickThreshold = Math.max(MIN_QUICK_SECONDS, Math.round(overall.avgSeconds * QUICK_FACTOR));
+
+  const subjects = Array.from(new Set(questions.map(q => q.subject)));
+
+  return {
+    perQuestion,
+    bySubject: subjects.map(subject => bucket(subject, perQuestion.filter(t => t.subject === subject))),
+    byDifficulty: DIFFICULTIES
+      .map(difficulty => bucket(difficulty, perQuestion.filter(t => t.difficulty === difficulty)))
+      .filter(b => b.questions > 0),
+    avgSeconds: overall.avgSeconds,
+    sinkThreshold,
+    quickThreshold,
+    timeSinks: perQuestion
+      .filter(t => t.outcome === 'wrong' && t.seconds >= sinkThreshold)
+      .sort((a, b) => b.seconds - a.seconds),
+    quickWins: perQuestion
+      .filter(t => t.outcome === 'correct' && t.seconds > 0 && t.seconds <= quickThreshold)
+      .sort((a, b) => a.seconds - b.seconds)
+  };
+};
+
+export const formatSeconds = (seconds: number): string =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : `${seconds}s`;
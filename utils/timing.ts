@@ -0,0 +1,34 @@
+import { UserResponse } from '../types';
+
+// The visit currently being timed; at most one question is on screen at a time
+export interface OpenVisit {
+  questionId: string;
+  enteredAt: number;
+}
+
+// A running stretch of the exam clock: time left is derived from timestamps, so a
+// throttled background-tab interval can't make the clock drift
+export interface ClockSegment {
+  startedAt: number;
+  secondsLeftAtStart: number;
+}
+
+export const secondsLeft = (segment: ClockSegment, now: number = Date.now()): number =>
+  Math.max(0, segment.secondsLeftAtStart - Math.floor((now - segment.startedAt) / 1000));
+
+// Appends the finished visit to its question and recomputes the question's total
+export const closeVisit = (
+  responses: Record<string, UserResponse>,
+  visit: OpenVisit | null,
+  now: number = Date.now()
+): Record<string, UserResponse> => {
+  const current = visit && responses[visit.questionId];
+  if (!current || now <= visit.enteredAt) return responses;
+
+  const visits = [...(current.visits || []), { enteredAt: visit.enteredAt, exitedAt: now }];
+  const totalMs = visits.reduce((acc, v) => acc + (v.exitedAt - v.enteredAt), 0);
+  return {
+    ...responses,
+    [visit.questionId]: { ...current, visits, timeSpentSeconds: Math.round(totalMs / 1000) }
+  };
+};
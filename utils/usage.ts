@@ -0,0 +1,118 @@
+import { AIUsageRecord, AIFeature, TokenUsage } from '../types';
+
+const DAILY_BUDGET_KEY = 'rrb_ai_daily_budget';
+const DAILY_TOKEN_BUDGET_KEY = 'rrb_ai_daily_token_budget';
+
+// Features the app works without; generation stays on so tests can still be built
+export const OPTIONAL_AI_FEATURES: AIFeature[] = ['hint', 'doubt', 'flashcards', 'analysis'];
+
+export const AI_FEATURE_LABELS: Record<AIFeature, string> = {
+  questions: 'Question batches',
+  questionGroup: 'Question sets (DI / puzzles)',
+  hint: 'Hints',
+  doubt: 'Doubt solver',
+  flashcards: 'Flashcards',
+  analysis: 'Performance analysis'
+};
+
+// USD per million tokens, from the provider's price list. Models not listed (local ones,
+// the fake provider) count as free.
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 }
+};
+
+export const hasModelPrice = (model: string) => model in MODEL_PRICES;
+
+export const estimateCost = (record: Pick<AIUsageRecord, 'model' | 'promptTokens' | 'outputTokens'>): number => {
+  const price = MODEL_PRICES[record.model];
+  if (!price) return 0;
+  return (record.promptTokens * price.input + record.outputTokens * price.output) / 1_000_000;
+};
+
+// Rough rule of thumb (~4 characters a token) for backends that report no counts
+export const estimateTokens = (prompt: string, output: string): TokenUsage => {
+  const promptTokens = Math.ceil(prompt.length / 4);
+  const outputTokens = Math.ceil(output.length / 4);
+  return { promptTokens, outputTokens, totalTokens: promptTokens + outputTokens };
+};
+
+// Local calendar day, e.g. "2025-03-14"
+export const dayKey = (at: number): string => {
+  const d = new Date(at);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const startOfToday = (): number => {
+  const d = new Date();
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+export interface UsageBucket<K> extends TokenUsage {
+  key: K;
+  calls: number;
+  cost: number; // USD
+}
+
+export interface UsageSummary {
+  total: UsageBucket<null>;
+  byDay: UsageBucket<string>[]; // newest first
+  byFeature: UsageBucket<AIFeature>[]; // most expensive first
+}
+
+const emptyBucket = <K,>(key: K): UsageBucket<K> =>
+  ({ key, calls: 0, promptTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 });
+
+const addTo = <K,>(bucket: UsageBucket<K>, record: AIUsageRecord) => {
+  bucket.calls++;
+  bucket.promptTokens += record.promptTokens;
+  bucket.outputTokens += record.outputTokens;
+  bucket.totalTokens += record.totalTokens;
+  bucket.cost += estimateCost(record);
+};
+
+export const summarizeUsage = (records: AIUsageRecord[]): UsageSummary => {
+  const total = emptyBucket(null);
+  const byDay = new Map<string, UsageBucket<string>>();
+  const byFeature = new Map<AIFeature, UsageBucket<AIFeature>>();
+
+  records.forEach(record => {
+    const day = dayKey(record.at);
+    if (!byDay.has(day)) byDay.set(day, emptyBucket(day));
+    if (!byFeature.has(record.feature)) byFeature.set(record.feature, emptyBucket(record.feature));
+    addTo(total, record);
+    addTo(byDay.get(day)!, record);
+    addTo(byFeature.get(record.feature)!, record);
+  });
+
+  return {
+    total,
+    byDay: [...byDay.values()].sort((a, b) => b.key.localeCompare(a.key)),
+    byFeature: [...byFeature.values()].sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens)
+  };
+};
+
+export const formatCost = (usd: number): string => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+// Daily spend cap in USD; 0 means no cap
+export const getDailyBudgetPreference = (): number => {
+  const value = parseFloat(localStorage.getItem(DAILY_BUDGET_KEY) || '0');
+  return Number.isFinite(value) && value > 0 ? value : 0;
+};
+
+export const setDailyBudgetPreference = (usd: number) => {
+  localStorage.setItem(DAILY_BUDGET_KEY, String(Math.max(0, usd)));
+};
+
+// Daily token cap; 0 means no cap. Models without a listed price cost $0, so only this one can stop them.
+export const getDailyTokenBudgetPreference = (): number => {
+  const value = parseInt(localStorage.getItem(DAILY_TOKEN_BUDGET_KEY) || '0', 10);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+};
+
+export const setDailyTokenBudgetPreference = (tokens: number) => {
+  localStorage.setItem(DAILY_TOKEN_BUDGET_KEY, String(Math.max(0, Math.floor(tokens))));
+};
@@ -2,17 +2,25 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // AI calls go to the proxy server (npm run server), which holds the API key
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`
+        }
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // Only non-secret settings are built into the browser bundle; keys are never defined here.
+      // The server build (build:server) reads its environment at runtime instead.
+      define: isSsrBuild ? {} : {
+        // Model backend: gemini (default), openai (any OpenAI-compatible server) or fake
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL),
+        'process.env.AI_REQUESTS_PER_MINUTE': JSON.stringify(env.AI_REQUESTS_PER_MINUTE)
       },
       resolve: {
         alias: {